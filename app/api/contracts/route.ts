@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import crypto from "crypto"
+import { getStorage, listContracts, readContract, writeContract } from "@/lib/storage"
+import { checkContractInput, isValidContractId } from "@/lib/schema-contract"
+import { authorizeAdmin } from "@/lib/session-auth"
+import type { SchemaContract, SchemaContractInput, SchemaContractsResponse } from "@/lib/types"
+
+export const runtime = "nodejs"
+
+// GET /contracts lists the stored schema contracts; GET /contracts?id=... returns one.
+// Contracts describe expected columns, not data, so they are readable without an upload token.
+export async function GET(req: Request) {
+  const id = new URL(req.url).searchParams.get("id")
+  const storage = getStorage()
+
+  if (id === null) {
+    const res: SchemaContractsResponse = { contracts: await listContracts(storage) }
+    return NextResponse.json(res)
+  }
+  if (!isValidContractId(id)) return NextResponse.json({ error: "Invalid id" }, { status: 400 })
+  const contract = await readContract(storage, id)
+  if (!contract) return NextResponse.json({ error: "Unknown contract" }, { status: 404 })
+  return NextResponse.json(contract)
+}
+
+// POST /contracts stores a new contract and returns it with its id. Contracts are never edited, so an upload
+// checked against one keeps meaning the same thing; publish a new contract for a new version.
+// Every upload may be checked against a stored contract, so publishing one takes the admin token.
+export async function POST(req: Request) {
+  const auth = authorizeAdmin(req.headers.get("authorization"))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const body = await req.json().catch(() => null) as unknown
+  const error = checkContractInput(body)
+  if (error) return NextResponse.json({ error }, { status: 400 })
+
+  const input = body as SchemaContractInput
+  const contract: SchemaContract = {
+    id: crypto.randomUUID(),
+    name: input.name.trim(),
+    description: input.description,
+    columns: input.columns.map((c) => ({
+      name: c.name.trim(),
+      required: c.required,
+      type: c.type,
+      pattern: c.pattern,
+      enum: c.enum,
+      minimum: c.minimum,
+      maximum: c.maximum,
+      unique: c.unique,
+      severity: c.severity,
+    })),
+    allowExtraColumns: input.allowExtraColumns ?? true,
+    createdAt: new Date().toISOString(),
+  }
+  await writeContract(getStorage(), contract)
+  return NextResponse.json(contract, { status: 201 })
+}
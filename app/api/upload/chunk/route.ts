@@ -1,25 +1,62 @@
 import { NextResponse } from "next/server"
-import { writeChunk } from "@/lib/storage"
+import crypto from "crypto"
+import { checkChunkRange, getStorage } from "@/lib/storage"
+import { authorizeSession } from "@/lib/session-auth"
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
 
 export const runtime = "nodejs"
 
+// Chunks are placed by `x-chunk-offset` alone: with adaptive chunk sizes an index says nothing about where a chunk goes.
+// `x-chunk-index` is optional and only names the chunk in error messages.
 export async function POST(req: Request) {
   const sessionId = req.headers.get("x-session-id")
   const chunkIndexStr = req.headers.get("x-chunk-index")
-  const totalChunksStr = req.headers.get("x-total-chunks") // kept for contract, not required
+  const chunkOffsetStr = req.headers.get("x-chunk-offset")
+  const chunkSha256 = req.headers.get("x-chunk-sha256")
 
-  if (!sessionId || !chunkIndexStr || !totalChunksStr) {
+  if (!sessionId || !chunkOffsetStr || !chunkSha256) {
     return NextResponse.json({ error: "Missing headers" }, { status: 400 })
   }
 
-  const chunkIndex = Number(chunkIndexStr)
-  if (!Number.isFinite(chunkIndex) || chunkIndex < 0) {
+  const storage = getStorage()
+  const auth = await authorizeSession(storage, sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { manifest } = auth
+  if (manifest.state === "assembling" || manifest.state === "ready") {
+    return NextResponse.json({ error: `Session is ${manifest.state}, no more chunks accepted` }, { status: 409 })
+  }
+
+  const chunkIndex = chunkIndexStr === null ? null : Number(chunkIndexStr)
+  if (chunkIndex !== null && (!Number.isInteger(chunkIndex) || chunkIndex < 0)) {
     return NextResponse.json({ error: "Invalid chunk index" }, { status: 400 })
   }
 
+  const offset = Number(chunkOffsetStr)
+  if (!Number.isInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: "Invalid chunk offset" }, { status: 400 })
+  }
+  const chunkName = chunkIndex === null ? `Chunk at offset ${offset}` : `Chunk ${chunkIndex}`
+
   const buf = await req.arrayBuffer()
-  await writeChunk(sessionId, chunkIndex, buf)
+  // A short chunk inside the file must end where a stored chunk starts: it fills the gap before it
+  const end = offset + buf.byteLength
+  const endsAtStoredChunk = buf.byteLength < manifest.minChunkSize && end < manifest.size
+    && (await storage.listChunks(sessionId)).some((c) => c.offset === end)
+  const rangeError = checkChunkRange(manifest, offset, buf.byteLength, endsAtStoredChunk)
+  if (rangeError) {
+    return NextResponse.json({ error: `${chunkName}: ${rangeError}` }, { status: 400 })
+  }
+
+  // Reject corrupted bodies before they reach disk; the client retries on this status
+  const actualSha256 = crypto.createHash("sha256").update(Buffer.from(buf)).digest("hex")
+  if (actualSha256 !== chunkSha256.toLowerCase()) {
+    return NextResponse.json(
+      { error: `${chunkName} checksum mismatch`, code: "checksum_mismatch" },
+      { status: 422 }
+    )
+  }
+
+  await storage.writeChunk(sessionId, offset, new Uint8Array(buf))
 
   return NextResponse.json({ ok: true })
 }
-
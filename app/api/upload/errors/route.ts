@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { getStorage, readMalformedRowReport } from "@/lib/storage"
+import { malformedRowsToCsv } from "@/lib/malformed-rows"
+import { authorizeSession } from "@/lib/session-auth"
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
+
+export const runtime = "nodejs"
+
+// GET /errors?sessionId=...[&format=csv] serves the malformed row report written by finalize, as JSON or as an errors CSV.
+// It exists for ready sessions and for ones the "fail" policy stopped, so the rows can be fixed before uploading again.
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const sessionId = url.searchParams.get("sessionId")
+  const format = url.searchParams.get("format") ?? "json"
+  if (format !== "json" && format !== "csv") {
+    return NextResponse.json({ error: "format must be json or csv" }, { status: 400 })
+  }
+
+  const storage = getStorage()
+  const auth = await authorizeSession(storage, sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { manifest } = auth
+
+  const report = await readMalformedRowReport(storage, manifest.sessionId)
+  if (!report) return NextResponse.json({ error: "No malformed row report", state: manifest.state }, { status: 404 })
+
+  if (format === "json") return NextResponse.json(report)
+
+  const basename = manifest.filename.replace(/\.[^.]*$/, "").replace(/[^\w.-]+/g, "_") || "upload"
+  return new Response(malformedRowsToCsv(report), {
+    headers: {
+      "content-type": "text/csv; charset=utf-8",
+      "content-disposition": `attachment; filename="${basename}-errors.csv"`,
+    },
+  })
+}
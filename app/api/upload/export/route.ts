@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server"
+import { storedEncoding } from "@/lib/encoding"
+import { EXPORT_FORMATS, exportArtifactName, exportCsv, exportFilename, isExportFormat, openExport, type OpenedExport } from "@/lib/export"
+import { contentRange, ifRangeMatches, parseRangeHeader } from "@/lib/http-range"
+import { toResponseBody } from "@/lib/http-stream"
+import { applySessionSchema } from "@/lib/session-schema"
+import { getStorage, readPreview, readSessionSchema } from "@/lib/storage"
+import { authorizeExportLink, authorizeSession, signExportLink } from "@/lib/session-auth"
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
+import type { ColumnHeader, ExportLinkRequest, ExportLinkResponse } from "@/lib/types"
+
+export const runtime = "nodejs"
+
+// GET /export?sessionId=...&format=csv|jsonl|json[&columns=id,id...] downloads the finalized dataset, malformed rows left out,
+// with the names and types of the saved session schema and without the columns it excludes.
+// Instead of the upload token header, a link signed by POST /export may carry `expires` and `signature`, so the browser
+// can download (and resume) from a plain link without the long-lived token ever being in a URL.
+// The first request streams the export as it is produced (200 without a length) and stores it on the way; once stored,
+// it is served with Range support: 206 for `Range: bytes=...`, 416 past the end. A Range request for an export still
+// being stored waits for it, so a resumed download gets the bytes it is missing.
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const sessionId = url.searchParams.get("sessionId")
+  const format = url.searchParams.get("format") ?? "csv"
+  if (!isExportFormat(format)) {
+    return NextResponse.json({ error: "format must be csv, jsonl or json" }, { status: 400 })
+  }
+
+  const storage = getStorage()
+  const columnIds = url.searchParams.get("columns")
+  const signature = url.searchParams.get("signature")
+  const auth = signature === null
+    ? await authorizeSession(storage, sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+    : await authorizeExportLink(
+      storage,
+      { sessionId, format, columns: columnIds, expires: Number(url.searchParams.get("expires")) },
+      signature
+    )
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { manifest } = auth
+  if (manifest.state !== "ready") {
+    return NextResponse.json({ error: "Upload not finalized", state: manifest.state }, { status: 409 })
+  }
+
+  const preview = await readPreview(storage, manifest.sessionId)
+  if (!preview) return NextResponse.json({ error: "Preview not found" }, { status: 404 })
+  const schema = await readSessionSchema(storage, manifest.sessionId)
+  const { columns, types } = applySessionSchema(preview.preview.columns, preview.preview.types, schema?.columns)
+
+  let selected: ColumnHeader[] = columns
+  if (columnIds !== null) {
+    const ids = columnIds.split(",").filter(Boolean)
+    const byId = new Map(columns.map((c) => [c.id, c]))
+    const unknown = ids.filter((id) => !byId.has(id))
+    if (ids.length === 0 || unknown.length > 0 || new Set(ids).size !== ids.length) {
+      return NextResponse.json(
+        { error: unknown.length > 0 ? `Unknown or excluded columns: ${unknown.join(", ")}` : "columns must list distinct column ids" },
+        { status: 400 }
+      )
+    }
+    selected = ids.map((id) => byId.get(id)!)
+  }
+
+  const name = exportArtifactName({ format, selected, types })
+  const etag = `"${name.slice("export-".length, name.lastIndexOf("."))}"`
+  const rangeHeader = ifRangeMatches(req.headers.get("if-range"), etag) ? req.headers.get("range") : null
+  let opened: OpenedExport
+  try {
+    opened = await openExport(storage, manifest.sessionId, name, async function* () {
+      const source = await storage.streamAssembled(manifest.sessionId)
+      if (!source) throw new Error("Assembled file not found")
+      yield* exportCsv(source, {
+        format,
+        columns: preview.preview.columns,
+        selected,
+        types,
+        dialect: preview.dialect,
+        encoding: storedEncoding(manifest.encoding),
+      })
+    }, { needsSize: rangeHeader !== null })
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Export failed"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+
+  const headers: Record<string, string> = {
+    "content-type": EXPORT_FORMATS[format].contentType,
+    "content-disposition": `attachment; filename="${exportFilename(manifest.filename, format)}"`,
+    "accept-ranges": "bytes",
+    etag,
+    "cache-control": "private, no-cache",
+  }
+
+  if (opened.kind === "live") return new Response(toResponseBody(opened.body), { headers })
+
+  const { size } = opened
+  const range = parseRangeHeader(rangeHeader, size)
+  if (range.kind === "unsatisfiable") {
+    return new Response(null, { status: 416, headers: { ...headers, "content-range": `bytes */${size}` } })
+  }
+
+  const body = await storage.streamArtifact(manifest.sessionId, name, range.kind === "partial" ? range.range : undefined)
+  if (!body) return NextResponse.json({ error: "Export not found" }, { status: 404 })
+
+  if (range.kind === "partial") {
+    const { start, end } = range.range
+    return new Response(toResponseBody(body), {
+      status: 206,
+      headers: { ...headers, "content-length": String(end - start), "content-range": contentRange(range.range, size) },
+    })
+  }
+  return new Response(toResponseBody(body), { headers: { ...headers, "content-length": String(size) } })
+}
+
+// POST /export { sessionId, format, columns? } signs a download link for that export, valid for 15 minutes.
+// It takes the upload token header; the link it returns does not need it. A download that outlives its link resumes
+// with a newly signed one.
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null) as Partial<ExportLinkRequest> | null
+  if (!isExportFormat(body?.format)) {
+    return NextResponse.json({ error: "format must be csv, jsonl or json" }, { status: 400 })
+  }
+  if (body.columns !== undefined && typeof body.columns !== "string") {
+    return NextResponse.json({ error: "columns must be a comma-separated list of column ids" }, { status: 400 })
+  }
+
+  const auth = await authorizeSession(getStorage(), body.sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+
+  const link = { sessionId: auth.manifest.sessionId, format: body.format, columns: body.columns ?? null }
+  const { expires, signature } = signExportLink(link)
+  const params = new URLSearchParams({ sessionId: link.sessionId, format: link.format })
+  if (link.columns !== null) params.set("columns", link.columns)
+  params.set("expires", String(expires))
+  params.set("signature", signature)
+
+  const res: ExportLinkResponse = {
+    url: `/api/upload/export?${params}`,
+    expiresAt: new Date(expires).toISOString(),
+    filename: exportFilename(auth.manifest.filename, link.format),
+  }
+  return NextResponse.json(res)
+}
@@ -1,49 +1,334 @@
 import { NextResponse } from "next/server"
-import { listChunks, readChunk, writeAssembled } from "@/lib/storage"
+import { Readable, pipeline } from "stream"
+import zlib from "zlib"
+import {
+  getMaxUploadBytes,
+  getStorage,
+  planAssembly,
+  readAssembledRange,
+  readContract,
+  readManifest,
+  readPreview,
+  updateSessionState,
+  writeMalformedRowReport,
+  writeManifest,
+  writePreview,
+  writeRowIndex,
+  type StorageAdapter,
+} from "@/lib/storage"
+import { detectCompression, locateZipEntry } from "@/lib/compression"
 import { parseCsvPreview } from "@/lib/csv"
+import { DEFAULT_DIALECT, DIALECT_SAMPLE_BYTES, sniffCsvDialectFromStream } from "@/lib/csv-dialect"
+import {
+  ENCODING_SAMPLE_BYTES,
+  createUndecodableLineTracker,
+  detectEncoding,
+  findUndecodableLines,
+  storedEncoding,
+  transcodeToUtf8,
+} from "@/lib/encoding"
+import {
+  DEFAULT_MALFORMED_ROW_POLICY,
+  findMalformedRows,
+  isMalformedRowPolicy,
+  summarizeMalformedRows,
+} from "@/lib/malformed-rows"
+import { startProfiling } from "@/lib/profile-jobs"
+import { createRowIndexBuilder, offsetsAreExact } from "@/lib/row-index"
+import { checkSchemaContract } from "@/lib/schema-contract"
+import { authorizeSession } from "@/lib/session-auth"
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
+import type {
+  CompressionReport,
+  ContractCheckResult,
+  ContractViolationResponse,
+  EncodingReport,
+  FinalizeRequest,
+  IntegrityResult,
+  MalformedRowPolicy,
+  MalformedRowsResponse,
+  MissingChunksResponse,
+  PreviewResponse,
+  UploadManifest,
+  UploadSessionState,
+} from "@/lib/types"
 
 export const runtime = "nodejs"
 
-export async function POST(req: Request) {
-  const body = await req.json().catch(() => null) as { sessionId?: string } | null
-  const sessionId = body?.sessionId
-  if (!sessionId) return NextResponse.json({ error: "Missing sessionId" }, { status: 400 })
+// The preview only needs the first rows, so never decode more than this from the assembled file
+const PREVIEW_MAX_BYTES = 512 * 1024
+const PREVIEW_MAX_ROWS = 100
+
+// Files not already in BOM-less UTF-8 are rewritten as UTF-8 unless UPLOAD_TRANSCODE_TO_UTF8=false
+const TRANSCODE_TO_UTF8 = process.env.UPLOAD_TRANSCODE_TO_UTF8 !== "false"
 
-  const files = await listChunks(sessionId)
-  if (files.length === 0) return NextResponse.json({ error: "No chunks found" }, { status: 400 })
+// A running finalize refreshes its "assembling" state this often, however long the file takes
+const ASSEMBLY_HEARTBEAT_MS = 30 * 1000
+// An "assembling" state not refreshed for this long comes from a run that died (e.g. a crashed process) and may be retried
+const ASSEMBLY_STALE_MS = 4 * ASSEMBLY_HEARTBEAT_MS
 
-  const parts: Buffer[] = []
-  for (const f of files) {
-    parts.push(await readChunk(sessionId, f))
+type FinalizeOutcome = { status: number; body: unknown }
+
+// Concurrent POSTs for the same session in this process share one run instead of assembling twice
+const inFlight = new Map<string, Promise<FinalizeOutcome>>()
+
+function checkIntegrity(sha256: string, expectedSha256: string | undefined): IntegrityResult {
+  const expected = expectedSha256?.toLowerCase() ?? null
+  return { algorithm: "sha256", sha256, expectedSha256: expected, verified: expected === sha256 }
+}
+
+type DecompressResult = { ok: true; compression: CompressionReport | null } | { ok: false; error: string }
+
+/**
+ * Replaces a gzip or zip upload by the CSV it contains, decompressed with zlib as it streams.
+ * The compression is null for an uncompressed upload. The integrity hash keeps referring to the compressed bytes.
+ * Decompressing stops with an error as soon as the CSV grows past `maxBytes`, so a small archive of
+ * highly repetitive data cannot fill the storage.
+ */
+async function decompressUpload(
+  storage: StorageAdapter,
+  sessionId: string,
+  size: number,
+  maxBytes: number
+): Promise<DecompressResult> {
+  const head = await readAssembledRange(storage, sessionId, { start: 0, end: 4 })
+  if (!head) throw new Error("Assembled file not found")
+  const format = detectCompression(head)
+  if (!format) return { ok: true, compression: null }
+
+  let range = { start: 0, end: size }
+  let inflate: zlib.Gunzip | zlib.InflateRaw | null = zlib.createGunzip()
+  let entryName: string | undefined
+  if (format === "zip") {
+    const entry = await locateZipEntry(async (start, end) => {
+      const bytes = await readAssembledRange(storage, sessionId, { start, end })
+      if (!bytes) throw new Error("Assembled file not found")
+      return bytes
+    }, size)
+    range = { start: entry.dataOffset, end: entry.dataOffset + entry.compressedSize }
+    inflate = entry.method === "deflate" ? zlib.createInflateRaw() : null
+    entryName = entry.name
   }
-  const assembled = Buffer.concat(parts)
-  await writeAssembled(sessionId, assembled)
 
-  // Preview first ~200 lines (cheap)
-  const text = assembled.toString("utf8")
-  const preview = parseCsvPreview(text, 100)
+  const compressed = await storage.streamAssembled(sessionId, range)
+  if (!compressed) throw new Error("Assembled file not found")
+  // A zlib error (corrupt or truncated data) destroys the output stream and surfaces while it is read
+  const body = inflate ? pipeline(Readable.from(compressed), inflate, () => undefined) : compressed
+  let uncompressedBytes = 0
+  let tooLarge = false
+  // Leaving the loop early destroys the zlib stream, so nothing more is inflated
+  const capped = (async function* () {
+    for await (const chunk of body as AsyncIterable<Uint8Array>) {
+      uncompressedBytes += chunk.length
+      if (uncompressedBytes > maxBytes) {
+        tooLarge = true
+        throw new Error("Decompressed file too large")
+      }
+      yield chunk
+    }
+  })()
+  try {
+    await storage.writeAssembled(sessionId, capped)
+  } catch (error: unknown) {
+    if (tooLarge) return { ok: false, error: `The decompressed file is larger than the ${maxBytes} bytes allowed` }
+    throw new Error(`Could not decompress the ${format} file: ${error instanceof Error ? error.message : "corrupt data"}`)
+  }
+  return { ok: true, compression: { format, entryName, compressedBytes: size, uncompressedBytes } }
+}
 
-  return NextResponse.json({ sessionId, preview })
+/**
+ * Detects the assembled file's encoding from its first bytes, then reads it through once to find
+ * lines with undecodable bytes. When transcoding is on, that same pass rewrites the file as UTF-8.
+ * The integrity hash keeps referring to the bytes the client sent.
+ */
+async function normalizeEncoding(storage: StorageAdapter, sessionId: string): Promise<EncodingReport> {
+  const sample = await readAssembledRange(storage, sessionId, { start: 0, end: ENCODING_SAMPLE_BYTES })
+  if (!sample) throw new Error("Assembled file not found")
+  const detected = detectEncoding(sample)
+
+  const body = await storage.streamAssembled(sessionId)
+  if (!body) throw new Error("Assembled file not found")
+
+  if (TRANSCODE_TO_UTF8 && (detected.encoding !== "utf-8" || detected.bom)) {
+    const tracker = createUndecodableLineTracker()
+    await storage.writeAssembled(sessionId, transcodeToUtf8(body, detected.encoding, tracker))
+    return { ...detected, transcoded: true, ...tracker.result() }
+  }
+  return { ...detected, transcoded: false, ...(await findUndecodableLines(body, detected.encoding)) }
+}
+
+/**
+ * Rewrites the manifest of an assembling session with a fresh `stateUpdatedAt` every ASSEMBLY_HEARTBEAT_MS.
+ * The returned stop function waits for a write in progress, so the caller's next state is always written last.
+ */
+function startAssemblyHeartbeat(storage: StorageAdapter, manifest: UploadManifest) {
+  let writing = Promise.resolve()
+  const timer = setInterval(() => {
+    writing = writing.then(async () => {
+      if (manifest.state !== "assembling") return
+      manifest.stateUpdatedAt = new Date().toISOString()
+      // A missed heartbeat only matters if several in a row are missed
+      await writeManifest(storage, manifest).catch(() => undefined)
+    })
+  }, ASSEMBLY_HEARTBEAT_MS)
+  return async () => {
+    clearInterval(timer)
+    await writing
+  }
 }
 
-// Convenience: allow GET /finalize?sessionId=... to fetch preview after done
-export async function GET(req: Request) {
-  const url = new URL(req.url)
-  const sessionId = url.searchParams.get("sessionId")
-  if (!sessionId) return NextResponse.json({ error: "Missing sessionId" }, { status: 400 })
+/**
+ * Runs finalize for a session, following its persisted state:
+ * - ready: returns the stored preview, nothing is reassembled
+ * - assembling (with a recent heartbeat): another run owns it, refuse with 409
+ * - uploading/failed: assemble, verify, decompress, scan for malformed rows while indexing the data rows,
+ *   check the schema contract, compute the preview once and store it, then start profiling
+ */
+async function finalizeSession(
+  sessionId: string,
+  sha256: string | undefined,
+  malformedRowPolicy: MalformedRowPolicy
+): Promise<FinalizeOutcome> {
+  const storage = getStorage()
+  const manifest = await readManifest(storage, sessionId)
+  if (!manifest) return { status: 404, body: { error: "Unknown session" } }
 
-  // This GET just delegates to the assembled file path if it exists, but for simplicity,
-  // we rebuild from chunks here too.
-  const files = await listChunks(sessionId).catch(() => [])
-  if (files.length === 0) return NextResponse.json({ error: "No chunks found" }, { status: 400 })
+  if (manifest.state === "ready") {
+    const stored = await readPreview(storage, sessionId)
+    if (stored) return { status: 200, body: stored }
+  }
 
-  const parts: Buffer[] = []
-  for (const f of files) parts.push(await readChunk(sessionId, f))
-  const assembled = Buffer.concat(parts)
+  if (manifest.state === "assembling" && Date.now() - Date.parse(manifest.stateUpdatedAt) < ASSEMBLY_STALE_MS) {
+    return { status: 409, body: { error: "Finalize already in progress", state: manifest.state } }
+  }
 
-  const text = assembled.toString("utf8")
-  const preview = parseCsvPreview(text, 100)
+  const { parts: chunks, missingRanges } = await planAssembly(storage, manifest)
+  if (missingRanges.length > 0) {
+    const res: MissingChunksResponse = { error: "Missing chunks", missingRanges }
+    return { status: 409, body: res }
+  }
 
-  return NextResponse.json({ sessionId, preview })
+  if (typeof sha256 === "string") manifest.sha256 = sha256
+  await updateSessionState(storage, manifest, "assembling")
+  const stopHeartbeat = startAssemblyHeartbeat(storage, manifest)
+  // Every state after this one is written once the heartbeat has stopped, so a late heartbeat never overwrites it
+  const setState = async (state: UploadSessionState, error?: string) => {
+    await stopHeartbeat()
+    await updateSessionState(storage, manifest, state, error)
+  }
+
+  try {
+    const assembled = await storage.assemble(sessionId, chunks)
+
+    const integrity = checkIntegrity(assembled.sha256, manifest.sha256)
+    if (integrity.expectedSha256 && !integrity.verified) {
+      await storage.removeAssembled(sessionId)
+      await setState("failed", "File checksum mismatch")
+      return { status: 422, body: { error: "File checksum mismatch", integrity } }
+    }
+
+    const decompressed = await decompressUpload(storage, sessionId, assembled.size, getMaxUploadBytes())
+    if (!decompressed.ok) {
+      await storage.removeAssembled(sessionId)
+      await setState("failed", decompressed.error)
+      return { status: 413, body: { error: decompressed.error } }
+    }
+    const { compression } = decompressed
+    if (compression) manifest.compression = compression
+
+    const encoding = await normalizeEncoding(storage, sessionId)
+    manifest.encoding = encoding
+
+    // The dialect confirmed in the wizard wins; older or scripted clients get a sniffed one
+    if (!manifest.dialect) {
+      const sample = await storage.streamAssembled(sessionId, { start: 0, end: DIALECT_SAMPLE_BYTES })
+      manifest.dialect = sample ? await sniffCsvDialectFromStream(sample, storedEncoding(encoding)) : DEFAULT_DIALECT
+    }
+    const dialect = manifest.dialect
+
+    const body = await storage.streamAssembled(sessionId)
+    if (!body) throw new Error("Assembled file not found")
+    // Byte offsets of the data rows, so any page of the file can be read without parsing it from the start
+    const rowIndex = createRowIndexBuilder(offsetsAreExact(encoding))
+    const report = await findMalformedRows(body, {
+      dialect,
+      encoding: storedEncoding(encoding),
+      policy: malformedRowPolicy,
+      rowIndex,
+    })
+    await writeMalformedRowReport(storage, sessionId, report)
+    const malformedRows = summarizeMalformedRows(report)
+    if (malformedRowPolicy === "fail" && report.malformedCount > 0) {
+      const error = `${report.malformedCount} row(s) have the wrong number of fields`
+      await setState("failed", error)
+      const res: MalformedRowsResponse = { error, malformedRows }
+      return { status: 422, body: res }
+    }
+
+    let contract: ContractCheckResult | null = null
+    if (manifest.contractId) {
+      const definition = await readContract(storage, manifest.contractId)
+      if (!definition) throw new Error("The schema contract of this upload no longer exists")
+      const source = await storage.streamAssembled(sessionId)
+      if (!source) throw new Error("Assembled file not found")
+      contract = await checkSchemaContract(source, {
+        contract: definition,
+        dialect,
+        encoding: storedEncoding(encoding),
+        columnRenames: manifest.columnRenames,
+      })
+      if (contract.blocked) {
+        const errors = contract.issues.filter((issue) => issue.severity === "error").length
+        const error = `The file does not meet the schema contract "${contract.contractName}" (${errors} error${errors === 1 ? "" : "s"})`
+        await setState("failed", error)
+        const res: ContractViolationResponse = { error, contract }
+        return { status: 422, body: res }
+      }
+    }
+
+    await writeRowIndex(storage, sessionId, rowIndex.result())
+
+    const head = await storage.streamAssembled(sessionId)
+    if (!head) throw new Error("Assembled file not found")
+    const preview = await parseCsvPreview(head, PREVIEW_MAX_ROWS, {
+      maxBytes: PREVIEW_MAX_BYTES,
+      dialect,
+      encoding: storedEncoding(encoding),
+      columnRenames: manifest.columnRenames,
+    })
+    const result: PreviewResponse = { sessionId, integrity, dialect, encoding, compression, malformedRows, contract, preview }
+    await writePreview(storage, result)
+    await setState("ready")
+    // The full-file profile is computed in the background; the preview page polls /profile for it
+    startProfiling(storage, sessionId)
+
+    return { status: 200, body: result }
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Finalize failed"
+    await setState("failed", message)
+    return { status: 500, body: { error: message } }
+  }
 }
 
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null) as Partial<FinalizeRequest> | null
+  const sessionId = body?.sessionId
+
+  const auth = await authorizeSession(getStorage(), sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { manifest } = auth
+
+  const policy = body?.malformedRowPolicy ?? DEFAULT_MALFORMED_ROW_POLICY
+  if (!isMalformedRowPolicy(policy)) {
+    return NextResponse.json({ error: "Invalid malformedRowPolicy" }, { status: 400 })
+  }
+
+  let run = inFlight.get(manifest.sessionId)
+  if (!run) {
+    run = finalizeSession(manifest.sessionId, body?.sha256, policy).finally(() => inFlight.delete(manifest.sessionId))
+    inFlight.set(manifest.sessionId, run)
+  }
+
+  const outcome = await run
+  return NextResponse.json(outcome.body, { status: outcome.status })
+}
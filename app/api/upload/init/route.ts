@@ -1,14 +1,73 @@
 import { NextResponse } from "next/server"
 import crypto from "crypto"
-import { DATA_DIR, ensureDir } from "@/lib/storage"
-import path from "path"
+import {
+  DEFAULT_CHUNK_BYTES,
+  MAX_CHUNK_BYTES,
+  MIN_CHUNK_BYTES,
+  getMaxUploadBytes,
+  getStorage,
+  readContract,
+  writeManifest,
+} from "@/lib/storage"
+import { signUploadToken } from "@/lib/session-auth"
+import { isValidDialect } from "@/lib/csv-dialect"
+import { isValidColumnRenames } from "@/lib/headers"
+import { isValidContractId } from "@/lib/schema-contract"
+import type { UploadInitRequest, UploadInitResponse, UploadManifest } from "@/lib/types"
 
 export const runtime = "nodejs"
 
 export async function POST(req: Request) {
-  const _body = await req.json().catch(() => ({}))
-  const sessionId = crypto.randomUUID()
-  await ensureDir(path.join(DATA_DIR, sessionId))
-  return NextResponse.json({ sessionId })
-}
+  const body = await req.json().catch(() => null) as Partial<UploadInitRequest> | null
+  const filename = body?.filename
+  const size = body?.size
+
+  if (typeof filename !== "string" || filename.length === 0) {
+    return NextResponse.json({ error: "Missing filename" }, { status: 400 })
+  }
+  if (typeof size !== "number" || !Number.isInteger(size) || size <= 0) {
+    return NextResponse.json({ error: "Invalid size" }, { status: 400 })
+  }
+  const maxBytes = getMaxUploadBytes()
+  if (size > maxBytes) {
+    return NextResponse.json({ error: `The file is larger than the ${maxBytes} bytes allowed` }, { status: 413 })
+  }
+  if (body?.dialect !== undefined && !isValidDialect(body.dialect)) {
+    return NextResponse.json({ error: "Invalid dialect" }, { status: 400 })
+  }
+  if (body?.columnRenames !== undefined && !isValidColumnRenames(body.columnRenames)) {
+    return NextResponse.json({ error: "Invalid columnRenames" }, { status: 400 })
+  }
+  const storage = getStorage()
+  if (body?.contractId !== undefined) {
+    if (!isValidContractId(body.contractId) || !(await readContract(storage, body.contractId))) {
+      return NextResponse.json({ error: "Unknown contractId" }, { status: 400 })
+    }
+  }
 
+  const now = new Date().toISOString()
+  const manifest: UploadManifest = {
+    sessionId: crypto.randomUUID(),
+    filename,
+    size,
+    chunkSize: DEFAULT_CHUNK_BYTES,
+    minChunkSize: MIN_CHUNK_BYTES,
+    maxChunkSize: MAX_CHUNK_BYTES,
+    createdAt: now,
+    state: "uploading",
+    stateUpdatedAt: now,
+    dialect: body?.dialect,
+    columnRenames: body?.columnRenames,
+    contractId: body?.contractId,
+  }
+  await writeManifest(storage, manifest)
+
+  const res: UploadInitResponse = {
+    sessionId: manifest.sessionId,
+    chunkSize: manifest.chunkSize,
+    minChunkSize: manifest.minChunkSize,
+    maxChunkSize: manifest.maxChunkSize,
+    uploadToken: signUploadToken(manifest),
+  }
+  return NextResponse.json(res)
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { emptySessionSchema } from "@/lib/session-schema"
+import { getStorage, readPreview, readSessionSchema } from "@/lib/storage"
+import { authorizeSession } from "@/lib/session-auth"
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
+
+export const runtime = "nodejs"
+
+// GET /preview?sessionId=... serves the preview stored by finalize, with the schema edits saved since;
+// it never touches chunks or the assembled file
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const sessionId = url.searchParams.get("sessionId")
+
+  const storage = getStorage()
+  const auth = await authorizeSession(storage, sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { manifest } = auth
+  if (manifest.state !== "ready") {
+    return NextResponse.json({ error: "Upload not finalized", state: manifest.state }, { status: 409 })
+  }
+
+  const preview = await readPreview(storage, manifest.sessionId)
+  if (!preview) return NextResponse.json({ error: "Preview not found" }, { status: 404 })
+
+  const schema = await readSessionSchema(storage, manifest.sessionId) ?? emptySessionSchema(manifest.sessionId)
+  return NextResponse.json({ ...preview, schema })
+}
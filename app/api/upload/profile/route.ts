@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server"
+import { getStorage, readProfile, readSessionSchema } from "@/lib/storage"
+import { getProfilingJob, startProfiling } from "@/lib/profile-jobs"
+import { authorizeSession } from "@/lib/session-auth"
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
+import type { ProfileResponse } from "@/lib/types"
+
+export const runtime = "nodejs"
+
+// GET /profile?sessionId=... returns the full-file profile, or the progress of the pass computing it.
+// Finalize starts the pass; a session without a profile or a running job (e.g. after a restart) gets one started here,
+// as does a session whose schema was saved since its profile was computed.
+// A failed pass is reported as failed until a request with `retry=1` starts it again.
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const sessionId = url.searchParams.get("sessionId")
+  const retry = url.searchParams.get("retry") === "1"
+
+  const storage = getStorage()
+  const auth = await authorizeSession(storage, sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { manifest } = auth
+  if (manifest.state !== "ready") {
+    return NextResponse.json({ error: "Upload not finalized", state: manifest.state }, { status: 409 })
+  }
+
+  const schemaVersion = (await readSessionSchema(storage, manifest.sessionId))?.version ?? 0
+  const profile = await readProfile(storage, manifest.sessionId)
+  let res: ProfileResponse
+  if (profile && (profile.schemaVersion ?? 0) === schemaVersion) {
+    res = { sessionId: manifest.sessionId, status: "ready", profile }
+  } else {
+    const running = getProfilingJob(manifest.sessionId)
+    const current = running?.schemaVersion === schemaVersion && !(retry && running.error) ? running : null
+    const job = current ?? startProfiling(storage, manifest.sessionId, schemaVersion)
+    res = job.error
+      ? { sessionId: manifest.sessionId, status: "failed", error: job.error }
+      : { sessionId: manifest.sessionId, status: "running", bytesRead: job.bytesRead, totalBytes: job.totalBytes }
+  }
+
+  return NextResponse.json(res)
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server"
+import { storedEncoding } from "@/lib/encoding"
+import { toResponseBody } from "@/lib/http-stream"
+import { MAX_ROWS_LIMIT, ensureRowIndex, queryRowNumbers, readRowSlice, readRowsByNumber } from "@/lib/row-index"
+import { checkRowQuery, isEmptyRowQuery, parseRowQuery } from "@/lib/row-query"
+import { applySessionSchema } from "@/lib/session-schema"
+import { getStorage, readPreview, readSessionSchema } from "@/lib/storage"
+import { authorizeSession } from "@/lib/session-auth"
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
+
+export const runtime = "nodejs"
+
+const DEFAULT_ROWS_LIMIT = 100
+
+// Non-negative integer query parameter; null when present but invalid
+function integerParam(url: URL, name: string, fallback: number) {
+  const raw = url.searchParams.get(name)
+  if (raw === null) return fallback
+  return /^\d+$/.test(raw) ? Number(raw) : null
+}
+
+// Writes the response JSON as the rows are parsed, so a slice is never held in memory as a whole
+async function* rowsJson(head: { sessionId: string; offset: number; totalRows: number; matchingRows: number }, rows: AsyncIterable<Record<string, string>>) {
+  const encoder = new TextEncoder()
+  yield encoder.encode(`${JSON.stringify(head).slice(0, -1)},"rows":[`)
+  let first = true
+  for await (const row of rows) {
+    yield encoder.encode(`${first ? "" : ","}\n${JSON.stringify(row)}`)
+    first = false
+  }
+  yield encoder.encode("\n]}\n")
+}
+
+// GET /rows?sessionId=...&offset=0&limit=100[&sort=id:asc|desc][&filter=id:operator:value...] streams well-formed
+// data rows of the finalized file, keyed by column id (every column, whatever the session schema excludes).
+// Offsets count data rows from 0, among those matching the filters; malformed rows are left out.
+// Reads start at the nearest row index checkpoint, so any page costs about the same. A sorted or filtered page
+// first needs the whole file read once for its query, with the types of the saved session schema.
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const sessionId = url.searchParams.get("sessionId")
+  const offset = integerParam(url, "offset", 0)
+  const limit = integerParam(url, "limit", DEFAULT_ROWS_LIMIT)
+  if (offset === null) return NextResponse.json({ error: "offset must be a non-negative integer" }, { status: 400 })
+  if (limit === null || limit < 1 || limit > MAX_ROWS_LIMIT) {
+    return NextResponse.json({ error: `limit must be an integer from 1 to ${MAX_ROWS_LIMIT}` }, { status: 400 })
+  }
+  const parsed = parseRowQuery(url.searchParams)
+  if (!parsed.ok) return NextResponse.json({ error: parsed.error }, { status: 400 })
+  const { query } = parsed
+
+  const storage = getStorage()
+  const auth = await authorizeSession(storage, sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { manifest } = auth
+  if (manifest.state !== "ready") {
+    return NextResponse.json({ error: "Upload not finalized", state: manifest.state }, { status: 409 })
+  }
+
+  const preview = await readPreview(storage, manifest.sessionId)
+  if (!preview) return NextResponse.json({ error: "Preview not found" }, { status: 404 })
+  const schema = await readSessionSchema(storage, manifest.sessionId)
+  const { types } = applySessionSchema(preview.preview.columns, preview.preview.types, schema?.columns)
+  const queryError = checkRowQuery(query, preview.preview.columns, types)
+  if (queryError) return NextResponse.json({ error: queryError }, { status: 400 })
+
+  let index
+  try {
+    index = await ensureRowIndex(storage, manifest.sessionId, { dialect: preview.dialect, encoding: manifest.encoding })
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Row index failed"
+    return NextResponse.json({ error: message }, { status: 500 })
+  }
+
+  const size = await storage.assembledSize(manifest.sessionId)
+  if (size === null) return NextResponse.json({ error: "Assembled file not found" }, { status: 404 })
+  const open = async (start: number) => {
+    const body = await storage.streamAssembled(manifest.sessionId, { start, end: size })
+    if (!body) throw new Error("Assembled file not found")
+    return body
+  }
+  const options = { columns: preview.preview.columns, dialect: preview.dialect, encoding: storedEncoding(manifest.encoding) }
+
+  let rows: AsyncIterable<Record<string, string>>
+  let matchingRows = index.rowCount
+  if (isEmptyRowQuery(query)) {
+    rows = readRowSlice(open, index, { ...options, offset, limit })
+  } else {
+    let result
+    try {
+      result = await queryRowNumbers(storage, manifest.sessionId, schema?.version ?? 0, { ...options, types, query })
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Row query failed"
+      return NextResponse.json({ error: message }, { status: 500 })
+    }
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: 422 })
+    matchingRows = result.rowNumbers.length
+    rows = readRowsByNumber(open, index, options, result.rowNumbers.subarray(offset, offset + limit))
+  }
+  const body = rowsJson({ sessionId: manifest.sessionId, offset, totalRows: index.rowCount, matchingRows }, rows)
+  return new Response(toResponseBody(body), { headers: { "content-type": "application/json; charset=utf-8" } })
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server"
+import { startProfiling } from "@/lib/profile-jobs"
+import { checkSchemaEdits, emptySessionSchema, normalizeSchemaEdits } from "@/lib/session-schema"
+import { getStorage, readPreview, readSessionSchema, writeSessionSchema } from "@/lib/storage"
+import { authorizeSession } from "@/lib/session-auth"
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
+import type { SchemaConflictResponse, SchemaUpdateRequest, SessionSchema } from "@/lib/types"
+
+export const runtime = "nodejs"
+
+type SaveOutcome = { status: number; body: unknown }
+
+// Saves for the same session in this process run one after the other, so two saves from the same version cannot both pass
+const saving = new Map<string, Promise<SaveOutcome>>()
+
+function serialize(sessionId: string, save: () => Promise<SaveOutcome>) {
+  const run = (saving.get(sessionId) ?? Promise.resolve(null)).then(save, save)
+  saving.set(sessionId, run)
+  void run.catch(() => undefined).finally(() => {
+    if (saving.get(sessionId) === run) saving.delete(sessionId)
+  })
+  return run
+}
+
+// GET /schema?sessionId=... returns the schema edits saved in the preview, version 0 when there are none
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const sessionId = url.searchParams.get("sessionId")
+
+  const storage = getStorage()
+  const auth = await authorizeSession(storage, sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { manifest } = auth
+  if (manifest.state !== "ready") {
+    return NextResponse.json({ error: "Upload not finalized", state: manifest.state }, { status: 409 })
+  }
+
+  const schema = await readSessionSchema(storage, manifest.sessionId)
+  return NextResponse.json(schema ?? emptySessionSchema(manifest.sessionId))
+}
+
+// PUT /schema replaces the edits with a new version. `baseVersion` is the version they were made from;
+// when another save happened since, nothing is written and 409 returns the current version.
+// Exports and profiling use the new version from then on; profiling starts again right away.
+export async function PUT(req: Request) {
+  const body = await req.json().catch(() => null) as Partial<SchemaUpdateRequest> | null
+
+  const storage = getStorage()
+  const auth = await authorizeSession(storage, body?.sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { manifest } = auth
+  if (manifest.state !== "ready") {
+    return NextResponse.json({ error: "Upload not finalized", state: manifest.state }, { status: 409 })
+  }
+
+  const baseVersion = body?.baseVersion
+  if (typeof baseVersion !== "number" || !Number.isInteger(baseVersion) || baseVersion < 0) {
+    return NextResponse.json({ error: "Invalid baseVersion" }, { status: 400 })
+  }
+  const preview = await readPreview(storage, manifest.sessionId)
+  if (!preview) return NextResponse.json({ error: "Preview not found" }, { status: 404 })
+  const { columns, types } = preview.preview
+  const invalid = checkSchemaEdits(body?.columns, columns)
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 })
+  const edits = normalizeSchemaEdits(body!.columns!, columns, types)
+
+  const outcome = await serialize(manifest.sessionId, async () => {
+    const current = await readSessionSchema(storage, manifest.sessionId) ?? emptySessionSchema(manifest.sessionId)
+    if (current.version !== baseVersion) {
+      const res: SchemaConflictResponse = { error: `The schema was saved elsewhere in the meantime (version ${current.version})`, schema: current }
+      return { status: 409, body: res }
+    }
+    const schema: SessionSchema = {
+      sessionId: manifest.sessionId,
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+      columns: edits,
+    }
+    await writeSessionSchema(storage, schema)
+    startProfiling(storage, manifest.sessionId, schema.version)
+    return { status: 200, body: schema }
+  })
+  return NextResponse.json(outcome.body, { status: outcome.status })
+}
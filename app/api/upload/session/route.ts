@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { stopProfiling } from "@/lib/profile-jobs"
+import { getStorage } from "@/lib/storage"
+import { authorizeSession } from "@/lib/session-auth"
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
+
+export const runtime = "nodejs"
+
+// DELETE /session?sessionId=... aborts an upload and removes its chunks, assembled file and preview
+export async function DELETE(req: Request) {
+  const url = new URL(req.url)
+  const sessionId = url.searchParams.get("sessionId")
+
+  const storage = getStorage()
+  const auth = await authorizeSession(storage, sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { manifest } = auth
+  if (manifest.state === "assembling") {
+    return NextResponse.json({ error: "Finalize in progress, try again once it completes" }, { status: 409 })
+  }
+
+  stopProfiling(manifest.sessionId)
+  const deleted = await storage.deleteSession(manifest.sessionId)
+  if (!deleted) return NextResponse.json({ error: "Unknown session" }, { status: 404 })
+
+  return NextResponse.json({ ok: true })
+}
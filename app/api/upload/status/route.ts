@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { authorizeSession } from "@/lib/session-auth"
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
+import type { UploadStatusResponse } from "@/lib/types"
+
+export const runtime = "nodejs"
+
+// GET /status?sessionId=... reports which chunks the server actually holds, so resume doesn't trust localStorage alone
+export async function GET(req: Request) {
+  const url = new URL(req.url)
+  const sessionId = url.searchParams.get("sessionId")
+
+  const storage = getStorage()
+  const auth = await authorizeSession(storage, sessionId, req.headers.get(UPLOAD_TOKEN_HEADER))
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status })
+  const { manifest } = auth
+
+  const res: UploadStatusResponse = {
+    sessionId: manifest.sessionId,
+    state: manifest.state,
+    size: manifest.size,
+    chunkSize: manifest.chunkSize,
+    minChunkSize: manifest.minChunkSize,
+    maxChunkSize: manifest.maxChunkSize,
+    receivedChunks: await storage.listChunks(manifest.sessionId),
+  }
+  return NextResponse.json(res)
+}
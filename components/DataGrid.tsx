@@ -0,0 +1,311 @@
+"use client";
+
+import {useCallback, useEffect, useMemo, useRef, useState, type PointerEvent} from "react";
+import {describeColumnType} from "@/lib/column-types";
+import type {ColumnHeader, ColumnType, RowSort} from "@/lib/types";
+import styles from "./DataGrid.module.css";
+
+/**
+ * Height of every data row, in pixels; rows all have the same, so the ones in view follow from the scroll position
+ */
+const ROW_HEIGHT = 32;
+
+const HEADER_HEIGHT = 40;
+
+/**
+ * Largest height of the scrolling area; a grid with fewer rows is shorter
+ */
+const GRID_MAX_HEIGHT = 480;
+
+/**
+ * Width of the row number column
+ */
+const GUTTER_WIDTH = 72;
+
+const DEFAULT_COLUMN_WIDTH = 160;
+const MIN_COLUMN_WIDTH = 60;
+const MAX_COLUMN_WIDTH = 800;
+
+/**
+ * Rows rendered above and below the viewport, so fast scrolling does not uncover blank space
+ */
+const OVERSCAN_ROWS = 10;
+
+/**
+ * Width rendered left and right of the viewport, in pixels
+ */
+const OVERSCAN_PX = 320;
+
+/**
+ * More rows are asked for once the viewport is this many rows from the last one loaded
+ */
+const LOAD_MORE_THRESHOLD = 100;
+
+const UNKNOWN_TYPE: ColumnType = {kind: "unknown"};
+
+interface DataGridProps {
+  columns: ColumnHeader[];
+  types: Record<string, ColumnType>;
+  /** Rows loaded so far, keyed by column id */
+  rows: Array<Record<string, string>>;
+  /** Position of `rows[0]` among all rows (0-based), for the row numbers */
+  firstRowNumber: number;
+  /** More rows exist after the loaded ones */
+  hasMore: boolean;
+  loading: boolean;
+  /** Leading columns pinned while scrolling horizontally, next to the row numbers */
+  stickyColumns: number;
+  sort: RowSort | null;
+  onSort: (columnId: string) => void;
+  /** Called when the viewport nears the last loaded row and `hasMore` */
+  onLoadMore: () => void;
+  /** Scrolls back to the top when it changes, i.e. when a different set of rows is shown */
+  resetKey: string;
+}
+
+interface Viewport {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Tooltip showing the header as written in the file, when the displayed name differs from it
+ */
+export function originalHeaderTitle(column: ColumnHeader) {
+  if (column.original === column.name) return undefined;
+  return column.original.trim() === "" ? "No header in the file" : `Header in the file: "${column.original}"`;
+}
+
+/**
+ * Virtualized grid of data rows: only the rows and columns in view (plus a margin) are rendered, so thousands of rows
+ * by a hundred columns scroll as smoothly as a screenful.
+ * - Sticky header, row numbers and leading columns
+ * - Resizable columns: drag a header's right edge, double-click it to restore the default width
+ * - Headers sort the rows when clicked
+ * - Infinite scroll: `onLoadMore` is called as the end of the loaded rows comes into view
+ */
+export default function DataGrid({
+  columns,
+  types,
+  rows,
+  firstRowNumber,
+  hasMore,
+  loading,
+  stickyColumns,
+  sort,
+  onSort,
+  onLoadMore,
+  resetKey,
+}: DataGridProps) {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const resizeRef = useRef<{columnId: string; startX: number; startWidth: number} | null>(null);
+  const [viewport, setViewport] = useState<Viewport>({top: 0, left: 0, width: 0, height: GRID_MAX_HEIGHT});
+  const [widths, setWidths] = useState<Record<string, number>>({});
+
+  /**
+   * Reads the scroll position and size of the scrolling area, at most once per animation frame
+   */
+  const measure = useCallback(() => {
+    if (frameRef.current !== null) return;
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      const el = scrollerRef.current;
+      if (!el) return;
+      setViewport({top: el.scrollTop, left: el.scrollLeft, width: el.clientWidth, height: el.clientHeight});
+    });
+  }, []);
+
+  useEffect(() => {
+    const el = scrollerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => {
+      observer.disconnect();
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    };
+  }, [measure]);
+
+  useEffect(() => {
+    scrollerRef.current?.scrollTo({top: 0});
+  }, [resetKey]);
+
+  // Column widths and left edges; the last column takes up the room left when all are narrower than the grid
+  const layout = useMemo(() => {
+    const sized = columns.map((c) => widths[c.id] ?? DEFAULT_COLUMN_WIDTH);
+    const natural = sized.reduce((sum, w) => sum + w, GUTTER_WIDTH);
+    const last = sized.length - 1;
+    if (last >= 0 && natural < viewport.width) sized[last] = sized[last]! + viewport.width - natural;
+    const offsets: number[] = [];
+    let x = GUTTER_WIDTH;
+    for (const w of sized) {
+      offsets.push(x);
+      x += w;
+    }
+    return {sized, offsets, totalWidth: x};
+  }, [columns, widths, viewport.width]);
+
+  // Columns to render: the pinned ones, then those overlapping the viewport after a spacer for the ones scrolled past
+  const pinned = Math.min(stickyColumns, columns.length);
+  const pinnedEnd = layout.offsets[pinned] ?? layout.totalWidth;
+  const pinnedColumns = columns.slice(0, pinned).map((_, i) => i);
+  const scrollingColumns: number[] = [];
+  for (let i = pinned; i < columns.length; i++) {
+    const left = layout.offsets[i]!;
+    const right = left + layout.sized[i]!;
+    if (right >= viewport.left + pinnedEnd - OVERSCAN_PX && left <= viewport.left + viewport.width + OVERSCAN_PX) {
+      scrollingColumns.push(i);
+    }
+  }
+  const spacerWidth = scrollingColumns.length > 0 ? layout.offsets[scrollingColumns[0]!]! - pinnedEnd : 0;
+
+  // Rows to render, below the sticky header
+  const firstRow = Math.max(0, Math.floor(viewport.top / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastVisibleRow = Math.ceil((viewport.top + viewport.height - HEADER_HEIGHT) / ROW_HEIGHT);
+  const lastRow = Math.min(rows.length, lastVisibleRow + OVERSCAN_ROWS);
+  const contentHeight = HEADER_HEIGHT + (rows.length + (hasMore ? 1 : 0)) * ROW_HEIGHT;
+
+  useEffect(() => {
+    if (hasMore && !loading && lastVisibleRow >= rows.length - LOAD_MORE_THRESHOLD) onLoadMore();
+  }, [hasMore, loading, lastVisibleRow, rows.length, onLoadMore]);
+
+  /**
+   * Starts resizing a column from its right edge, following the pointer until it is released
+   */
+  const startResize = useCallback((event: PointerEvent<HTMLDivElement>, columnId: string, width: number) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    resizeRef.current = {columnId, startX: event.clientX, startWidth: width};
+  }, []);
+
+  const resize = useCallback((event: PointerEvent<HTMLDivElement>) => {
+    const drag = resizeRef.current;
+    if (!drag) return;
+    const width = Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, drag.startWidth + event.clientX - drag.startX));
+    setWidths((w) => ({...w, [drag.columnId]: Math.round(width)}));
+  }, []);
+
+  const endResize = useCallback(() => {
+    resizeRef.current = null;
+  }, []);
+
+  const resetWidth = useCallback((columnId: string) => {
+    setWidths((w) => {
+      const next = {...w};
+      delete next[columnId];
+      return next;
+    });
+  }, []);
+
+  /**
+   * Position of a cell in its row: pinned cells stick at their left edge, the others follow the spacer in order
+   */
+  const cellStyle = (index: number) => {
+    const width = layout.sized[index]!;
+    return index < pinned ? {width, left: layout.offsets[index]} : {width};
+  };
+
+  const renderHeaderCell = (i: number) => {
+    const c = columns[i]!;
+    const direction = sort?.columnId === c.id ? sort.direction : null;
+    return (
+      <div
+        key={c.id}
+        className={`${styles.headerCell} ${i < pinned ? styles.pinned : ""}`}
+        style={cellStyle(i)}
+        role="columnheader"
+        aria-colindex={i + 2}
+        aria-sort={direction === "asc" ? "ascending" : direction === "desc" ? "descending" : "none"}
+        title={originalHeaderTitle(c)}
+      >
+        <button onClick={() => onSort(c.id)} className={styles.sortButton}>
+          <span className={styles.headerName}>{c.name}</span>
+          <span className={styles.headerType}>{describeColumnType(types[c.id] ?? UNKNOWN_TYPE)}</span>
+          <span className={styles.sortIndicator}>{direction === "asc" ? "▲" : direction === "desc" ? "▼" : "↕"}</span>
+        </button>
+        <div
+          className={styles.resizeHandle}
+          role="separator"
+          aria-orientation="vertical"
+          aria-label={`Resize ${c.name}`}
+          onPointerDown={(e) => startResize(e, c.id, layout.sized[i]!)}
+          onPointerMove={resize}
+          onPointerUp={endResize}
+          onPointerCancel={endResize}
+          onDoubleClick={() => resetWidth(c.id)}
+        />
+      </div>
+    );
+  };
+
+  const renderCell = (row: Record<string, string>, i: number) => {
+    const c = columns[i]!;
+    const value = String(row[c.id] ?? "");
+    return (
+      <div
+        key={c.id}
+        className={`${styles.cell} ${i < pinned ? styles.pinned : ""}`}
+        style={cellStyle(i)}
+        role="gridcell"
+        aria-colindex={i + 2}
+        title={value}
+      >
+        {value}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={scrollerRef}
+      className={styles.scroller}
+      style={{maxHeight: GRID_MAX_HEIGHT}}
+      onScroll={measure}
+      role="grid"
+      aria-rowcount={rows.length + 1}
+      aria-colcount={columns.length + 1}
+      aria-busy={loading}
+    >
+      <div className={styles.content} style={{height: contentHeight, width: layout.totalWidth}}>
+        <div className={styles.header} role="row" aria-rowindex={1} style={{height: HEADER_HEIGHT, width: layout.totalWidth}}>
+          <div className={`${styles.headerCell} ${styles.gutter}`} style={{width: GUTTER_WIDTH}} role="columnheader">#</div>
+          {pinnedColumns.map(renderHeaderCell)}
+          <div className={styles.spacer} style={{width: spacerWidth}} />
+          {scrollingColumns.map(renderHeaderCell)}
+        </div>
+
+        {rows.slice(firstRow, lastRow).map((row, offset) => {
+          const r = firstRow + offset;
+          return (
+            <div
+              key={r}
+              className={`${styles.row} ${r % 2 === 1 ? styles.rowAlt : ""}`}
+              style={{top: HEADER_HEIGHT + r * ROW_HEIGHT, height: ROW_HEIGHT, width: layout.totalWidth}}
+              role="row"
+              aria-rowindex={r + 2}
+            >
+              <div className={`${styles.cell} ${styles.gutter}`} style={{width: GUTTER_WIDTH}} role="rowheader">
+                {(firstRowNumber + r + 1).toLocaleString()}
+              </div>
+              {pinnedColumns.map((i) => renderCell(row, i))}
+              <div className={styles.spacer} style={{width: spacerWidth}} />
+              {scrollingColumns.map((i) => renderCell(row, i))}
+            </div>
+          );
+        })}
+
+        {hasMore && (
+          <div
+            className={styles.loadingRow}
+            style={{top: HEADER_HEIGHT + rows.length * ROW_HEIGHT, height: ROW_HEIGHT, left: viewport.left, width: viewport.width}}
+          >
+            {loading ? "Loading more rows…" : "Scroll to load more rows"}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,41 @@
 "use client";
 
-import {useEffect, useMemo, useState} from "react";
-import type {PreviewResponse} from "@/lib/types";
-import {detectSchemaIssues, type SchemaIssue} from "@/lib/schema-detection";
+import {useCallback, useEffect, useMemo, useState} from "react";
+import type {
+  ColumnHeader,
+  ColumnProfile,
+  ColumnSchemaEdit,
+  ColumnType,
+  ColumnTypeKind,
+  CompressionReport,
+  ContractCheckResult,
+  CsvDialect,
+  DatasetProfile,
+  EncodingReport,
+  ExportFormat,
+  HistogramBin,
+  IntegrityResult,
+  MalformedRowSummary,
+  PreviewResponse,
+  RowFilter,
+  RowQuery,
+  RowSort,
+  SessionSchema,
+} from "@/lib/types";
+import {columnTypeOfKind, describeColumnType, parseFilterBound} from "@/lib/column-types";
+import {describeDelimiter} from "@/lib/csv-dialect";
+import {detectEncodingIssues, detectSchemaIssues, type SchemaIssue} from "@/lib/schema-detection";
+import {downloadExport} from "@/lib/export-download";
+import {downloadMalformedRowsCsv} from "@/lib/malformed-rows-download";
+import {recallPreviewToken} from "@/lib/preview-token";
+import {EMPTY_ROW_QUERY, filterOperatorsOf} from "@/lib/row-query";
+import {applySessionSchema, checkAppliedColumns, normalizeSchemaEdits} from "@/lib/session-schema";
+import {UPLOAD_TOKEN_HEADER} from "@/lib/upload-headers";
+import {useDatasetProfile} from "@/hooks/useDatasetProfile";
+import {useDatasetRows} from "@/hooks/useDatasetRows";
+import {useMalformedRowReport} from "@/hooks/useMalformedRowReport";
+import {useSessionSchema} from "@/hooks/useSessionSchema";
+import DataGrid, {originalHeaderTitle} from "./DataGrid";
 import styles from "./DataPreviewTable.module.css";
 
 /**
@@ -11,37 +44,77 @@ import styles from "./DataPreviewTable.module.css";
 const DEFAULT_VISIBLE_COLUMNS = 10;
 
 /**
- * Number of rows per page for pagination
+ * Badge shown for a column without an inferred type
  */
-const ROWS_PER_PAGE = 20;
+const UNKNOWN_TYPE: ColumnType = {kind: "unknown"};
 
 /**
- * Minimum number of columns required to enable sticky first column
+ * Rows requested at a time while scrolling through the grid
  */
-const MIN_COLUMNS_FOR_STICKY = 10;
+const ROWS_PER_BLOCK = 500;
+
+/**
+ * Most rows kept loaded from one start row; past it, a jump to a row reads further
+ */
+const MAX_LOADED_ROWS = 100_000;
+
+/**
+ * Formats offered by the export menu, with the label shown for each
+ */
+const EXPORT_FORMAT_OPTIONS: {value: ExportFormat; label: string}[] = [
+  {value: "csv", label: "CSV"},
+  {value: "jsonl", label: "JSON Lines"},
+  {value: "json", label: "JSON (typed)"},
+];
+
+/**
+ * Types a column can be changed to in the schema editor, with the label shown for each
+ */
+const TYPE_KIND_OPTIONS: {value: ColumnTypeKind; label: string}[] = [
+  {value: "string", label: "Text"},
+  {value: "categorical", label: "Categorical"},
+  {value: "integer", label: "Integer"},
+  {value: "decimal", label: "Decimal"},
+  {value: "percentage", label: "Percentage"},
+  {value: "currency", label: "Currency"},
+  {value: "boolean", label: "Boolean"},
+  {value: "date", label: "Date"},
+  {value: "datetime", label: "Date and time"},
+  {value: "email", label: "Email"},
+  {value: "url", label: "URL"},
+];
 
 /**
  * Main component for displaying CSV preview data with enhanced features:
- * - Schema issue detection and display
+ * - Schema editor: rename, retype and exclude columns, saved as a versioned schema that exports and profiling apply
+ * - Schema issue detection and display, over the full file once profiling finishes, re-checked live as the schema is edited
+ * - Result of the schema contract chosen at upload, checked over the full file at finalize
+ * - Full-file column profile (nulls, distinct values, range, top values, histogram)
+ * - Export of the whole dataset as CSV, JSON Lines or typed JSON, for all or some columns
  * - Column limiting for wide datasets
- * - Sticky columns during horizontal scroll
- * - Pagination for large row sets
+ * - Virtualized grid over every row of the file, loaded from the server as it scrolls, with jumps to any row
+ * - Sorting by a column (header click) and per-column filters, applied by the server to the whole file
+ * - Column search by name
  */
 export default function DataPreviewTable() {
   const [data, setData] = useState<PreviewResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showAllColumns, setShowAllColumns] = useState(false);
-  const [currentPage, setCurrentPage] = useState(1);
+  const [columnSearch, setColumnSearch] = useState("");
+  const [startRow, setStartRow] = useState(0);
+  const [rowQuery, setRowQuery] = useState<RowQuery>(EMPTY_ROW_QUERY);
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [uploadToken, setUploadToken] = useState<string | null>(null);
   const [sessionIdExtracted, setSessionIdExtracted] = useState(false);
 
   /**
-   * Extracts sessionId from URL query parameters after component mounts
+   * Extracts sessionId from the URL query parameters, and its upload token from sessionStorage, after component mounts
    * This ensures consistent server/client rendering to avoid hydration errors
    */
   useEffect(() => {
-    const sp = new URLSearchParams(window.location.search);
-    setSessionId(sp.get("sessionId"));
+    const id = new URLSearchParams(window.location.search).get("sessionId");
+    setSessionId(id);
+    setUploadToken(id ? recallPreviewToken(id) : null);
     setSessionIdExtracted(true);
   }, []);
 
@@ -53,7 +126,18 @@ export default function DataPreviewTable() {
     ; (async () => {
       setError(null);
       setData(null);
-      const res = await fetch(`/api/upload/finalize?sessionId=${encodeURIComponent(sessionId)}`, {method: "GET"});
+      const res = await fetch(`/api/upload/preview?sessionId=${encodeURIComponent(sessionId)}`, {
+        method: "GET",
+        headers: uploadToken ? {[UPLOAD_TOKEN_HEADER]: uploadToken} : undefined,
+      });
+      if (res.status === 400 || res.status === 401 || res.status === 403) {
+        setError("This preview link is invalid or incomplete. Open the preview from the upload page.");
+        return;
+      }
+      if (res.status === 409) {
+        setError("This upload has not finished processing yet. Go back to the upload page and finish or retry it.");
+        return;
+      }
       if (!res.ok) {
         setError(`Failed to load preview (${res.status})`);
         return;
@@ -61,37 +145,99 @@ export default function DataPreviewTable() {
       const json = (await res.json()) as PreviewResponse;
       setData(json);
     })();
-  }, [sessionId]);
+  }, [sessionId, uploadToken]);
+
+  // Saved schema of the session, and the edits made on this page (saved or not)
+  const {schema, saving: schemaSaving, error: schemaError, save: saveSchema} = useSessionSchema(sessionId, uploadToken, data?.schema ?? null);
+  const [schemaEdits, setSchemaEdits] = useState<Record<string, ColumnSchemaEdit>>({});
+  useEffect(() => {
+    setSchemaEdits(data?.schema?.columns ?? {});
+  }, [data]);
 
-  // Extract columns, types, and rows safely (with defaults for when data is not loaded)
-  const columns = data?.preview.columns ?? [];
-  const types = data?.preview.types ?? {};
+  // Full-file statistics, computed in the background once the preview is available and again for each saved schema
+  const {profile, progress: profilingProgress, error: profileError, retry: retryProfiling} = useDatasetProfile(data ? sessionId : null, uploadToken, schema?.version);
+
+  // Extract columns, types, and rows safely (with defaults for when data is not loaded), with the schema edits applied
+  const {columns, types} = useMemo(() => {
+    return applySessionSchema(data?.preview.columns ?? [], data?.preview.types ?? {}, schemaEdits);
+  }, [data, schemaEdits]);
   const rows = data?.preview.rows ?? [];
 
+  // The export, sorting and filters apply the saved schema, not unsaved edits
+  const {columns: exportColumns, types: savedTypes} = useMemo(() => {
+    return applySessionSchema(data?.preview.columns ?? [], data?.preview.types ?? {}, schema?.columns);
+  }, [data, schema]);
+  const schemaDirty = useMemo(() => {
+    if (!data || !schema) return false;
+    const edits = normalizeSchemaEdits(schemaEdits, data.preview.columns, data.preview.types);
+    return JSON.stringify(edits) !== JSON.stringify(schema.columns);
+  }, [data, schema, schemaEdits]);
+
   // Detect schema issues (only when data is available)
+  const encoding = data?.encoding;
   const schemaIssues = useMemo(() => {
-    if (columns.length === 0 || rows.length === 0) return [];
-    return detectSchemaIssues(columns, types, rows);
-  }, [columns, types, rows]);
+    const encodingIssues = detectEncodingIssues(encoding);
+    if (columns.length === 0 || rows.length === 0) return encodingIssues;
+    return [...encodingIssues, ...detectSchemaIssues(columns, types, rows, profile)];
+  }, [encoding, columns, types, rows, profile]);
 
-  // Determine visible columns
+  // Columns whose name (or header in the file) contains the search text, then limited unless all are shown
+  const searchedColumns = useMemo(() => {
+    const term = columnSearch.trim().toLowerCase();
+    if (!term) return columns;
+    return columns.filter((c) => c.name.toLowerCase().includes(term) || c.original.toLowerCase().includes(term));
+  }, [columns, columnSearch]);
   const visibleColumns = useMemo(() => {
-    if (columns.length === 0) return [];
-    return showAllColumns ? columns : columns.slice(0, DEFAULT_VISIBLE_COLUMNS);
-  }, [columns, showAllColumns]);
+    return showAllColumns ? searchedColumns : searchedColumns.slice(0, DEFAULT_VISIBLE_COLUMNS);
+  }, [searchedColumns, showAllColumns]);
+
+  const hasMoreColumns = searchedColumns.length > visibleColumns.length;
+
+  /**
+   * Replaces the sort and filters, back at the first row of the new result
+   */
+  const changeRowQuery = useCallback((query: RowQuery) => {
+    setRowQuery(query);
+    setStartRow(0);
+  }, []);
+
+  /**
+   * Sorts by a column: ascending, then descending, then back to file order
+   */
+  const toggleSort = useCallback((columnId: string) => {
+    const sort = rowQuery.sort;
+    const next: RowSort | null = sort?.columnId !== columnId
+      ? {columnId, direction: "asc"}
+      : sort.direction === "asc" ? {columnId, direction: "desc"} : null;
+    changeRowQuery({...rowQuery, sort: next});
+  }, [rowQuery, changeRowQuery]);
 
-  const hasMoreColumns = columns.length > visibleColumns.length;
+  // A saved schema can retype a column; filters whose operator no longer fits it are dropped
+  useEffect(() => {
+    setRowQuery((query) => {
+      const filters = query.filters.filter((f) => savedTypes[f.columnId] && filterOperatorsOf(savedTypes[f.columnId]!).includes(f.operator));
+      return filters.length === query.filters.length ? query : {...query, filters};
+    });
+  }, [savedTypes]);
 
-  // Pagination calculations
-  const totalPages = Math.ceil(rows.length / ROWS_PER_PAGE);
-  const startRow = (currentPage - 1) * ROWS_PER_PAGE;
-  const endRow = startRow + ROWS_PER_PAGE;
-  const paginatedRows = rows.slice(startRow, endRow);
+  // Rows of the whole file (or those matching the filters), loaded a block at a time as the grid scrolls;
+  // until the first block arrives, the preview rows stand in for it
+  const {
+    rows: loadedRows,
+    totalRows: fileRows,
+    matchingRows,
+    loading: rowsLoading,
+    error: rowsError,
+    loadMore,
+  } = useDatasetRows(data ? sessionId : null, uploadToken, startRow, ROWS_PER_BLOCK, rowQuery);
+  const gridRows = loadedRows.length === 0 && fileRows === null ? rows : loadedRows;
+  // A failed block is not retried on its own, or scrolling would keep requesting it; a jump loads afresh
+  const hasMoreRows = !rowsError && matchingRows !== null && startRow + loadedRows.length < matchingRows && loadedRows.length < MAX_LOADED_ROWS;
 
-  // Reset to first page when data changes
+  // Back to the first row when data changes
   useEffect(() => {
     if (data) {
-      setCurrentPage(1);
+      setStartRow(0);
     }
   }, [data]);
 
@@ -103,12 +249,23 @@ export default function DataPreviewTable() {
 
   return (
     <div id="data-preview-table" className={styles.container}>
+      <IntegrityBadge integrity={data.integrity} />
+      {data.dialect && <DialectSummary dialect={data.dialect} encoding={data.encoding} compression={data.compression} />}
+      <ProfilingStatus
+        profile={profile}
+        progress={profilingProgress}
+        error={profileError}
+        previewRows={rows.length}
+        onRetry={retryProfiling}
+      />
+
       {/* Schema Issues Panel */}
       {schemaIssues.length > 0 && (
         <div className={styles.schemaIssuesPanel}>
           <div className={styles.schemaIssuesHeader}>
             <span>⚠️</span>
             <span>Schema Issues Detected ({schemaIssues.length})</span>
+            <span className={styles.schemaIssuesScope}>{profile ? "full file" : `first ${rows.length} rows`}</span>
           </div>
           <div className={styles.schemaIssuesList}>
             {schemaIssues.map((issue, idx) => (
@@ -118,64 +275,469 @@ export default function DataPreviewTable() {
         </div>
       )}
 
+      {!!data.malformedRows?.malformedCount && (
+        <MalformedRowsPanel summary={data.malformedRows} sessionId={sessionId} uploadToken={uploadToken} />
+      )}
+
+      {data.contract && <ContractPanel result={data.contract} />}
+
       {/* Columns Overview */}
       <div className={styles.columnsPanel}>
         <div className={styles.columnsHeader}>
-          <span>Columns ({columns.length})</span>
-          {columns.length > DEFAULT_VISIBLE_COLUMNS && (
-            <button
-              onClick={() => setShowAllColumns(!showAllColumns)}
-              className={styles.columnsToggleButton}
-            >
-              {showAllColumns ? `Show first ${DEFAULT_VISIBLE_COLUMNS}` : `Show all ${columns.length}`}
-            </button>
-          )}
+          <span>
+            Columns ({searchedColumns.length === columns.length ? columns.length : `${searchedColumns.length} of ${columns.length}`})
+          </span>
+          <div className={styles.columnsHeaderActions}>
+            <input
+              type="search"
+              value={columnSearch}
+              placeholder="Search columns"
+              aria-label="Search columns"
+              onChange={(e) => setColumnSearch(e.target.value)}
+              className={styles.schemaEditorInput}
+            />
+            {searchedColumns.length > DEFAULT_VISIBLE_COLUMNS && (
+              <button
+                onClick={() => setShowAllColumns(!showAllColumns)}
+                className={styles.columnsToggleButton}
+              >
+                {showAllColumns ? `Show first ${DEFAULT_VISIBLE_COLUMNS}` : `Show all ${searchedColumns.length}`}
+              </button>
+            )}
+          </div>
         </div>
         <div className={styles.columnsList}>
           {visibleColumns.map((c) => (
-            <span key={c} className={styles.columnTag}>
-              <b>{c}</b> <span className={styles.columnTagType}>({types[c] ?? "unknown"})</span>
+            <span key={c.id} className={styles.columnTag} title={originalHeaderTitle(c)}>
+              <b>{c.name}</b> <span className={styles.columnTagType}>({describeColumnType(types[c.id] ?? UNKNOWN_TYPE)})</span>
             </span>
           ))}
           {hasMoreColumns && !showAllColumns && (
             <span className={styles.columnTagMore}>
-              +{columns.length - DEFAULT_VISIBLE_COLUMNS} more
+              +{searchedColumns.length - DEFAULT_VISIBLE_COLUMNS} more
             </span>
           )}
+          {searchedColumns.length === 0 && (
+            <span className={styles.columnTagMore}>No column matches &quot;{columnSearch.trim()}&quot;</span>
+          )}
         </div>
       </div>
 
-      {/* Table View */}
-      <TableView
-        visibleColumns={visibleColumns}
-        types={types}
-        rows={paginatedRows}
-        stickyColumns={visibleColumns.length > MIN_COLUMNS_FOR_STICKY ? 1 : 0}
+      {schema && (
+        <SchemaEditorPanel
+          columns={data.preview.columns}
+          types={data.preview.types}
+          rows={rows}
+          edits={schemaEdits}
+          schema={schema}
+          dirty={schemaDirty}
+          invalid={checkAppliedColumns(columns)}
+          saving={schemaSaving}
+          error={schemaError}
+          onChange={setSchemaEdits}
+          onSave={() => saveSchema(normalizeSchemaEdits(schemaEdits, data.preview.columns, data.preview.types))}
+          onDiscard={() => setSchemaEdits(schema.columns)}
+        />
+      )}
+
+      <ExportPanel columns={exportColumns} schemaDirty={schemaDirty} sessionId={sessionId} uploadToken={uploadToken} />
+
+      {profile && <ColumnProfilePanel profile={profile} visibleColumns={visibleColumns} />}
+
+      <RowFilterPanel
+        columns={exportColumns}
+        types={savedTypes}
+        query={rowQuery}
+        matchingRows={matchingRows}
+        fileRows={fileRows}
+        schemaDirty={schemaDirty}
+        onChange={changeRowQuery}
       />
 
-      {/* Pagination Controls */}
-      {rows.length > ROWS_PER_PAGE && (
-        <div className={styles.pagination}>
-          <div className={styles.paginationInfo}>
-            Showing {startRow + 1}-{Math.min(endRow, rows.length)} of {rows.length} rows
+      {/* Grid View */}
+      <div className={styles.tablePanel}>
+        <div className={styles.tableHeader}>Rows{rowsLoading ? " (loading…)" : ""}</div>
+        <DataGrid
+          columns={visibleColumns}
+          types={types}
+          rows={gridRows}
+          firstRowNumber={startRow}
+          hasMore={hasMoreRows}
+          loading={rowsLoading}
+          stickyColumns={1}
+          sort={rowQuery.sort}
+          onSort={toggleSort}
+          onLoadMore={loadMore}
+          resetKey={`${startRow}:${JSON.stringify(rowQuery)}`}
+        />
+        {matchingRows === 0 && !rowsLoading && <div className={styles.paginationInfo}>No rows match the filters.</div>}
+        {rowsError && <div className={styles.paginationInfo}>⚠️ {rowsError}</div>}
+        {matchingRows !== null && matchingRows > 0 && (
+          <RowsFooter
+            startRow={startRow}
+            loadedRows={loadedRows.length}
+            matchingRows={matchingRows}
+            capped={loadedRows.length >= MAX_LOADED_ROWS && startRow + loadedRows.length < matchingRows}
+            onJump={setStartRow}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Where the loaded rows start and end, with jumps to any row number (1-based among the rows shown, malformed rows
+ * not counted): the grid then loads from that row on
+ */
+function RowsFooter({
+  startRow,
+  loadedRows,
+  matchingRows,
+  capped,
+  onJump,
+}: {
+  startRow: number;
+  loadedRows: number;
+  matchingRows: number;
+  /** As many rows are loaded as the grid keeps; more follow */
+  capped: boolean;
+  onJump: (startRow: number) => void;
+}) {
+  const [rowInput, setRowInput] = useState("");
+
+  return (
+    <div className={styles.pagination}>
+      <div className={styles.paginationInfo}>
+        Rows {(startRow + 1).toLocaleString()}-{(startRow + loadedRows).toLocaleString()} of {matchingRows.toLocaleString()} loaded
+        {capped && " • go to a row to read further"}
+      </div>
+      <div className={styles.paginationControls}>
+        {startRow > 0 && (
+          <button onClick={() => onJump(0)} className={styles.paginationButton}>
+            Back to row 1
+          </button>
+        )}
+        <form
+          className={styles.paginationJump}
+          onSubmit={(e) => {
+            e.preventDefault();
+            const row = Number(rowInput);
+            if (Number.isInteger(row) && row > 0) onJump(Math.min(row, matchingRows) - 1);
+            setRowInput("");
+          }}
+        >
+          <input
+            type="number"
+            min={1}
+            max={matchingRows}
+            value={rowInput}
+            placeholder="Row #"
+            onChange={(e) => setRowInput(e.target.value)}
+            className={styles.paginationInput}
+          />
+          <button type="submit" disabled={rowInput === ""} className={styles.paginationButton}>Go to row</button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Formats a number of bytes into a human-readable string (B, KB, MB, GB)
+ */
+function formatBytes(n: number) {
+  const units = ["B", "KB", "MB", "GB"];
+  let i = 0;
+  let x = n;
+  while (x >= 1024 && i < units.length - 1) {
+    x /= 1024;
+    i++;
+  }
+  return `${x.toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
+}
+
+/**
+ * One-line summary of the file format the preview was parsed with, and of the compression of the upload.
+ * Sessions finalized before encoding detection have no encoding report.
+ */
+function DialectSummary({
+  dialect,
+  encoding,
+  compression,
+}: {
+  dialect: CsvDialect;
+  encoding?: EncodingReport;
+  compression?: CompressionReport | null;
+}) {
+  const lineEnding = dialect.lineEnding === "\r\n" ? "CRLF" : dialect.lineEnding === "\r" ? "CR" : "LF";
+  return (
+    <div className={styles.dialectSummary}>
+      {compression && (
+        <>
+          Compressed ({compression.format}{compression.entryName ? `, ${compression.entryName}` : ""}):
+          {" "}{formatBytes(compression.compressedBytes)} • Uncompressed: {formatBytes(compression.uncompressedBytes)} •{" "}
+        </>
+      )}
+      {encoding && (
+        <>
+          Encoding: {encoding.encoding.toUpperCase()}
+          {encoding.bom ? " with BOM" : ""}
+          {encoding.transcoded ? " (converted to UTF-8)" : ""} •{" "}
+        </>
+      )}
+      Delimiter: {describeDelimiter(dialect.delimiter)} • Quote: {dialect.quote}
+      {dialect.escape === "backslash" ? " (backslash escapes)" : ""} • Header row: {dialect.hasHeader ? (dialect.headerRow ? `row ${dialect.headerRow + 1}` : "yes") : "no"} • Line endings: {lineEnding}
+    </div>
+  );
+}
+
+/**
+ * Progress of the full-file profiling pass, then the number of rows it covered
+ */
+function ProfilingStatus({
+  profile,
+  progress,
+  error,
+  previewRows,
+  onRetry,
+}: {
+  profile: DatasetProfile | null;
+  progress: number | null;
+  error: string | null;
+  previewRows: number;
+  onRetry: () => void;
+}) {
+  if (error) {
+    return (
+      <div className={styles.profilingStatus}>
+        <span>⚠️ {error}. Statistics below cover the first {previewRows} rows only.</span>
+        <div>
+          <button onClick={onRetry} className={styles.columnsToggleButton}>Retry profiling</button>
+        </div>
+      </div>
+    );
+  }
+  if (profile) {
+    return (
+      <div className={styles.profilingStatus}>
+        Statistics cover the full file: {profile.rowCount.toLocaleString()} rows
+      </div>
+    );
+  }
+  if (progress === null) return null;
+  return (
+    <div className={styles.profilingStatus}>
+      <span>Profiling the full file… {Math.floor(progress)}% (statistics below cover the first {previewRows} rows until it finishes)</span>
+      <div className={styles.profilingBar}>
+        <div className={styles.profilingBarFill} style={{width: `${progress}%`}} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Malformed rows found at finalize and left out of the preview: counts by column count,
+ * the rows themselves (loaded on demand) and the errors CSV download
+ */
+function MalformedRowsPanel({
+  summary,
+  sessionId,
+  uploadToken,
+}: {
+  summary: MalformedRowSummary;
+  sessionId: string;
+  uploadToken: string | null;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const {report, error} = useMalformedRowReport(expanded ? sessionId : null, uploadToken);
+  const byFieldCount = Object.entries(summary.byFieldCount)
+    .map(([fields, count]) => `${count.toLocaleString()} with ${fields} column(s)`)
+    .join(", ");
+
+  const download = async () => {
+    if (!uploadToken) return;
+    setDownloadError(null);
+    try {
+      await downloadMalformedRowsCsv(sessionId, uploadToken);
+    } catch (err: unknown) {
+      setDownloadError(err instanceof Error ? err.message : "Failed to download the errors file");
+    }
+  };
+
+  return (
+    <div className={styles.malformedPanel}>
+      <div className={styles.columnsHeader}>
+        <span>⚠️ Malformed rows skipped ({summary.malformedCount.toLocaleString()} of {summary.rowCount.toLocaleString()})</span>
+        <span className={styles.malformedActions}>
+          <button onClick={() => setExpanded(!expanded)} className={styles.columnsToggleButton}>
+            {expanded ? "Hide rows" : "Show rows"}
+          </button>
+          <button onClick={download} disabled={!uploadToken} className={styles.columnsToggleButton}>
+            Download errors CSV
+          </button>
+        </span>
+      </div>
+      <div className={styles.malformedSummary}>
+        These rows have a different number of columns than the header and are left out of the preview and the statistics: {byFieldCount}.
+      </div>
+      {downloadError && <div className={styles.malformedSummary}>{downloadError}</div>}
+      {expanded && error && <div className={styles.malformedSummary}>{error}</div>}
+      {expanded && !error && !report && <div className={styles.malformedSummary}>Loading rows…</div>}
+      {expanded && report && (
+        <div className={styles.profileTableContainer}>
+          {report.truncated && (
+            <div className={styles.malformedSummary}>
+              Showing the first {report.rows.length.toLocaleString()} of {report.malformedCount.toLocaleString()} rows.
+            </div>
+          )}
+          <table className={styles.profileTable}>
+            <thead>
+              <tr>
+                <th>Line</th>
+                <th>Expected</th>
+                <th>Actual</th>
+                <th>Raw text</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map((row) => (
+                <tr key={row.line}>
+                  <td>{row.line.toLocaleString()}</td>
+                  <td>{row.expectedFields}</td>
+                  <td>{row.actualFields}</td>
+                  <td className={styles.malformedRaw} title={row.raw}>{row.raw}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Schema editor: a name, a type and an include checkbox per column, as inferred at finalize until edited.
+ * Edits apply to this page at once; saving stores them as the next schema version, which exports and profiling use.
+ */
+function SchemaEditorPanel({
+  columns,
+  types,
+  rows,
+  edits,
+  schema,
+  dirty,
+  invalid,
+  saving,
+  error,
+  onChange,
+  onSave,
+  onDiscard,
+}: {
+  /** As inferred at finalize */
+  columns: ColumnHeader[];
+  types: Record<string, ColumnType>;
+  rows: Array<Record<string, string>>;
+  edits: Record<string, ColumnSchemaEdit>;
+  schema: SessionSchema;
+  dirty: boolean;
+  /** Why the edits cannot be saved, if they cannot */
+  invalid: string | null;
+  saving: boolean;
+  error: string | null;
+  onChange: (edits: Record<string, ColumnSchemaEdit>) => void;
+  onSave: () => void;
+  onDiscard: () => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const editedCount = Object.keys(schema.columns).length;
+
+  const update = (id: string, change: ColumnSchemaEdit) => onChange({...edits, [id]: {...edits[id], ...change}});
+
+  const changeType = (column: ColumnHeader, kind: string) => {
+    const inferred = types[column.id] ?? UNKNOWN_TYPE;
+    if (kind === "" || kind === inferred.kind) {
+      update(column.id, {type: undefined});
+    } else {
+      update(column.id, {type: columnTypeOfKind(kind as ColumnTypeKind, rows.map((row) => row[column.id] ?? ""))});
+    }
+  };
+
+  return (
+    <div className={styles.columnsPanel}>
+      <div className={styles.columnsHeader}>
+        <span>
+          Schema {schema.version > 0 ? `(version ${schema.version}, ${editedCount} column(s) edited)` : "(as inferred)"}
+          {dirty && " • unsaved changes"}
+        </span>
+        <button onClick={() => setExpanded(!expanded)} className={styles.columnsToggleButton}>
+          {expanded ? "Hide schema editor" : "Edit schema…"}
+        </button>
+      </div>
+      {expanded && (
+        <div className={styles.exportOptions}>
+          <div className={styles.malformedSummary}>
+            Rename, retype or exclude columns. Issues and the table update as you edit; once saved, exports and the column profile use the new schema.
           </div>
-          <div className={styles.paginationControls}>
-            <button
-              onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
-              disabled={currentPage === 1}
-              className={styles.paginationButton}
-            >
-              Previous
+          <div className={styles.profileTableContainer}>
+            <table className={styles.profileTable}>
+              <thead>
+                <tr>
+                  <th>Include</th>
+                  <th>Name</th>
+                  <th>Type</th>
+                  <th>Inferred</th>
+                </tr>
+              </thead>
+              <tbody>
+                {columns.map((c) => {
+                  const edit = edits[c.id];
+                  const inferred = types[c.id] ?? UNKNOWN_TYPE;
+                  return (
+                    <tr key={c.id} className={edit?.excluded ? styles.schemaEditorExcluded : undefined}>
+                      <td>
+                        <input type="checkbox" checked={!edit?.excluded} onChange={(e) => update(c.id, {excluded: !e.target.checked})} />
+                      </td>
+                      <td>
+                        <input
+                          value={edit?.name ?? c.name}
+                          placeholder={c.name}
+                          onChange={(e) => update(c.id, {name: e.target.value})}
+                          className={styles.schemaEditorInput}
+                        />
+                      </td>
+                      <td>
+                        <select
+                          value={edit?.type?.kind ?? ""}
+                          onChange={(e) => changeType(c, e.target.value)}
+                          className={styles.schemaEditorInput}
+                        >
+                          <option value="">As inferred</option>
+                          {TYPE_KIND_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        {edit?.type && <span className={styles.columnTagType}> {describeColumnType(edit.type)}</span>}
+                      </td>
+                      <td className={styles.columnTagType} title={originalHeaderTitle(c)}>
+                        {c.name}: {describeColumnType(inferred)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {invalid && <div className={styles.malformedSummary}>⚠️ {invalid}</div>}
+          {error && <div className={styles.malformedSummary}>⚠️ {error}</div>}
+          <div className={styles.malformedActions}>
+            <button onClick={onSave} disabled={!dirty || invalid !== null || saving} className={`${styles.exportDownload} ${styles.schemaEditorSave}`}>
+              {saving ? "Saving…" : `Save as version ${schema.version + 1}`}
             </button>
-            <span className={styles.paginationPageInfo}>
-              Page {currentPage} of {totalPages}
-            </span>
-            <button
-              onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
-              disabled={currentPage === totalPages}
-              className={styles.paginationButton}
-            >
-              Next
+            <button onClick={onDiscard} disabled={!dirty || saving} className={styles.columnsToggleButton}>
+              Discard changes
             </button>
           </div>
         </div>
@@ -185,91 +747,360 @@ export default function DataPreviewTable() {
 }
 
 /**
- * Displays a single schema issue with appropriate styling
+ * Export menu: format and columns, then a plain download link so the browser can resume a large download
+ * (the export route serves byte ranges). The link carries the upload token, as a link cannot send headers.
+ * Columns are those of the saved schema.
  */
-function SchemaIssueItem({issue}: {issue: SchemaIssue;}) {
-  const isError = issue.severity === "error";
+function ExportPanel({
+  columns,
+  schemaDirty,
+  sessionId,
+  uploadToken,
+}: {
+  columns: ColumnHeader[];
+  /** The schema has unsaved edits, which the export does not include */
+  schemaDirty: boolean;
+  sessionId: string;
+  uploadToken: string | null;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [excluded, setExcluded] = useState<Set<string>>(() => new Set());
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const selected = columns.filter((c) => !excluded.has(c.id));
+
+  const download = async () => {
+    if (!uploadToken) return;
+    setDownloadError(null);
+    setDownloading(true);
+    try {
+      const ids = excluded.size > 0 ? selected.map((c) => c.id).join(",") : undefined;
+      await downloadExport({sessionId, format, columns: ids}, uploadToken);
+    } catch (err: unknown) {
+      setDownloadError(err instanceof Error ? err.message : "Failed to download the export");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const toggleColumn = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExcluded(next);
+  };
 
   return (
-    <div className={`${styles.schemaIssueItem} ${isError ? styles.schemaIssueItemError : styles.schemaIssueItemWarning}`}>
-      <div className={`${styles.schemaIssueHeader} ${isError ? styles.schemaIssueHeaderError : styles.schemaIssueHeaderWarning}`}>
-        <span className={styles.schemaIssueIcon}>{isError ? "❌" : "⚠️"}</span>
-        <span className={styles.schemaIssueColumn}>{issue.column}</span>: {issue.message}
+    <div className={styles.columnsPanel}>
+      <div className={styles.columnsHeader}>
+        <span>Export</span>
+        <button onClick={() => setExpanded(!expanded)} className={styles.columnsToggleButton}>
+          {expanded ? "Hide export options" : "Export dataset…"}
+        </button>
       </div>
-      {issue.details && <div className={styles.schemaIssueDetails}>{issue.details}</div>}
+      {expanded && (
+        <div className={styles.exportOptions}>
+          <div className={styles.exportFormats}>
+            {EXPORT_FORMAT_OPTIONS.map((option) => (
+              <label key={option.value} className={styles.exportColumn}>
+                <input
+                  type="radio"
+                  name="export-format"
+                  checked={format === option.value}
+                  onChange={() => setFormat(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          <div className={styles.columnsList}>
+            <button
+              onClick={() => setExcluded(excluded.size > 0 ? new Set() : new Set(columns.map((c) => c.id)))}
+              className={styles.columnsToggleButton}
+            >
+              {excluded.size > 0 ? "Select all" : "Select none"}
+            </button>
+            {columns.map((c) => (
+              <label key={c.id} className={`${styles.columnTag} ${styles.exportColumn}`} title={originalHeaderTitle(c)}>
+                <input type="checkbox" checked={!excluded.has(c.id)} onChange={() => toggleColumn(c.id)} />
+                {c.name}
+              </label>
+            ))}
+          </div>
+          <div className={styles.malformedSummary}>
+            {selected.length} of {columns.length} columns, every row of the file except malformed ones. An interrupted download resumes where it stopped.
+          </div>
+          {schemaDirty && (
+            <div className={styles.malformedSummary}>⚠️ The export uses the saved schema; save your schema changes to include them.</div>
+          )}
+          <button
+            onClick={download}
+            disabled={!uploadToken || selected.length === 0 || downloading}
+            className={`${styles.exportDownload} ${styles.schemaEditorSave}`}
+          >
+            {downloading ? "Downloading…" : "Download"}
+          </button>
+          {downloadError && <div className={styles.malformedSummary}>{downloadError}</div>}
+        </div>
+      )}
     </div>
   );
 }
 
 /**
- * Table view component with sticky columns support
+ * Text of an active filter, with the column's name: `amount ≥ 10`, `city contains "york"`
  */
-function TableView({
-  visibleColumns,
+function describeFilter(filter: RowFilter, names: Map<string, string>) {
+  const name = names.get(filter.columnId) ?? filter.columnId;
+  switch (filter.operator) {
+    case "gte":
+      return `${name} ≥ ${filter.value}`;
+    case "lte":
+      return `${name} ≤ ${filter.value}`;
+    case "is":
+      return `${name} is ${filter.value}`;
+    case "contains":
+      return `${name} contains "${filter.value}"`;
+    case "equals":
+      return `${name} = "${filter.value}"`;
+  }
+}
+
+/**
+ * Input type of a range bound, so the browser offers a date picker for dates
+ */
+function boundInputType(type: ColumnType) {
+  if (type.kind === "date") return "date";
+  if (type.kind === "datetime") return "datetime-local";
+  return "number";
+}
+
+/**
+ * Row filters: the active ones as removable tags, and a form adding one for a column, shaped by its type
+ * (a range for numbers and dates, true or false for booleans, contains or equals for text).
+ * Filters apply to the whole file on the server, with the types of the saved schema.
+ */
+function RowFilterPanel({
+  columns,
   types,
-  rows,
-  stickyColumns,
+  query,
+  matchingRows,
+  fileRows,
+  schemaDirty,
+  onChange,
 }: {
-  visibleColumns: string[];
-  types: Record<string, string>;
-  rows: Array<Record<string, string>>;
-  stickyColumns: number;
+  /** Columns of the saved schema */
+  columns: ColumnHeader[];
+  types: Record<string, ColumnType>;
+  query: RowQuery;
+  matchingRows: number | null;
+  fileRows: number | null;
+  /** The schema has unsaved edits, which filters do not use */
+  schemaDirty: boolean;
+  onChange: (query: RowQuery) => void;
 }) {
-  // Determine if this is a small dataset (no sticky columns needed)
-  // For small datasets, columns should fill the table width
-  // For large datasets, use fixed widths to enable horizontal scroll
-  const isSmallDataset = visibleColumns.length <= MIN_COLUMNS_FOR_STICKY;
-
-  // Calculate minimum table width only for large datasets
-  const minTableWidth = isSmallDataset
-    ? undefined
-    : stickyColumns > 0
-      ? stickyColumns * 150 + (visibleColumns.length - stickyColumns) * 120
-      : visibleColumns.length * 120;
+  const [expanded, setExpanded] = useState(false);
+  const [columnId, setColumnId] = useState("");
+  const [textOperator, setTextOperator] = useState<"contains" | "equals">("contains");
+  const [min, setMin] = useState("");
+  const [max, setMax] = useState("");
+  const [text, setText] = useState("");
+  const [flag, setFlag] = useState<"true" | "false">("true");
+  const [formError, setFormError] = useState<string | null>(null);
 
-  return (
-    <div className={styles.tablePanel}>
-      <div className={styles.tableHeader}>Rows (preview)</div>
+  const names = new Map(columns.map((c) => [c.id, c.name]));
+  const column = columns.find((c) => c.id === columnId) ?? columns[0];
+  const type = column ? types[column.id] ?? UNKNOWN_TYPE : UNKNOWN_TYPE;
+  const operators = filterOperatorsOf(type);
 
-      <div className={`${styles.tableContainer} ${isSmallDataset ? styles.tableContainerSmall : ""}`}>
-        <table
-          className={`${styles.table} ${isSmallDataset ? styles.tableSmall : styles.tableLarge}`}
-          style={!isSmallDataset && minTableWidth ? {minWidth: `${Math.max(minTableWidth, 800)}px`} : undefined}
+  const selectColumn = (id: string) => {
+    setColumnId(id);
+    setMin("");
+    setMax("");
+    setText("");
+    setFormError(null);
+  };
+
+  const addFilter = () => {
+    if (!column) return;
+    const added: RowFilter[] = [];
+    if (operators.includes("gte")) {
+      if (min.trim()) added.push({columnId: column.id, operator: "gte", value: min.trim()});
+      if (max.trim()) added.push({columnId: column.id, operator: "lte", value: max.trim()});
+      if (added.some((f) => parseFilterBound(f.value, type) === null)) {
+        setFormError(type.kind === "date" || type.kind === "datetime" ? "Enter a valid date" : "Enter a number");
+        return;
+      }
+    } else if (operators.includes("is")) {
+      added.push({columnId: column.id, operator: "is", value: flag});
+    } else if (text.trim()) {
+      added.push({columnId: column.id, operator: textOperator, value: text});
+    }
+    if (added.length === 0) {
+      setFormError("Enter a value to filter by");
+      return;
+    }
+    // A condition replaces the one with the same column and operator
+    const kept = query.filters.filter((f) => !added.some((a) => a.columnId === f.columnId && a.operator === f.operator));
+    onChange({...query, filters: [...kept, ...added]});
+    selectColumn(column.id);
+  };
+
+  return (
+    <div className={styles.columnsPanel}>
+      <div className={styles.columnsHeader}>
+        <span>
+          Filters{query.filters.length > 0 && ` (${query.filters.length})`}
+          {query.filters.length > 0 && matchingRows !== null && fileRows !== null && (
+            <span className={styles.columnTagType}> • {matchingRows.toLocaleString()} of {fileRows.toLocaleString()} rows match</span>
+          )}
+        </span>
+        <button onClick={() => setExpanded(!expanded)} className={styles.columnsToggleButton}>
+          {expanded ? "Hide filter options" : "Add filter…"}
+        </button>
+      </div>
+      {query.filters.length > 0 && (
+        <div className={styles.columnsList}>
+          {query.filters.map((f, idx) => (
+            <span key={`${f.columnId}:${f.operator}`} className={styles.columnTag}>
+              {describeFilter(f, names)}
+              <button
+                onClick={() => onChange({...query, filters: query.filters.filter((_, i) => i !== idx)})}
+                aria-label={`Remove filter ${describeFilter(f, names)}`}
+                className={styles.filterRemove}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+          <button onClick={() => onChange({...query, filters: []})} className={styles.columnsToggleButton}>
+            Clear filters
+          </button>
+        </div>
+      )}
+      {expanded && column && (
+        <form
+          className={styles.exportOptions}
+          onSubmit={(e) => {
+            e.preventDefault();
+            addFilter();
+          }}
         >
+          <div className={styles.filterForm}>
+            <select value={column.id} onChange={(e) => selectColumn(e.target.value)} className={styles.schemaEditorInput}>
+              {columns.map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            {operators.includes("gte") && (
+              <>
+                <input
+                  type={boundInputType(type)}
+                  step="any"
+                  value={min}
+                  placeholder="From"
+                  aria-label="From"
+                  onChange={(e) => setMin(e.target.value)}
+                  className={styles.schemaEditorInput}
+                />
+                <span>to</span>
+                <input
+                  type={boundInputType(type)}
+                  step="any"
+                  value={max}
+                  placeholder="To"
+                  aria-label="To"
+                  onChange={(e) => setMax(e.target.value)}
+                  className={styles.schemaEditorInput}
+                />
+              </>
+            )}
+            {type.kind === "boolean" && (
+              <select value={flag} onChange={(e) => setFlag(e.target.value as "true" | "false")} className={styles.schemaEditorInput}>
+                <option value="true">is true ({type.trueValue})</option>
+                <option value="false">is false ({type.falseValue})</option>
+              </select>
+            )}
+            {operators.includes("contains") && (
+              <>
+                <select
+                  value={textOperator}
+                  onChange={(e) => setTextOperator(e.target.value as "contains" | "equals")}
+                  className={styles.schemaEditorInput}
+                >
+                  <option value="contains">contains</option>
+                  <option value="equals">equals</option>
+                </select>
+                <input
+                  value={text}
+                  placeholder="Text"
+                  aria-label="Text"
+                  list={type.kind === "categorical" ? "row-filter-categories" : undefined}
+                  onChange={(e) => setText(e.target.value)}
+                  className={styles.schemaEditorInput}
+                />
+                {type.kind === "categorical" && (
+                  <datalist id="row-filter-categories">
+                    {type.categories.map((value) => (
+                      <option key={value} value={value} />
+                    ))}
+                  </datalist>
+                )}
+              </>
+            )}
+            <button type="submit" className={`${styles.exportDownload} ${styles.schemaEditorSave}`}>
+              Add filter
+            </button>
+          </div>
+          <div className={styles.malformedSummary}>
+            Filters, and sorting by a column header, apply to every row of the file. Text matching ignores case; empty cells and values that do not match the column type are left out of ranges.
+          </div>
+          {formError && <div className={styles.malformedSummary}>⚠️ {formError}</div>}
+          {schemaDirty && (
+            <div className={styles.malformedSummary}>⚠️ Filters and sorting use the saved schema; save your schema changes to use their types.</div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Formats a profile number for display, with at most two decimals
+ */
+function formatStat(value: number) {
+  return value.toLocaleString(undefined, {maximumFractionDigits: 2});
+}
+
+/**
+ * Full-file statistics of the visible columns
+ */
+function ColumnProfilePanel({profile, visibleColumns}: {profile: DatasetProfile; visibleColumns: ColumnHeader[];}) {
+  const names = new Map(visibleColumns.map((c) => [c.id, c.name]));
+  const columns = profile.columns.filter((c) => names.has(c.id));
+
+  return (
+    <div className={styles.columnsPanel}>
+      <div className={styles.columnsHeader}>
+        <span>Column profile ({profile.rowCount.toLocaleString()} rows)</span>
+      </div>
+      <div className={styles.profileTableContainer}>
+        <table className={styles.profileTable}>
           <thead>
             <tr>
-              {visibleColumns.map((c, idx) => {
-                const isSticky = stickyColumns > 0 && idx < stickyColumns;
-                return (
-                  <th
-                    key={c}
-                    className={`${styles.tableHeaderCell} ${isSticky ? styles.tableHeaderCellSticky : ""} ${isSmallDataset ? styles.tableHeaderCellSmall : isSticky ? styles.tableHeaderCellLarge : styles.tableHeaderCellLargeNotSticky}`}
-                  >
-                    {c}
-                    <span className={styles.tableHeaderType}>
-                      ({types[c] ?? "unknown"})
-                    </span>
-                  </th>
-                );
-              })}
+              <th>Column</th>
+              <th>Nulls</th>
+              <th>Distinct</th>
+              <th>Min</th>
+              <th>Max</th>
+              <th>Mean</th>
+              <th>Top values</th>
+              <th>Distribution</th>
             </tr>
           </thead>
           <tbody>
-            {rows.map((r, rowIdx) => (
-              <tr key={rowIdx}>
-                {visibleColumns.map((c, colIdx) => {
-                  const isSticky = stickyColumns > 0 && colIdx < stickyColumns;
-                  return (
-                    <td
-                      key={c}
-                      className={`${styles.tableCell} ${isSticky ? styles.tableCellSticky : ""} ${isSmallDataset ? styles.tableCellSmall : isSticky ? styles.tableCellLarge : styles.tableCellLargeNotSticky}`}
-                    >
-                      {String(r[c] ?? "")}
-                    </td>
-                  );
-                })}
-              </tr>
-            ))}
+            {columns.map((c) => <ColumnProfileRow key={c.id} column={c} name={names.get(c.id)!} />)}
           </tbody>
         </table>
       </div>
@@ -277,3 +1108,109 @@ function TableView({
   );
 }
 
+/**
+ * One row of the column profile, under the column's current name; approximate figures are marked with "~"
+ */
+function ColumnProfileRow({column, name}: {column: ColumnProfile; name: string;}) {
+  const nullPercentage = column.rowCount > 0 ? (column.nullCount / column.rowCount) * 100 : 0;
+  const approx = column.topValuesExact ? "" : "~";
+  // Values seen once say nothing about the column (e.g. ids)
+  const topValues = column.topValues.filter((v) => v.count > 1).slice(0, 3);
+  return (
+    <tr>
+      <td>
+        <b>{name}</b> <span className={styles.columnTagType}>({describeColumnType(column.type)})</span>
+      </td>
+      <td>{column.nullCount.toLocaleString()} ({formatStat(nullPercentage)}%)</td>
+      <td>{column.distinctExact ? "" : "~"}{column.distinctCount.toLocaleString()}</td>
+      <td className={styles.profileValue} title={column.min ?? undefined}>{column.min ?? "—"}</td>
+      <td className={styles.profileValue} title={column.max ?? undefined}>{column.max ?? "—"}</td>
+      <td>{column.mean === null ? "—" : formatStat(column.mean)}</td>
+      <td className={styles.profileValue}>
+        {topValues.map((v) => `${v.value} (${approx}${v.count.toLocaleString()})`).join(", ") || "—"}
+      </td>
+      <td>{column.histogram ? <Histogram bins={column.histogram} /> : "—"}</td>
+    </tr>
+  );
+}
+
+/**
+ * Bar sparkline of a numeric histogram; each bar's tooltip gives its range and count
+ */
+function Histogram({bins}: {bins: HistogramBin[];}) {
+  const highest = Math.max(...bins.map((b) => b.count), 1);
+  return (
+    <div className={styles.histogram}>
+      {bins.map((b, i) => (
+        <div
+          key={i}
+          className={styles.histogramBar}
+          style={{height: `${Math.max(4, (b.count / highest) * 100)}%`}}
+          title={`${formatStat(b.start)} – ${formatStat(b.end)}: ${b.count.toLocaleString()}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Shows whether the assembled file matches the SHA-256 computed in the browser before upload
+ */
+function IntegrityBadge({integrity}: {integrity: IntegrityResult;}) {
+  const label = integrity.verified
+    ? "Verified: the uploaded data is byte-for-byte identical to the file you selected"
+    : integrity.expectedSha256
+      ? "Integrity check failed: the uploaded data does not match the file you selected"
+      : "Not verified: no checksum was provided for this upload";
+
+  return (
+    <div className={`${styles.integrityBadge} ${integrity.verified ? styles.integrityBadgeVerified : styles.integrityBadgeUnverified}`}>
+      <span>{integrity.verified ? "✓" : "⚠️"} {label}</span>
+      <span className={styles.integrityHash} title={integrity.sha256}>SHA-256 {integrity.sha256.slice(0, 12)}…</span>
+    </div>
+  );
+}
+
+/**
+ * Shows how the file fared against its schema contract. A file with contract errors is rejected at finalize,
+ * so only warnings can be listed here.
+ */
+function ContractPanel({result}: {result: ContractCheckResult;}) {
+  return (
+    <div className={styles.schemaIssuesPanel}>
+      <div className={styles.schemaIssuesHeader}>
+        <span>{result.issues.length > 0 ? "⚠️" : "✓"}</span>
+        <span>
+          {result.issues.length > 0
+            ? `Schema contract "${result.contractName}": ${result.issues.length} warning(s)`
+            : `The file meets the schema contract "${result.contractName}"`}
+        </span>
+        <span className={styles.schemaIssuesScope}>full file, {result.rowCount.toLocaleString()} rows</span>
+      </div>
+      {result.issues.length > 0 && (
+        <div className={styles.schemaIssuesList}>
+          {result.issues.map((issue, idx) => (
+            <SchemaIssueItem key={idx} issue={issue} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Displays a single schema issue with appropriate styling
+ */
+function SchemaIssueItem({issue}: {issue: SchemaIssue;}) {
+  const isError = issue.severity === "error";
+
+  return (
+    <div className={`${styles.schemaIssueItem} ${isError ? styles.schemaIssueItemError : styles.schemaIssueItemWarning}`}>
+      <div className={`${styles.schemaIssueHeader} ${isError ? styles.schemaIssueHeaderError : styles.schemaIssueHeaderWarning}`}>
+        <span className={styles.schemaIssueIcon}>{isError ? "❌" : "⚠️"}</span>
+        <span className={styles.schemaIssueColumn}>{issue.column}</span>: {issue.message}
+      </div>
+      {issue.details && <div className={styles.schemaIssueDetails}>{issue.details}</div>}
+    </div>
+  );
+}
@@ -1,9 +1,24 @@
 "use client";
 
 import {useRouter} from "next/navigation";
-import {useCallback, useMemo, useRef, useState} from "react";
+import {useCallback, useEffect, useMemo, useRef, useState} from "react";
 import {useChunkedUpload} from "@/hooks/useChunkedUpload";
-import {validateCsvFile, type ValidationResult} from "@/lib/csv";
+import {useSchemaContracts} from "@/hooks/useSchemaContracts";
+import type {ValidationResult} from "@/lib/csv";
+import {validateCsvFileInWorker} from "@/lib/csv-validation";
+import {DELIMITER_OPTIONS, QUOTE_OPTIONS} from "@/lib/csv-dialect";
+import {MAX_HEADER_ROW} from "@/lib/headers";
+import {downloadMalformedRowsCsv} from "@/lib/malformed-rows-download";
+import {rememberPreviewToken} from "@/lib/preview-token";
+import type {
+  ColumnHeader,
+  ColumnRenames,
+  ContractCheckResult,
+  CsvDialect,
+  MalformedRow,
+  MalformedRowPolicy,
+  SchemaContract,
+} from "@/lib/types";
 import styles from "./UploadWizard.module.css";
 
 type UploadPhase = "select" | "validate" | "upload" | "finalize" | "ready";
@@ -61,6 +76,267 @@ function PhaseIndicator({phase, index, isActive, isCompleted, isLast, getPhaseLa
   );
 }
 
+interface DialectPanelProps {
+  dialect: CsvDialect;
+  /** First records of the file, offered as header row candidates */
+  sampleRecords: string[][];
+  disabled: boolean;
+  onChange: (dialect: CsvDialect) => void;
+}
+
+/**
+ * Value of the header row select meaning "the file has no header row"
+ */
+const NO_HEADER_ROW = -1;
+
+/**
+ * Longest excerpt of a record shown in the header row select
+ */
+const RECORD_EXCERPT_LENGTH = 60;
+
+/**
+ * Shortens a record to one line for the header row select.
+ */
+function recordExcerpt(record: string[]): string {
+  const text = record.join(", ");
+  return text.length > RECORD_EXCERPT_LENGTH ? `${text.slice(0, RECORD_EXCERPT_LENGTH)}…` : text;
+}
+
+/**
+ * Shows the detected file format (delimiter, quote character, header row) and lets the user correct it.
+ * Any of the first rows can be promoted to header; the rows above it are then skipped.
+ * Changing a value re-validates the file with the new format.
+ */
+function DialectPanel({dialect, sampleRecords, disabled, onChange}: DialectPanelProps) {
+  const headerRow = dialect.hasHeader ? dialect.headerRow ?? 0 : NO_HEADER_ROW;
+  const candidates = sampleRecords.slice(0, MAX_HEADER_ROW);
+  return (
+    <div className={styles.dialectPanel}>
+      <label className={styles.dialectField}>
+        Delimiter
+        <select
+          value={dialect.delimiter}
+          disabled={disabled}
+          onChange={(e) => onChange({...dialect, delimiter: e.target.value})}
+          className={styles.dialectSelect}
+        >
+          {DELIMITER_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className={styles.dialectField}>
+        Quote
+        <select
+          value={dialect.quote}
+          disabled={disabled}
+          onChange={(e) => onChange({...dialect, quote: e.target.value})}
+          className={styles.dialectSelect}
+        >
+          {QUOTE_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className={styles.dialectField}>
+        Header row
+        <select
+          value={headerRow}
+          disabled={disabled}
+          onChange={(e) => {
+            const row = Number(e.target.value);
+            onChange({...dialect, hasHeader: row !== NO_HEADER_ROW, headerRow: Math.max(row, 0)});
+          }}
+          className={styles.dialectSelect}
+        >
+          <option value={NO_HEADER_ROW}>No header row</option>
+          {candidates.map((record, i) => (
+            <option key={i} value={i}>Row {i + 1}: {recordExcerpt(record)}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
+
+interface HeaderPanelProps {
+  columns: ColumnHeader[];
+  renames: ColumnRenames;
+  disabled: boolean;
+  onRename: (columnId: string, name: string) => void;
+  /** Called when a name field loses focus, e.g. to check the contract with the new names */
+  onRenameDone: () => void;
+}
+
+/**
+ * Lists the columns found in the header with an editable name each.
+ * Blank names fall back to the header text; the server keeps names unique.
+ */
+function HeaderPanel({columns, renames, disabled, onRename, onRenameDone}: HeaderPanelProps) {
+  return (
+    <div className={styles.headerPanel}>
+      <div className={styles.headerPanelTitle}>Column names</div>
+      <div className={styles.headerPanelList}>
+        {columns.map((c) => (
+          <label key={c.id} className={styles.headerField} title={c.original ? `Header in the file: "${c.original}"` : undefined}>
+            <span className={styles.headerFieldPosition}>{c.index + 1}</span>
+            <input
+              type="text"
+              value={renames[c.id] ?? c.name}
+              placeholder={c.name}
+              disabled={disabled}
+              onChange={(e) => onRename(c.id, e.target.value)}
+              onBlur={onRenameDone}
+              className={styles.headerInput}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Choices for what finalize does with malformed rows
+ */
+const MALFORMED_ROW_POLICY_OPTIONS: {value: MalformedRowPolicy; label: string}[] = [
+  {value: "skip", label: "Skip bad rows"},
+  {value: "fail", label: "Fail the upload"},
+];
+
+interface MalformedRowsPanelProps {
+  /** Malformed rows in the whole file */
+  count: number;
+  /** The first of them, as listed by validation */
+  rows: MalformedRow[];
+  policy: MalformedRowPolicy;
+  disabled: boolean;
+  onPolicyChange: (policy: MalformedRowPolicy) => void;
+  /** Offered once finalize has stored the full report, i.e. after the "fail" policy stopped the upload */
+  onDownload?: () => void;
+  downloadError: string | null;
+}
+
+/**
+ * Warns about rows whose column count differs from the header's, lists the first ones by line,
+ * and lets the user choose whether finalize skips them or fails.
+ */
+function MalformedRowsPanel({count, rows, policy, disabled, onPolicyChange, onDownload, downloadError}: MalformedRowsPanelProps) {
+  return (
+    <div className={styles.malformedPanel}>
+      <div className={styles.malformedTitle}>
+        {count.toLocaleString()} row(s) have a different number of columns than the header
+      </div>
+      <ul className={styles.malformedList}>
+        {rows.map((row) => (
+          <li key={row.line}>
+            Line {row.line.toLocaleString()}: {row.actualFields} of {row.expectedFields} columns
+            {" "}
+            <code className={styles.malformedRaw}>{recordExcerpt([row.raw])}</code>
+          </li>
+        ))}
+        {count > rows.length && <li>…and {(count - rows.length).toLocaleString()} more</li>}
+      </ul>
+      <div className={styles.malformedActions}>
+        <label className={styles.dialectField}>
+          Bad rows
+          <select
+            value={policy}
+            disabled={disabled}
+            onChange={(e) => onPolicyChange(e.target.value as MalformedRowPolicy)}
+            className={styles.dialectSelect}
+          >
+            {MALFORMED_ROW_POLICY_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+        </label>
+        {onDownload && (
+          <button onClick={onDownload} className={`${styles.button} ${styles.buttonTertiary}`}>
+            Download errors CSV
+          </button>
+        )}
+      </div>
+      {downloadError && <div className={styles.statusError}>{downloadError}</div>}
+    </div>
+  );
+}
+
+interface ContractPanelProps {
+  contracts: SchemaContract[];
+  contractId: string;
+  /** Why the contracts could not be loaded */
+  error: string | null;
+  disabled: boolean;
+  onChange: (contractId: string) => void;
+}
+
+/**
+ * Lets the user pick the schema contract the file is checked against, or none.
+ */
+function ContractPanel({contracts, contractId, error, disabled, onChange}: ContractPanelProps) {
+  const selected = contracts.find((c) => c.id === contractId);
+  return (
+    <div className={styles.contractPanel}>
+      <label className={styles.dialectField}>
+        Schema contract
+        <select value={contractId} disabled={disabled} onChange={(e) => onChange(e.target.value)} className={styles.dialectSelect}>
+          <option value="">None</option>
+          {contracts.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+      </label>
+      {selected?.description && <div className={styles.contractDescription}>{selected.description}</div>}
+      {error && <div className={styles.statusError}>{error}</div>}
+    </div>
+  );
+}
+
+interface ContractIssuesPanelProps {
+  result: ContractCheckResult;
+  /** Issues found by finalize over the whole file, rather than by validation in the browser */
+  fromServer: boolean;
+}
+
+/**
+ * Lists the schema contract violations, errors first. Errors make finalize reject the file;
+ * before upload they are a forecast, since renamed columns are only matched at finalize.
+ */
+function ContractIssuesPanel({result, fromServer}: ContractIssuesPanelProps) {
+  const errors = result.issues.filter((issue) => issue.severity === "error");
+  const warnings = result.issues.filter((issue) => issue.severity === "warning");
+  if (result.issues.length === 0) {
+    return (
+      <div className={`${styles.contractIssues} ${styles.contractIssuesMet}`}>
+        ✓ The file meets the schema contract &quot;{result.contractName}&quot; ({result.rowCount.toLocaleString()} rows checked)
+      </div>
+    );
+  }
+  return (
+    <div className={`${styles.contractIssues} ${result.blocked ? "" : styles.contractIssuesMet}`}>
+      <div className={styles.malformedTitle}>
+        Schema contract &quot;{result.contractName}&quot;: {errors.length} error(s), {warnings.length} warning(s)
+      </div>
+      <ul className={styles.malformedList}>
+        {[...errors, ...warnings].map((issue, idx) => (
+          <li key={idx}>
+            {issue.severity === "error" ? "✕" : "⚠️"} <b>{issue.column}</b>: {issue.message}
+            {issue.details && <div className={styles.contractIssueDetails}>{issue.details}</div>}
+          </li>
+        ))}
+      </ul>
+      {result.blocked && (
+        <div>
+          {fromServer
+            ? "The upload was rejected. Fix the file, or rename its columns and start the upload again."
+            : "Finalize will reject the file unless these errors are fixed (renamed columns are checked again then)."}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /**
  * Formats a number of bytes into a human-readable string (B, KB, MB, GB).
  * @param n - The number of bytes to format
@@ -168,6 +444,14 @@ function getErrorMessage(error: string | null, validationError: string | null):
     return `Upload failed with error code ${statusCode}. Please try again.`;
   }
 
+  if (error.includes("File checksum mismatch")) {
+    return "The uploaded file does not match the file you selected. Please reset and upload it again.";
+  }
+
+  if (error.includes("wrong number of fields")) {
+    return `${error}. Download the errors CSV to see them, or choose "Skip bad rows" and click Retry.`;
+  }
+
   if (error.includes("chunk")) {
     return "Some parts of your file failed to upload. Click 'Retry' to try again, or contact support if the problem continues.";
   }
@@ -194,7 +478,15 @@ export default function UploadWizard() {
   const [file, setFile] = useState<File | null>(null);
   const [isValidating, setIsValidating] = useState(false);
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
+  const [validationProgress, setValidationProgress] = useState(0);
+  const [columnRenames, setColumnRenames] = useState<ColumnRenames>({});
+  const [malformedRowPolicy, setMalformedRowPolicy] = useState<MalformedRowPolicy>("skip");
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const [contractId, setContractId] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const validationAbortRef = useRef<AbortController | null>(null);
+  // The renames the shown contract check was run with
+  const checkedRenamesRef = useRef<ColumnRenames | undefined>(undefined);
 
   const {
     status,
@@ -204,11 +496,22 @@ export default function UploadWizard() {
     cancel,
     reset,
     sessionId,
+    uploadToken,
     failedChunks,
+    malformedRows,
+    contractViolations,
   } = useChunkedUpload();
+  const {contracts, error: contractsError} = useSchemaContracts();
 
   const phase = getPhaseFromStatus(status, isValidating);
 
+  /**
+   * Stops a running validation worker when the wizard unmounts.
+   */
+  useEffect(() => {
+    return () => validationAbortRef.current?.abort();
+  }, []);
+
   /**
    * Determines if the upload can be started based on file selection and validation state.
    */
@@ -225,10 +528,26 @@ export default function UploadWizard() {
 
   /**
    * Determines if a retry operation is available after a failed upload.
+   * A file rejected by its schema contract would be rejected again, so it has to be uploaded anew.
    */
   const canRetry = useMemo(() => {
-    return status === "error" && file !== null && sessionId !== null;
-  }, [status, file, sessionId]);
+    return status === "error" && file !== null && sessionId !== null && !contractViolations;
+  }, [status, file, sessionId, contractViolations]);
+
+  /**
+   * Whether the format and column names can still be changed: before a session exists,
+   * or after the schema contract rejected one, when the next upload starts a new session.
+   */
+  const canEditSettings = useMemo(() => {
+    return !isBusy && (sessionId === null || contractViolations !== null);
+  }, [isBusy, sessionId, contractViolations]);
+
+  /**
+   * The contract chosen in the contract panel, once the contracts are loaded.
+   */
+  const selectedContract = useMemo(() => {
+    return contracts.find((c) => c.id === contractId);
+  }, [contracts, contractId]);
 
   /**
    * Computes the user-friendly error message to display, prioritizing validation errors.
@@ -238,14 +557,19 @@ export default function UploadWizard() {
   }, [error, validationResult?.error]);
 
   /**
-   * Formats file information including name, size, and validation details (columns, rows).
+   * Formats file information including name, size (and uncompressed size for .gz and .zip files),
+   * and validation details (columns, rows).
    */
   const fileInfo = useMemo(() => {
     if (!file) return null;
+    const compression = validationResult?.compression;
+    const compressionInfo = compression
+      ? ` (${compression.format}, ${formatBytes(compression.uncompressedBytes)} uncompressed)`
+      : "";
     const validationInfo = validationResult?.valid
       ? ` • ${validationResult.columns?.length ?? 0} columns, ${validationResult.rowCount?.toLocaleString() ?? 0} rows`
       : "";
-    return `${file.name} • ${formatBytes(file.size)}${validationInfo}`;
+    return `${file.name} • ${formatBytes(file.size)}${compressionInfo}${validationInfo}`;
   }, [file, validationResult]);
 
   /**
@@ -273,6 +597,52 @@ export default function UploadWizard() {
     return `${styles.fileButton} ${isBusy ? styles.fileButtonDisabled : styles.fileButtonEnabled}`;
   }, [isBusy]);
 
+  /**
+   * The column names to send: names left blank or unchanged are not sent, and the server names those columns from the header.
+   */
+  const effectiveRenames = useMemo((): ColumnRenames | undefined => {
+    const renames = Object.fromEntries(
+      (validationResult?.columns ?? [])
+        .filter((c) => columnRenames[c.id] !== undefined && columnRenames[c.id]!.trim() !== "" && columnRenames[c.id] !== c.name)
+        .map((c) => [c.id, columnRenames[c.id]!.trim()])
+    );
+    return Object.keys(renames).length > 0 ? renames : undefined;
+  }, [validationResult?.columns, columnRenames]);
+
+  /**
+   * Validates a file in a Web Worker, reporting progress, and stores the result.
+   * The file is checked against the schema contract, when one is chosen, with the column renames applied as finalize does.
+   * Any validation still running is aborted first; an aborted validation leaves the state to whoever aborted it.
+   */
+  const runValidation = useCallback(async (selectedFile: File, dialect?: CsvDialect, contract?: SchemaContract, renames?: ColumnRenames) => {
+    validationAbortRef.current?.abort();
+    const abort = new AbortController();
+    validationAbortRef.current = abort;
+    checkedRenamesRef.current = renames;
+    setIsValidating(true);
+    setValidationProgress(0);
+    try {
+      const result = await validateCsvFileInWorker(selectedFile, dialect, {
+        contract,
+        columnRenames: renames,
+        onProgress: (bytesRead, totalBytes) => setValidationProgress(totalBytes > 0 ? bytesRead / totalBytes : 1),
+        signal: abort.signal,
+      });
+      setValidationResult(result);
+    } catch (err: unknown) {
+      if (abort.signal.aborted) return;
+      setValidationResult({
+        valid: false,
+        error: err instanceof Error ? err.message : "An unexpected error occurred during validation.",
+      });
+    } finally {
+      if (validationAbortRef.current === abort) {
+        validationAbortRef.current = null;
+        setIsValidating(false);
+      }
+    }
+  }, []);
+
   /**
    * Handles file selection from the input element.
    * Resets the upload state, validates the selected file, and updates the component state.
@@ -282,68 +652,135 @@ export default function UploadWizard() {
     reset();
     setFile(selectedFile);
     setValidationResult(null);
+    setColumnRenames({});
+    setDownloadError(null);
 
     if (!selectedFile) {
       return;
     }
 
-    setIsValidating(true);
-    try {
-      const result = await validateCsvFile(selectedFile);
-      setValidationResult(result);
-    } catch (err: unknown) {
-      setValidationResult({
-        valid: false,
-        error: err instanceof Error ? err.message : "An unexpected error occurred during validation.",
-      });
-    } finally {
-      setIsValidating(false);
-    }
-  }, [reset]);
+    await runValidation(selectedFile, undefined, selectedContract);
+  }, [reset, runValidation, selectedContract]);
+
+  /**
+   * Re-validates the selected file with a format chosen by the user instead of the detected one.
+   */
+  const handleDialectChange = useCallback(async (dialect: CsvDialect) => {
+    if (!file) return;
+    // Columns may change with the format, so names typed for the previous ones no longer apply
+    setColumnRenames({});
+    await runValidation(file, dialect, selectedContract);
+  }, [file, runValidation, selectedContract]);
 
   /**
-   * Initiates the chunked upload process for the selected and validated file.
+   * Switches to another schema contract (or none) and checks the selected file against it.
+   * The format already shown is kept, so only the contract check changes.
+   */
+  const handleContractChange = useCallback(async (id: string) => {
+    setContractId(id);
+    if (!file) return;
+    await runValidation(file, validationResult?.dialect, contracts.find((c) => c.id === id), effectiveRenames);
+  }, [file, validationResult?.dialect, contracts, effectiveRenames, runValidation]);
+
+  /**
+   * Records a column name typed in the header panel, by column id.
+   */
+  const handleRename = useCallback((columnId: string, name: string) => {
+    setColumnRenames((prev) => ({...prev, [columnId]: name}));
+  }, []);
+
+  /**
+   * Checks the contract again once the user leaves a name field, when the names differ from those last checked.
+   */
+  const handleRenameDone = useCallback(async () => {
+    if (!file || !selectedContract || !validationResult?.valid) return;
+    if (JSON.stringify(effectiveRenames) === JSON.stringify(checkedRenamesRef.current)) return;
+    await runValidation(file, validationResult.dialect, selectedContract, effectiveRenames);
+  }, [file, selectedContract, validationResult, effectiveRenames, runValidation]);
+
+  /**
+   * Initiates the chunked upload process for the selected and validated file,
+   * with the format shown in the dialect panel and the column names edited in the header panel.
    */
   const handleStart = useCallback(async () => {
     if (!file || !validationResult?.valid) return;
-    await start(file);
-  }, [file, validationResult?.valid, start]);
+    await start(file, undefined, {
+      dialect: validationResult.dialect,
+      columnRenames: effectiveRenames,
+      contractId: selectedContract?.id,
+      malformedRowPolicy,
+      sha256: validationResult.sha256,
+    });
+  }, [file, validationResult, effectiveRenames, selectedContract, malformedRowPolicy, start]);
 
   /**
-   * Retries the upload process using the existing session ID to resume from where it failed.
+   * Retries the upload process using the existing session ID to resume from where it failed,
+   * finalizing with the malformed row policy currently selected.
    */
   const handleRetry = useCallback(async () => {
     if (!file || !sessionId) return;
-    await start(file, sessionId);
-  }, [file, sessionId, start]);
+    await start(file, sessionId, {malformedRowPolicy, sha256: validationResult?.sha256});
+  }, [file, sessionId, malformedRowPolicy, validationResult?.sha256, start]);
+
+  /**
+   * Downloads the errors CSV stored by finalize for the current session.
+   */
+  const handleDownloadErrors = useCallback(async () => {
+    if (!sessionId || !uploadToken) return;
+    setDownloadError(null);
+    try {
+      await downloadMalformedRowsCsv(sessionId, uploadToken);
+    } catch (err: unknown) {
+      setDownloadError(err instanceof Error ? err.message : "Failed to download the errors file");
+    }
+  }, [sessionId, uploadToken]);
 
   /**
    * Resets the wizard to its initial state, clearing file selection, validation results,
    * and upload state. Also clears the file input element.
    */
   const handleReset = useCallback(() => {
+    validationAbortRef.current?.abort();
+    validationAbortRef.current = null;
+    setIsValidating(false);
     reset();
     setFile(null);
     setValidationResult(null);
+    setColumnRenames({});
+    setDownloadError(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   }, [reset]);
 
   /**
-   * Cancels the ongoing upload operation.
+   * Cancels the ongoing validation, or else the ongoing upload operation.
+   * A canceled validation clears the file selection so the same file can be chosen again.
    */
   const handleCancel = useCallback(() => {
-    cancel();
+    if (!validationAbortRef.current) {
+      cancel();
+      return;
+    }
+    validationAbortRef.current.abort();
+    validationAbortRef.current = null;
+    setIsValidating(false);
+    setFile(null);
+    setValidationResult({valid: false, error: "Validation was canceled. Choose a file to validate it again."});
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
   }, [cancel]);
 
   /**
-   * Navigates to the preview page with the current session ID.
+   * Navigates to the preview page with the current session ID; its upload token goes through sessionStorage,
+   * not the URL.
    */
   const handleViewPreview = useCallback(() => {
-    if (!sessionId) return;
+    if (!sessionId || !uploadToken) return;
+    rememberPreviewToken(sessionId, uploadToken);
     router.push(`/preview?sessionId=${encodeURIComponent(sessionId)}`);
-  }, [sessionId, router]);
+  }, [sessionId, uploadToken, router]);
 
   return (
     <div className={styles.wizard}>
@@ -379,7 +816,7 @@ export default function UploadWizard() {
             {file ? "Change File" : "Choose File"}
             <input
               type="file"
-              accept=".csv,text/csv"
+              accept=".csv,.tsv,.txt,.gz,.zip,text/csv,text/tab-separated-values,application/gzip,application/zip"
               disabled={isBusy}
               ref={fileInputRef}
               onChange={handleFileChange}
@@ -389,9 +826,49 @@ export default function UploadWizard() {
           {fileInfo ? (
             <div className={styles.fileInfo}>{fileInfo}</div>
           ) : (
-            <div className={styles.fileHint}>Choose a CSV file (up to 2GB).</div>
+            <div className={styles.fileHint}>Choose a CSV file (up to 2GB), or a .csv.gz or single-file .zip of one.</div>
           )}
         </div>
+        <ContractPanel
+          contracts={contracts}
+          contractId={contractId}
+          error={contractsError}
+          disabled={!canEditSettings}
+          onChange={handleContractChange}
+        />
+        {validationResult?.dialect && (
+          <DialectPanel
+            dialect={validationResult.dialect}
+            sampleRecords={validationResult.sampleRecords ?? []}
+            disabled={!canEditSettings}
+            onChange={handleDialectChange}
+          />
+        )}
+        {validationResult?.valid && !!validationResult.mismatchedRowCount && (
+          <MalformedRowsPanel
+            count={validationResult.mismatchedRowCount}
+            rows={validationResult.malformedRows ?? []}
+            policy={malformedRowPolicy}
+            disabled={isBusy}
+            onPolicyChange={setMalformedRowPolicy}
+            onDownload={malformedRows ? handleDownloadErrors : undefined}
+            downloadError={downloadError}
+          />
+        )}
+        {contractViolations ? (
+          <ContractIssuesPanel result={contractViolations} fromServer />
+        ) : validationResult?.valid && validationResult.contract && (
+          <ContractIssuesPanel result={validationResult.contract} fromServer={false} />
+        )}
+        {validationResult?.valid && validationResult.columns && (
+          <HeaderPanel
+            columns={validationResult.columns}
+            renames={columnRenames}
+            disabled={!canEditSettings}
+            onRename={handleRename}
+            onRenameDone={handleRenameDone}
+          />
+        )}
       </div>
 
       {/* Status display */}
@@ -422,6 +899,28 @@ export default function UploadWizard() {
         </div>
       )}
 
+      {/* Validation progress bar */}
+      {isValidating && (
+        <div className={styles.progress}>
+          <div className={styles.progressHeader}>
+            <div className={styles.progressLabel}>Validation Progress</div>
+            <div className={styles.progressPercent}>{Math.round(validationProgress * 100)}%</div>
+          </div>
+          <div className={styles.progressBar}>
+            <div
+              className={styles.progressFill}
+              style={{width: `${Math.round(validationProgress * 100)}%`}}
+            />
+          </div>
+          <div className={styles.progressDetails}>
+            {formatBytes(Math.round(validationProgress * (file?.size ?? 0)))}
+            {" / "}
+            {formatBytes(file?.size ?? 0)}
+            {" checked"}
+          </div>
+        </div>
+      )}
+
       {/* Progress bar */}
       {(phase === "upload" || phase === "finalize") && (
         <div className={styles.progress}>
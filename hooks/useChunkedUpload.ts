@@ -1,6 +1,23 @@
 "use client";
 
-import type {UploadInitResponse} from "@/lib/types";
+import type {
+  ByteRange,
+  ChunkSizeBounds,
+  ContractCheckResult,
+  ContractViolationResponse,
+  FinalizeRequest,
+  MalformedRowSummary,
+  MalformedRowsResponse,
+  MissingChunksResponse,
+  UploadInitRequest,
+  UploadInitResponse,
+  UploadSessionState,
+  UploadStatusResponse,
+} from "@/lib/types";
+import {coverChunks, takeNextSlice} from "@/lib/chunk-ranges";
+import {hashFileInWorker} from "@/lib/file-hash";
+import {sha256Hex} from "@/lib/sha256";
+import {UPLOAD_TOKEN_HEADER} from "@/lib/upload-headers";
 import {useCallback, useRef, useState} from "react";
 
 type UploadStatus =
@@ -15,6 +32,7 @@ type UploadStatus =
 
 interface ChunkState {
   index: number;
+  offset: number;
   uploaded: boolean;
   bytes: number;
   retryCount: number;
@@ -25,19 +43,44 @@ interface UploadState {
   progress: number;
   error: string | null;
   sessionId: string | null;
+  uploadToken: string | null;
   uploadedBytes: number;
   totalBytes: number;
   failedChunks: number[];
   currentChunk: number | null;
+  /** Set when finalize failed because of malformed rows (the "fail" policy) */
+  malformedRows: MalformedRowSummary | null;
+  /** Set when finalize failed because the file breaks its schema contract */
+  contractViolations: ContractCheckResult | null;
 }
 
+/**
+ * Choices made in the wizard before upload: the format, column names and schema contract go to init,
+ * the malformed row policy to finalize
+ */
+type UploadSettings = Pick<UploadInitRequest, "dialect" | "columnRenames" | "contractId"> & Pick<FinalizeRequest, "malformedRowPolicy"> & {
+  /** Whole-file SHA-256 already computed (by validation); hashed in a worker during the upload otherwise */
+  sha256?: string;
+};
+
+interface UseChunkedUploadOptions {
+  /** Maximum number of chunks in flight at once */
+  concurrency?: number;
+}
+
+/**
+ * What a resume needs from the browser; which chunks arrived is always asked from the server.
+ */
 interface StoredUploadState {
   sessionId: string;
-  fileSize: number;
-  uploadedChunks: number[];
+  uploadToken: string;
+  /** The file the session uploads (`fileFingerprint`), so picking another file never resumes it */
+  fileFingerprint: string;
 }
 
-const DEFAULT_CHUNK_BYTES = 1024 * 1024; // 1MB
+const DEFAULT_CONCURRENCY = 4;
+const TARGET_CHUNK_MS = 2000; // Aim for each chunk request to take about 2s
+const CHUNK_SIZE_STEP = 64 * 1024; // Adapted sizes are rounded to 64KB
 const MAX_RETRIES = 5;
 const INITIAL_RETRY_DELAY_MS = 1000;
 const MAX_RETRY_DELAY_MS = 30000;
@@ -60,6 +103,36 @@ function calculateBackoffDelay(retryCount: number): number {
   return Math.min(delay, MAX_RETRY_DELAY_MS);
 }
 
+/**
+ * Picks the size of the next chunk from the last chunk's measured throughput.
+ * Aims for TARGET_CHUNK_MS per request, moves by at most 2x per step to avoid oscillating,
+ * halves after a chunk that needed retries, and stays within the server-declared bounds.
+ */
+function adaptChunkSize(
+  current: number,
+  bytes: number,
+  elapsedMs: number,
+  hadRetries: boolean,
+  bounds: ChunkSizeBounds
+): number {
+  let next: number;
+  if (hadRetries) {
+    next = current / 2;
+  } else {
+    const ideal = (bytes / Math.max(elapsedMs, 1)) * TARGET_CHUNK_MS;
+    next = Math.min(current * 2, Math.max(current / 2, ideal));
+  }
+  const rounded = Math.round(next / CHUNK_SIZE_STEP) * CHUNK_SIZE_STEP;
+  return Math.min(bounds.maxChunkSize, Math.max(bounds.minChunkSize, rounded));
+}
+
+/**
+ * Identifies a picked file by name, size and modification time, without reading it.
+ */
+function fileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
 /**
  * Generates the localStorage key to store the upload state for a session.
  */
@@ -93,21 +166,6 @@ function saveUploadState(state: StoredUploadState): void {
   }
 }
 
-/**
- * Updates the list of uploaded chunks in the localStorage state.
- * Adds the chunkIndex to the list if it is not already present and sorts the list.
- */
-function updateUploadedChunks(sessionId: string, chunkIndex: number): void {
-  const state = loadUploadState(sessionId);
-  if (!state) return;
-
-  if (!state.uploadedChunks.includes(chunkIndex)) {
-    state.uploadedChunks.push(chunkIndex);
-    state.uploadedChunks.sort((a, b) => a - b);
-    saveUploadState(state);
-  }
-}
-
 /**
  * Deletes the upload state from localStorage for a given session.
  * Called after a successful upload or when resetting.
@@ -120,20 +178,65 @@ function clearUploadState(sessionId: string): void {
   }
 }
 
+/**
+ * Asks the server to drop an abandoned session and everything stored for it.
+ * Fire-and-forget: a failure only means the data is left for the server's expiry sweep.
+ */
+function deleteServerSession(sessionId: string, uploadToken: string): void {
+  fetch(`/api/upload/session?sessionId=${encodeURIComponent(sessionId)}`, {
+    method: "DELETE",
+    headers: {[UPLOAD_TOKEN_HEADER]: uploadToken},
+  }).catch(() => undefined);
+}
+
+/**
+ * Asks the server which chunks it actually holds for a session and works out the byte ranges still missing.
+ * Returns null when the server no longer knows the session, rejects the token, or it was created for a different file size.
+ */
+async function fetchServerChunks(
+  sessionId: string,
+  uploadToken: string,
+  fileSize: number,
+  abortSignal: AbortSignal
+): Promise<{
+  state: UploadSessionState;
+  bounds: ChunkSizeBounds;
+  missingRanges: ByteRange[];
+} | null> {
+  const res = await fetch(`/api/upload/status?sessionId=${encodeURIComponent(sessionId)}`, {
+    method: "GET",
+    headers: {[UPLOAD_TOKEN_HEADER]: uploadToken},
+    signal: abortSignal,
+  });
+  if (res.status === 401 || res.status === 403 || res.status === 404) return null;
+  if (!res.ok) throw new Error(`status failed (${res.status})`);
+
+  const json = (await res.json()) as UploadStatusResponse;
+  if (json.size !== fileSize) return null;
+
+  const {missingRanges} = coverChunks(json.receivedChunks, fileSize);
+  const bounds = {chunkSize: json.chunkSize, minChunkSize: json.minChunkSize, maxChunkSize: json.maxChunkSize};
+
+  return {state: json.state, bounds, missingRanges};
+}
+
 /**
  * Uploads a chunk with automatic retry and exponential backoff.
- * Retries up to MAX_RETRIES times in case of failure, with increasing delays.
+ * Retries up to MAX_RETRIES times, with increasing delays, the failures that can go away: network errors,
+ * 5xx, 408/429, and 422 (the server rejected a corrupted body, checked against the chunk's SHA-256).
+ * Any other 4xx (bad chunk, invalid token, unknown or finalized session) fails at once with the server's message.
  * Calls onRetry for each retry attempt to update the UI.
- * Updates localStorage with the uploaded chunk in case of success.
+ * Returns the number of retries that were needed.
  */
 async function uploadChunkWithRetry(
   sessionId: string,
+  uploadToken: string,
   chunkIndex: number,
-  totalChunks: number,
+  offset: number,
   blob: Blob,
   abortSignal: AbortSignal,
   onRetry: (chunkIndex: number, retryCount: number) => void
-): Promise<void> {
+): Promise<number> {
   let retryCount = 0;
 
   while (retryCount <= MAX_RETRIES) {
@@ -141,33 +244,42 @@ async function uploadChunkWithRetry(
       throw new Error("Upload canceled");
     }
 
+    let retryable = true;
     try {
       const buf = await blob.arrayBuffer();
+      const chunkSha256 = await sha256Hex(buf);
 
       const chunkRes = await fetch("/api/upload/chunk", {
         method: "POST",
         headers: {
           "content-type": "application/octet-stream",
           "x-session-id": sessionId,
+          [UPLOAD_TOKEN_HEADER]: uploadToken,
           "x-chunk-index": String(chunkIndex),
-          "x-total-chunks": String(totalChunks),
+          "x-chunk-offset": String(offset),
+          "x-chunk-sha256": chunkSha256,
         },
         body: buf,
         signal: abortSignal,
       });
 
+      if (chunkRes.status === 422) {
+        throw new Error(`chunk ${chunkIndex} checksum mismatch`);
+      }
       if (!chunkRes.ok) {
-        throw new Error(`chunk ${chunkIndex} failed (${chunkRes.status})`);
+        const status = chunkRes.status;
+        retryable = status >= 500 || status === 408 || status === 429;
+        const body = (await chunkRes.json().catch(() => null)) as {error?: string} | null;
+        throw new Error(body?.error ?? `chunk ${chunkIndex} failed (${status})`);
       }
 
-      updateUploadedChunks(sessionId, chunkIndex);
-      return;
+      return retryCount;
     } catch (error: unknown) {
       if (abortSignal.aborted) {
         throw new Error("Upload canceled");
       }
 
-      if (retryCount >= MAX_RETRIES) {
+      if (!retryable || retryCount >= MAX_RETRIES) {
         throw error;
       }
 
@@ -178,6 +290,8 @@ async function uploadChunkWithRetry(
       await sleep(delay);
     }
   }
+
+  throw new Error(`chunk ${chunkIndex} failed`);
 }
 
 /**
@@ -185,22 +299,25 @@ async function uploadChunkWithRetry(
  * byte-based progress tracking, robust state machine, and partial upload resume.
  * 
  * Features:
- * - Sequential chunk upload with automatic retry (exponential backoff)
+ * - Parallel chunk upload within a configurable concurrency window, with per-chunk retry (exponential backoff)
  * - Progress calculated in bytes (not just chunk count)
  * - Robust state machine with clear transitions (idle, initializing, uploading, retrying, finalizing, done, error, canceled)
- * - Partial upload resume via localStorage (detection of already uploaded chunks)
+ * - Partial upload resume reconciled against /api/upload/status (the server decides what has arrived)
  * - Partial failure handling with possibility to resume
  */
-export function useChunkedUpload() {
+export function useChunkedUpload({concurrency = DEFAULT_CONCURRENCY}: UseChunkedUploadOptions = {}) {
   const [state, setState] = useState<UploadState>({
     status: "idle",
     progress: 0,
     error: null,
     sessionId: null,
+    uploadToken: null,
     uploadedBytes: 0,
     totalBytes: 0,
     failedChunks: [],
     currentChunk: null,
+    malformedRows: null,
+    contractViolations: null,
   });
 
   const abortRef = useRef<AbortController | null>(null);
@@ -225,6 +342,8 @@ export function useChunkedUpload() {
    * Reset the upload state completely.
    * Cancel the ongoing upload, clear the refs, delete the localStorage state
    * and reset all states to their initial values.
+   * An unfinished session is also deleted on the server; a finalized one is kept
+   * (the user may still open its preview) and left to the server's expiry sweep.
    */
   const reset = useCallback(() => {
     abortRef.current?.abort();
@@ -232,18 +351,22 @@ export function useChunkedUpload() {
     chunkStatesRef.current.clear();
     if (state.sessionId) {
       clearUploadState(state.sessionId);
+      if (state.status !== "done" && state.uploadToken) deleteServerSession(state.sessionId, state.uploadToken);
     }
     setState({
       status: "idle",
       progress: 0,
       error: null,
       sessionId: null,
+      uploadToken: null,
       uploadedBytes: 0,
       totalBytes: 0,
       failedChunks: [],
       currentChunk: null,
+      malformedRows: null,
+      contractViolations: null,
     });
-  }, [state.sessionId]);
+  }, [state.sessionId, state.status, state.uploadToken]);
 
   /**
    * Cancel the ongoing upload by aborting the abort signal.
@@ -258,21 +381,26 @@ export function useChunkedUpload() {
   /**
    * Start or resume a file upload.
    * 
-   * If resumeSessionId is provided, load the state from localStorage and resume
-   * the upload by skipping the already uploaded chunks.
+   * If resumeSessionId is provided, ask /api/upload/status which chunks the server
+   * holds and resume by skipping those; the browser keeps no chunk list of its own. The session's upload token
+   * is read back from localStorage; if it is gone, it was stored for another file, or the server no longer knows
+   * the session or rejects the token, a new one is started.
    * 
-   * Otherwise, initialize a new upload session via the /api/upload/init API.
+   * Otherwise, initialize a new upload session via the /api/upload/init API, sending the
+   * CSV dialect and column names confirmed in the wizard if any (a resumed session keeps the ones it was created with).
    * 
    * Process:
    * 1. Initialization (new session or resume)
    * 2. Calculate the already uploaded chunks (for resume)
-   * 3. Sequential upload of missing chunks with automatic retry
-   * 4. Finalization via /api/upload/finalize
+   * 3. Parallel upload of missing chunks (up to `concurrency` at once) with automatic retry per chunk;
+   *    failures are collected in failedChunks rather than aborting the whole upload
+   * 4. Finalization via /api/upload/finalize, sending the whole-file SHA-256 hashed alongside the upload
+   *    and the malformed row policy; a resumed session may finalize with a different policy than before
    * 5. Cleanup of the localStorage state
    * 
    * Handle partial failures by keeping the state for possible resume.
    */
-  const start = useCallback(async (file: File, resumeSessionId?: string) => {
+  const start = useCallback(async (file: File, resumeSessionId?: string, settings?: UploadSettings) => {
     setState((prev) => ({
       ...prev,
       error: null,
@@ -282,55 +410,75 @@ export function useChunkedUpload() {
       totalBytes: file.size,
       failedChunks: [],
       currentChunk: null,
+      malformedRows: null,
+      contractViolations: null,
     }));
 
     const abort = new AbortController();
     abortRef.current = abort;
     chunkStatesRef.current.clear();
 
+    const {malformedRowPolicy, sha256: knownSha256, ...initSettings} = settings ?? {};
+
     try {
-      let sessionId: string;
-      let uploadedChunkIndices: number[] = [];
-
-      if (resumeSessionId) {
-        sessionId = resumeSessionId;
-        const storedState = loadUploadState(sessionId);
-        if (storedState && storedState.fileSize === file.size) {
-          uploadedChunkIndices = storedState.uploadedChunks;
+      let sessionId: string | null = null;
+      let uploadToken: string | null = null;
+      let bounds: ChunkSizeBounds | null = null;
+      let pendingRanges: ByteRange[] = [{start: 0, end: file.size}];
+
+      const storedState = resumeSessionId ? loadUploadState(resumeSessionId) : null;
+      const resumeToken = storedState?.fileFingerprint === fileFingerprint(file) ? storedState.uploadToken : undefined;
+      if (resumeSessionId && resumeToken) {
+        const serverChunks = await fetchServerChunks(resumeSessionId, resumeToken, file.size, abort.signal);
+        if (serverChunks?.state === "ready") {
+          // Already finalized (e.g. the previous attempt lost the response): nothing left to send
+          clearUploadState(resumeSessionId);
+          setState((prev) => ({
+            ...prev,
+            sessionId: resumeSessionId,
+            uploadToken: resumeToken,
+            status: "done",
+            progress: 1,
+            uploadedBytes: file.size,
+          }));
+          return;
+        }
+        if (serverChunks) {
+          sessionId = resumeSessionId;
+          uploadToken = resumeToken;
+          pendingRanges = serverChunks.missingRanges;
+          bounds = serverChunks.bounds;
+          setState((prev) => ({...prev, sessionId, uploadToken}));
+        } else {
+          clearUploadState(resumeSessionId);
         }
-        setState((prev) => ({...prev, sessionId}));
-      } else {
+      } else if (resumeSessionId) {
+        clearUploadState(resumeSessionId);
+      }
+
+      if (!sessionId || !uploadToken || !bounds) {
         const initRes = await fetch("/api/upload/init", {
           method: "POST",
           headers: {"content-type": "application/json"},
-          body: JSON.stringify({filename: file.name, size: file.size}),
+          body: JSON.stringify({filename: file.name, size: file.size, ...initSettings}),
           signal: abort.signal,
         });
         if (!initRes.ok) throw new Error(`init failed (${initRes.status})`);
         const initJson = (await initRes.json()) as UploadInitResponse;
         sessionId = initJson.sessionId;
+        uploadToken = initJson.uploadToken;
+        bounds = {chunkSize: initJson.chunkSize, minChunkSize: initJson.minChunkSize, maxChunkSize: initJson.maxChunkSize};
 
-        const initialState: StoredUploadState = {
-          sessionId,
-          fileSize: file.size,
-          uploadedChunks: [],
-        };
-        saveUploadState(initialState);
+        saveUploadState({sessionId, uploadToken, fileFingerprint: fileFingerprint(file)});
 
-        setState((prev) => ({...prev, sessionId}));
-        localStorage.setItem("lastSessionId", sessionId);
+        setState((prev) => ({...prev, sessionId, uploadToken}));
       }
 
-      const chunkSize = DEFAULT_CHUNK_BYTES;
-      const totalChunks = Math.ceil(file.size / chunkSize);
-      const uploadedSet = new Set(uploadedChunkIndices);
+      // Unless validation already hashed it, hash the whole file in a worker while chunks are in flight; awaited right before finalize
+      const fileHashPromise = knownSha256 ? Promise.resolve(knownSha256) : hashFileInWorker(file, abort.signal);
+      fileHashPromise.catch(() => undefined);
 
-      let totalUploadedBytes = 0;
-      for (const idx of uploadedChunkIndices) {
-        const startByte = idx * chunkSize;
-        const endByte = Math.min(startByte + chunkSize, file.size);
-        totalUploadedBytes += endByte - startByte;
-      }
+      let totalUploadedBytes = file.size - pendingRanges.reduce((sum, r) => sum + (r.end - r.start), 0);
 
       updateProgress(totalUploadedBytes, file.size);
 
@@ -341,72 +489,93 @@ export function useChunkedUpload() {
       }));
 
       const failedChunks: number[] = [];
+      const retryingChunks = new Set<number>();
+      const activeSessionId = sessionId;
+      const activeUploadToken = uploadToken;
+      const activeBounds = bounds;
+      let chunkSize = bounds.chunkSize;
+      let nextChunkIndex = 0;
+
+      /**
+       * One slot of the concurrency window: keeps cutting the next slice off the pending ranges until none are left.
+       * Each slice uses the current adaptive chunk size, which is updated from the slice's measured throughput.
+       * A chunk that exhausts its retries is recorded in failedChunks and the worker moves on,
+       * so a single bad chunk doesn't stop the rest of the file from uploading.
+       */
+      const runWorker = async () => {
+        for (let slice = takeNextSlice(pendingRanges, chunkSize, activeBounds); slice; slice = takeNextSlice(pendingRanges, chunkSize, activeBounds)) {
+          if (abort.signal.aborted) {
+            throw new Error("Upload canceled");
+          }
 
-      for (let chunkIndex = 0; chunkIndex < totalChunks; chunkIndex++) {
-        if (abort.signal.aborted) {
-          throw new Error("Upload canceled");
-        }
-
-        if (uploadedSet.has(chunkIndex)) {
-          continue;
-        }
-
-        setState((prev) => ({
-          ...prev,
-          currentChunk: chunkIndex,
-        }));
-
-        const startByte = chunkIndex * chunkSize;
-        const endByte = Math.min(startByte + chunkSize, file.size);
-        const blob = file.slice(startByte, endByte);
-        const chunkBytes = endByte - startByte;
-
-        try {
-          await uploadChunkWithRetry(
-            sessionId,
-            chunkIndex,
-            totalChunks,
-            blob,
-            abort.signal,
-            (idx, retryCount) => {
-              setState((prev) => ({
-                ...prev,
-                status: "retrying",
-                currentChunk: idx,
-              }));
-            }
-          );
-
-          totalUploadedBytes += chunkBytes;
-          updateProgress(totalUploadedBytes, file.size);
-
+          const chunkIndex = nextChunkIndex++;
           setState((prev) => ({
             ...prev,
-            status: "uploading",
+            currentChunk: chunkIndex,
           }));
 
-          chunkStatesRef.current.set(chunkIndex, {
-            index: chunkIndex,
-            uploaded: true,
-            bytes: chunkBytes,
-            retryCount: 0,
-          });
-        } catch (error: unknown) {
-          failedChunks.push(chunkIndex);
-          chunkStatesRef.current.set(chunkIndex, {
-            index: chunkIndex,
-            uploaded: false,
-            bytes: chunkBytes,
-            retryCount: MAX_RETRIES,
-          });
+          const blob = file.slice(slice.start, slice.end);
+          const chunkBytes = slice.end - slice.start;
+          const startedAt = performance.now();
+
+          try {
+            const retries = await uploadChunkWithRetry(
+              activeSessionId,
+              activeUploadToken,
+              chunkIndex,
+              slice.start,
+              blob,
+              abort.signal,
+              (idx) => {
+                retryingChunks.add(idx);
+                setState((prev) => ({
+                  ...prev,
+                  status: "retrying",
+                  currentChunk: idx,
+                }));
+              }
+            );
+
+            chunkSize = adaptChunkSize(chunkSize, chunkBytes, performance.now() - startedAt, retries > 0, activeBounds);
+
+            // Chunks complete out of order, so progress is the sum of completed chunk sizes
+            totalUploadedBytes += chunkBytes;
+            updateProgress(totalUploadedBytes, file.size);
+
+            chunkStatesRef.current.set(chunkIndex, {
+              index: chunkIndex,
+              offset: slice.start,
+              uploaded: true,
+              bytes: chunkBytes,
+              retryCount: retries,
+            });
+          } catch {
+            if (abort.signal.aborted) {
+              throw new Error("Upload canceled");
+            }
 
-          if (abort.signal.aborted) {
-            throw new Error("Upload canceled");
+            failedChunks.push(chunkIndex);
+            chunkSize = adaptChunkSize(chunkSize, chunkBytes, performance.now() - startedAt, true, activeBounds);
+            chunkStatesRef.current.set(chunkIndex, {
+              index: chunkIndex,
+              offset: slice.start,
+              uploaded: false,
+              bytes: chunkBytes,
+              retryCount: MAX_RETRIES,
+            });
+          } finally {
+            retryingChunks.delete(chunkIndex);
           }
 
-          throw error;
+          if (retryingChunks.size === 0) {
+            setState((prev) => (prev.status === "retrying" ? {...prev, status: "uploading"} : prev));
+          }
         }
-      }
+      };
+
+      const workerCount = Math.max(1, concurrency);
+      await Promise.all(Array.from({length: workerCount}, runWorker));
+      failedChunks.sort((a, b) => a - b);
 
       if (failedChunks.length > 0) {
         setState((prev) => ({
@@ -424,12 +593,57 @@ export function useChunkedUpload() {
         currentChunk: null,
       }));
 
+      const fileSha256 = await fileHashPromise;
       const finRes = await fetch("/api/upload/finalize", {
         method: "POST",
-        headers: {"content-type": "application/json"},
-        body: JSON.stringify({sessionId}),
+        headers: {"content-type": "application/json", [UPLOAD_TOKEN_HEADER]: uploadToken},
+        body: JSON.stringify({sessionId, sha256: fileSha256, malformedRowPolicy}),
         signal: abort.signal,
       });
+      if (finRes.status === 409) {
+        // Either another finalize is running, or the server is missing some byte ranges,
+        // which Retry resends after asking the server again
+        const conflictJson = (await finRes.json()) as Partial<MissingChunksResponse>;
+        const missingRanges = conflictJson.missingRanges;
+        if (!missingRanges) throw new Error(conflictJson.error ?? "finalize failed (409)");
+        const missingBytes = missingRanges.reduce((sum, r) => sum + (r.end - r.start), 0);
+        setState((prev) => ({
+          ...prev,
+          status: "error",
+          error: `Server is missing ${missingRanges.length} chunk range(s) (${missingBytes} bytes)`,
+          uploadedBytes: file.size - missingBytes,
+          progress: (file.size - missingBytes) / file.size,
+          currentChunk: null,
+        }));
+        return;
+      }
+      if (finRes.status === 422) {
+        // A checksum mismatch, malformed rows with the "fail" policy, or schema contract violations
+        const failJson = (await finRes.json()) as Partial<MalformedRowsResponse & ContractViolationResponse>;
+        const malformedRows = failJson.malformedRows;
+        if (failJson.contract) {
+          clearUploadState(sessionId);
+          const contractViolations = failJson.contract;
+          setState((prev) => ({
+            ...prev,
+            status: "error",
+            error: failJson.error ?? "Schema contract violations",
+            contractViolations,
+            currentChunk: null,
+          }));
+          return;
+        }
+        if (!malformedRows) throw new Error("File checksum mismatch");
+        // The session is kept, so Retry can finalize it again with the "skip" policy without re-uploading
+        setState((prev) => ({
+          ...prev,
+          status: "error",
+          error: failJson.error ?? "Malformed rows",
+          malformedRows,
+          currentChunk: null,
+        }));
+        return;
+      }
       if (!finRes.ok) throw new Error(`finalize failed (${finRes.status})`);
 
       clearUploadState(sessionId);
@@ -453,17 +667,20 @@ export function useChunkedUpload() {
         error: error instanceof Error ? error.message : "Upload failed",
       }));
     }
-  }, [updateProgress]);
+  }, [concurrency, updateProgress]);
 
   return {
     status: state.status,
     progress: state.progress,
     error: state.error,
     sessionId: state.sessionId,
+    uploadToken: state.uploadToken,
     uploadedBytes: state.uploadedBytes,
     totalBytes: state.totalBytes,
     failedChunks: state.failedChunks,
     currentChunk: state.currentChunk,
+    malformedRows: state.malformedRows,
+    contractViolations: state.contractViolations,
     start,
     cancel,
     reset,
@@ -0,0 +1,83 @@
+"use client";
+
+import type {DatasetProfile, ProfileResponse} from "@/lib/types";
+import {UPLOAD_TOKEN_HEADER} from "@/lib/upload-headers";
+import {useCallback, useEffect, useState} from "react";
+
+/**
+ * Delay between two polls of the profile route while profiling runs
+ */
+const POLL_INTERVAL_MS = 1000;
+
+interface DatasetProfileState {
+  profile: DatasetProfile | null;
+  /** Share of the file profiled so far, 0-100; null when not running */
+  progress: number | null;
+  error: string | null;
+}
+
+interface DatasetProfileResult extends DatasetProfileState {
+  /** Starts a failed profiling pass again and resumes polling */
+  retry: () => void;
+}
+
+/**
+ * Polls `/api/upload/profile` until the full-file profile of a finalized session is ready.
+ * Polling stops on success, on failure and when the component unmounts, and starts again when the schema is saved
+ * or on `retry`.
+ *
+ * @param sessionId - Session to profile; nothing is fetched while null
+ * @param uploadToken - Upload token of the session, sent in the `x-upload-token` header
+ * @param schemaVersion - Version of the saved session schema; the profile is recomputed for a new one
+ */
+export function useDatasetProfile(sessionId: string | null, uploadToken: string | null, schemaVersion = 0): DatasetProfileResult {
+  const [state, setState] = useState<DatasetProfileState>({profile: null, progress: null, error: null});
+  // Bumped by retry; the first poll after it asks the route to restart a failed pass
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const abort = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    setState({profile: null, progress: 0, error: null});
+    let restart = attempt > 0;
+
+    const poll = async () => {
+      try {
+        const retry = restart ? "&retry=1" : "";
+        restart = false;
+        const res = await fetch(`/api/upload/profile?sessionId=${encodeURIComponent(sessionId)}${retry}`, {
+          headers: uploadToken ? {[UPLOAD_TOKEN_HEADER]: uploadToken} : undefined,
+          signal: abort.signal,
+        });
+        if (!res.ok) {
+          setState({profile: null, progress: null, error: `Failed to load the column profile (${res.status})`});
+          return;
+        }
+        const body = await res.json() as ProfileResponse;
+        if (body.status === "ready") {
+          setState({profile: body.profile, progress: null, error: null});
+        } else if (body.status === "failed") {
+          setState({profile: null, progress: null, error: `Profiling failed: ${body.error}`});
+        } else {
+          const progress = body.totalBytes > 0 ? Math.min(100, (body.bytesRead / body.totalBytes) * 100) : 0;
+          setState({profile: null, progress, error: null});
+          timer = setTimeout(poll, POLL_INTERVAL_MS);
+        }
+      } catch (error: unknown) {
+        if (abort.signal.aborted) return;
+        setState({profile: null, progress: null, error: error instanceof Error ? error.message : "Failed to load the column profile"});
+      }
+    };
+    void poll();
+
+    return () => {
+      abort.abort();
+      clearTimeout(timer);
+    };
+  }, [sessionId, uploadToken, schemaVersion, attempt]);
+
+  const retry = useCallback(() => setAttempt((n) => n + 1), []);
+
+  return {...state, retry};
+}
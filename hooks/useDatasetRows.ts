@@ -0,0 +1,102 @@
+"use client";
+
+import {rowQueryParams} from "@/lib/row-query";
+import type {RowQuery, RowsResponse} from "@/lib/types";
+import {UPLOAD_TOKEN_HEADER} from "@/lib/upload-headers";
+import {useCallback, useEffect, useMemo, useRef, useState} from "react";
+
+interface DatasetRowsState {
+  /** Rows loaded so far, from `start` on; empty until the first block arrives */
+  rows: Array<Record<string, string>>;
+  /** Well-formed data rows in the whole file, once the first block is loaded */
+  totalRows: number | null;
+  /** Rows matching the query's filters, once the first block is loaded */
+  matchingRows: number | null;
+  loading: boolean;
+  error: string | null;
+}
+
+interface DatasetRowsResult extends DatasetRowsState {
+  /** Loads the block after the rows loaded so far; does nothing while a block is loading or once all are loaded */
+  loadMore: () => void;
+}
+
+const INITIAL_STATE: DatasetRowsState = {rows: [], totalRows: null, matchingRows: null, loading: false, error: null};
+
+/**
+ * Loads the data rows of a finalized session from `/api/upload/rows` a block at a time, for infinite scrolling.
+ * The first block is loaded at once, and again from scratch whenever the start row or the query changes;
+ * a response that is no longer wanted when it arrives is dropped.
+ *
+ * @param sessionId - Session to read; nothing is fetched while null
+ * @param uploadToken - Upload token of the session, sent in the `x-upload-token` header
+ * @param start - Index of the first row, counting well-formed data rows matching the query from 0
+ * @param blockSize - Rows per request
+ * @param query - Sort and filters, applied by the server to the whole file
+ */
+export function useDatasetRows(
+  sessionId: string | null,
+  uploadToken: string | null,
+  start: number,
+  blockSize: number,
+  query: RowQuery
+): DatasetRowsResult {
+  const [state, setState] = useState<DatasetRowsState>(INITIAL_STATE);
+  // Compared by value, so an equal query object does not load the rows again
+  const queryParams = useMemo(() => JSON.stringify(rowQueryParams(query)), [query]);
+  const requestRef = useRef<AbortController | null>(null);
+
+  /**
+   * Fetches the block at `offset`: the first one replaces the rows, later ones are appended
+   */
+  const loadBlock = useCallback((offset: number) => {
+    if (!sessionId) return;
+    const abort = new AbortController();
+    requestRef.current = abort;
+    setState((s) => ({...s, loading: true, error: null}));
+
+    const params = new URLSearchParams([
+      ["sessionId", sessionId],
+      ["offset", String(offset)],
+      ["limit", String(blockSize)],
+      ...JSON.parse(queryParams) as Array<[string, string]>,
+    ]);
+    fetch(`/api/upload/rows?${params}`, {
+      headers: uploadToken ? {[UPLOAD_TOKEN_HEADER]: uploadToken} : undefined,
+      signal: abort.signal,
+    })
+      .then(async (res) => {
+        if (!res.ok) {
+          const body = await res.json().catch(() => null) as {error?: string} | null;
+          throw new Error(body?.error ?? `Failed to load rows (${res.status})`);
+        }
+        const body = await res.json() as RowsResponse;
+        if (abort.signal.aborted) return;
+        setState((s) => ({
+          rows: offset === start ? body.rows : [...s.rows, ...body.rows],
+          totalRows: body.totalRows,
+          matchingRows: body.matchingRows,
+          loading: false,
+          error: null,
+        }));
+      })
+      .catch((error: unknown) => {
+        if (abort.signal.aborted) return;
+        setState((s) => ({...s, loading: false, error: error instanceof Error ? error.message : "Failed to load rows"}));
+      });
+  }, [sessionId, uploadToken, start, blockSize, queryParams]);
+
+  useEffect(() => {
+    setState((s) => ({...s, rows: []}));
+    loadBlock(start);
+    return () => requestRef.current?.abort();
+  }, [loadBlock, start]);
+
+  const {rows, matchingRows, loading} = state;
+  const loadMore = useCallback(() => {
+    if (loading || matchingRows === null || start + rows.length >= matchingRows) return;
+    loadBlock(start + rows.length);
+  }, [loading, matchingRows, rows.length, start, loadBlock]);
+
+  return {...state, loadMore};
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import type {MalformedRowReport} from "@/lib/types";
+import {UPLOAD_TOKEN_HEADER} from "@/lib/upload-headers";
+import {useEffect, useState} from "react";
+
+interface MalformedRowReportState {
+  report: MalformedRowReport | null;
+  error: string | null;
+}
+
+/**
+ * Loads the malformed row report written by finalize from `/api/upload/errors`, once per session.
+ *
+ * @param sessionId - Session whose report to load; nothing is fetched while null
+ * @param uploadToken - Upload token of the session, sent in the `x-upload-token` header
+ */
+export function useMalformedRowReport(sessionId: string | null, uploadToken: string | null): MalformedRowReportState {
+  const [state, setState] = useState<MalformedRowReportState>({report: null, error: null});
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const abort = new AbortController();
+    setState({report: null, error: null});
+
+    fetch(`/api/upload/errors?sessionId=${encodeURIComponent(sessionId)}`, {
+      headers: uploadToken ? {[UPLOAD_TOKEN_HEADER]: uploadToken} : undefined,
+      signal: abort.signal,
+    })
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Failed to load the malformed rows (${res.status})`);
+        setState({report: await res.json() as MalformedRowReport, error: null});
+      })
+      .catch((error: unknown) => {
+        if (abort.signal.aborted) return;
+        setState({report: null, error: error instanceof Error ? error.message : "Failed to load the malformed rows"});
+      });
+
+    return () => abort.abort();
+  }, [sessionId, uploadToken]);
+
+  return state;
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import type {SchemaContract, SchemaContractsResponse} from "@/lib/types";
+import {useEffect, useState} from "react";
+
+interface SchemaContractsState {
+  contracts: SchemaContract[];
+  error: string | null;
+}
+
+/**
+ * Loads the schema contracts stored on the server from `/api/contracts`, once per mount.
+ */
+export function useSchemaContracts(): SchemaContractsState {
+  const [state, setState] = useState<SchemaContractsState>({contracts: [], error: null});
+
+  useEffect(() => {
+    const abort = new AbortController();
+
+    fetch("/api/contracts", {signal: abort.signal})
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Failed to load the schema contracts (${res.status})`);
+        const body = await res.json() as SchemaContractsResponse;
+        setState({contracts: body.contracts, error: null});
+      })
+      .catch((error: unknown) => {
+        if (abort.signal.aborted) return;
+        setState({contracts: [], error: error instanceof Error ? error.message : "Failed to load the schema contracts"});
+      });
+
+    return () => abort.abort();
+  }, []);
+
+  return state;
+}
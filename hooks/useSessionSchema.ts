@@ -0,0 +1,69 @@
+"use client";
+
+import type {ColumnSchemaEdit, SchemaConflictResponse, SessionSchema} from "@/lib/types";
+import {UPLOAD_TOKEN_HEADER} from "@/lib/upload-headers";
+import {useCallback, useEffect, useState} from "react";
+
+interface SessionSchemaState {
+  /** Last version saved, as known to this page; null until the preview is loaded */
+  schema: SessionSchema | null;
+  saving: boolean;
+  error: string | null;
+  /**
+   * Saves edits as the version after the current one. When the schema was saved elsewhere in the meantime,
+   * nothing is written: `schema` becomes that version and saving again overwrites it.
+   */
+  save: (columns: Record<string, ColumnSchemaEdit>) => Promise<void>;
+}
+
+/**
+ * Tracks the saved schema of a session and saves new versions to `/api/upload/schema`.
+ *
+ * @param sessionId - Session whose schema is edited
+ * @param uploadToken - Upload token of the session, sent in the `x-upload-token` header
+ * @param initial - Schema returned with the preview
+ */
+export function useSessionSchema(
+  sessionId: string | null,
+  uploadToken: string | null,
+  initial: SessionSchema | null
+): SessionSchemaState {
+  const [schema, setSchema] = useState<SessionSchema | null>(initial);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSchema(initial);
+    setError(null);
+  }, [initial]);
+
+  const save = useCallback(async (columns: Record<string, ColumnSchemaEdit>) => {
+    if (!sessionId || !schema) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/upload/schema", {
+        method: "PUT",
+        headers: {"content-type": "application/json", ...(uploadToken ? {[UPLOAD_TOKEN_HEADER]: uploadToken} : {})},
+        body: JSON.stringify({sessionId, baseVersion: schema.version, columns}),
+      });
+      const body = await res.json().catch(() => null) as SessionSchema | SchemaConflictResponse | {error?: string} | null;
+      if (res.status === 409 && body && "schema" in body) {
+        setSchema(body.schema);
+        setError(`${body.error}. Save again to replace it with your changes, or discard them to use it.`);
+        return;
+      }
+      if (!res.ok) {
+        setError(body && "error" in body && body.error ? body.error : `Failed to save the schema (${res.status})`);
+        return;
+      }
+      setSchema(body as SessionSchema);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : "Failed to save the schema");
+    } finally {
+      setSaving(false);
+    }
+  }, [sessionId, uploadToken, schema]);
+
+  return {schema, saving, error, save};
+}
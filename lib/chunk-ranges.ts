@@ -0,0 +1,65 @@
+import type { ByteRange, ChunkSizeBounds, ReceivedChunk } from "@/lib/types"
+
+/**
+ * Picks the chunks that cover a file from byte 0 to `size`, in order.
+ *
+ * Chunks are variable-sized (the client adapts their size), and a resume may
+ * upload with a different size than the first attempt, so received chunks are
+ * not guaranteed to line up. Walking from offset 0, the largest chunk starting
+ * at the current position is taken; when none starts there, the bytes up to the
+ * next chunk start are reported as missing.
+ *
+ * Shared by finalize (to assemble) and the upload hook (to resume only the gaps).
+ */
+export function coverChunks(chunks: ReceivedChunk[], size: number) {
+  const byOffset = new Map<number, ReceivedChunk>()
+  for (const chunk of chunks) {
+    const existing = byOffset.get(chunk.offset)
+    if (chunk.bytes > 0 && (!existing || chunk.bytes > existing.bytes)) byOffset.set(chunk.offset, chunk)
+  }
+  const offsets = [...byOffset.keys()].sort((a, b) => a - b)
+
+  const parts: ReceivedChunk[] = []
+  const missingRanges: ByteRange[] = []
+  let position = 0
+  while (position < size) {
+    const chunk = byOffset.get(position)
+    if (chunk) {
+      parts.push(chunk)
+      position += chunk.bytes
+      continue
+    }
+    const nextOffset = offsets.find((o) => o > position) ?? size
+    missingRanges.push({ start: position, end: Math.min(nextOffset, size) })
+    position = nextOffset
+  }
+
+  return { parts, missingRanges }
+}
+
+/**
+ * Cuts the next slice off the front of the pending byte ranges (the `missingRanges` of `coverChunks`).
+ * A slice never leaves a remainder smaller than the minimum chunk size inside a range. The server accepts
+ * undersized chunks only at the end of the file or right before a stored chunk, which is where every
+ * pending range ends, so a gap shorter than the minimum is sent whole.
+ */
+export function takeNextSlice(
+  pendingRanges: ByteRange[],
+  chunkSize: number,
+  bounds: Pick<ChunkSizeBounds, "minChunkSize" | "maxChunkSize">
+): ByteRange | null {
+  const range = pendingRanges[0]
+  if (!range) return null
+
+  const remaining = range.end - range.start
+  let bytes = Math.min(chunkSize, remaining)
+  const leftover = remaining - bytes
+  if (leftover > 0 && leftover < bounds.minChunkSize) {
+    bytes = remaining <= bounds.maxChunkSize ? remaining : remaining - bounds.minChunkSize
+  }
+
+  const slice = { start: range.start, end: range.start + bytes }
+  if (slice.end === range.end) pendingRanges.shift()
+  else range.start = slice.end
+  return slice
+}
@@ -0,0 +1,533 @@
+// Column type inference shared by the preview (finalize), schema issue detection and the type badges.
+
+import type { ColumnType, ColumnTypeKind, ContractValueType, DatePattern, NumberFormat } from "@/lib/types"
+
+type DecimalSeparator = NumberFormat["decimalSeparator"]
+
+type ParsedNumber = {
+  integer: boolean
+  scientific: boolean
+  thousandsSeparator?: NumberFormat["thousandsSeparator"]
+}
+
+// "." is tried first, so `1,234` reads as one thousand two hundred thirty-four rather than 1.234
+const DECIMAL_SEPARATORS: DecimalSeparator[] = [".", ","]
+
+// Pairs are [true, false]; single letters and 0/1 only count when both values appear
+const BOOLEAN_PAIRS = [
+  ["true", "false"],
+  ["yes", "no"],
+  ["on", "off"],
+  ["y", "n"],
+  ["t", "f"],
+  ["1", "0"],
+]
+
+const CURRENCY_SYMBOLS = ["$", "€", "£", "¥", "₹", "USD", "EUR", "GBP", "CHF", "JPY"]
+
+// Ambiguous day/month orders are tried US first; a value with a day above 12 settles it
+const DATE_PATTERNS: { pattern: DatePattern; source: string; order: ("y" | "m" | "d")[] }[] = [
+  { pattern: "YYYY-MM-DD", source: "(\\d{4})-(\\d{1,2})-(\\d{1,2})", order: ["y", "m", "d"] },
+  { pattern: "YYYY/MM/DD", source: "(\\d{4})/(\\d{1,2})/(\\d{1,2})", order: ["y", "m", "d"] },
+  { pattern: "MM/DD/YYYY", source: "(\\d{1,2})/(\\d{1,2})/(\\d{4})", order: ["m", "d", "y"] },
+  { pattern: "DD/MM/YYYY", source: "(\\d{1,2})/(\\d{1,2})/(\\d{4})", order: ["d", "m", "y"] },
+  { pattern: "DD.MM.YYYY", source: "(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})", order: ["d", "m", "y"] },
+  { pattern: "DD-MM-YYYY", source: "(\\d{1,2})-(\\d{1,2})-(\\d{4})", order: ["d", "m", "y"] },
+]
+
+const TIME_SOURCE = "([T ])(\\d{1,2}):(\\d{2})(?::(\\d{2})(?:\\.\\d+)?)?\\s?(Z|([+-])(\\d{2}):?(\\d{2}))?"
+
+// Compiled once: inference and profiling match every value of a column
+const DATE_REGEXES = new Map(DATE_PATTERNS.map((p) => [p.pattern, {
+  date: new RegExp(`^${p.source}$`),
+  dateTime: new RegExp(`^${p.source}${TIME_SOURCE}$`),
+}]))
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const URL_PATTERN = /^(https?:\/\/|www\.)[^\s/?#]+\.[^\s]+$/i
+
+// A text column is categorical when it has enough values and each distinct value repeats on average
+const CATEGORICAL_MIN_VALUES = 10
+const CATEGORICAL_MAX_CATEGORIES = 20
+// Categories a column type received from a client may list
+const MAX_CATEGORIES = 1000
+
+const numberPatterns = new Map<DecimalSeparator, RegExp>()
+
+function numberPattern(decimalSeparator: DecimalSeparator) {
+  let pattern = numberPatterns.get(decimalSeparator)
+  if (!pattern) {
+    const thousands = decimalSeparator === "." ? "[, ]" : "[. ]"
+    const decimal = decimalSeparator === "." ? "\\." : ","
+    // 1: thousands separator, 2 or 3: fraction digits, 4: exponent
+    pattern = new RegExp(
+      `^[-+]?(?:(?:\\d{1,3}(${thousands})\\d{3}(?:\\1\\d{3})*|\\d+)(?:${decimal}(\\d+))?|${decimal}(\\d+))([eE][-+]?\\d+)?$`
+    )
+    numberPatterns.set(decimalSeparator, pattern)
+  }
+  return pattern
+}
+
+/**
+ * Parses a plain number (`1e5`, `+3`, `1,234.50`, `.5`, `1.234,5`) written with the given decimal separator.
+ */
+function parseNumber(value: string, decimalSeparator: DecimalSeparator): ParsedNumber | null {
+  const match = numberPattern(decimalSeparator).exec(value.trim())
+  if (!match) return null
+  const fraction = match[2] ?? match[3]
+  return {
+    integer: fraction === undefined && match[4] === undefined,
+    scientific: match[4] !== undefined,
+    thousandsSeparator: match[1] as NumberFormat["thousandsSeparator"],
+  }
+}
+
+function matchesNumberFormat(parsed: ParsedNumber | null, format: NumberFormat) {
+  if (!parsed) return false
+  return !parsed.thousandsSeparator || !format.thousandsSeparator || parsed.thousandsSeparator === format.thousandsSeparator
+}
+
+// Finds the first decimal separator under which every value parses, with the grouping character seen
+function inferNumberFormat(values: string[], parse: (value: string, d: DecimalSeparator) => ParsedNumber | null) {
+  for (const decimalSeparator of DECIMAL_SEPARATORS) {
+    const parsed = values.map((v) => parse(v, decimalSeparator))
+    if (parsed.some((p) => !p)) continue
+    const thousandsSeparator = parsed.find((p) => p!.thousandsSeparator)?.thousandsSeparator
+    const format: NumberFormat = thousandsSeparator ? { decimalSeparator, thousandsSeparator } : { decimalSeparator }
+    return { format, parsed: parsed as ParsedNumber[] }
+  }
+  return null
+}
+
+function splitCurrency(value: string) {
+  const text = value.trim()
+  for (const symbol of CURRENCY_SYMBOLS) {
+    if (text.startsWith(symbol)) return { symbol, amount: text.slice(symbol.length) }
+    if (text.endsWith(symbol)) return { symbol, amount: text.slice(0, -symbol.length) }
+    // Sign before the symbol: -$5
+    if (/^[-+]/.test(text) && text.slice(1).startsWith(symbol)) return { symbol, amount: text[0] + text.slice(1 + symbol.length) }
+  }
+  return null
+}
+
+function parsePercentage(value: string, decimalSeparator: DecimalSeparator) {
+  const text = value.trim()
+  return text.endsWith("%") ? parseNumber(text.slice(0, -1), decimalSeparator) : null
+}
+
+function isValidDate(year: number, month: number, day: number) {
+  if (month < 1 || month > 12 || day < 1) return false
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+// Returns the date as a UTC timestamp, or null for an impossible date such as 2023-02-30
+function parseDateParts(match: RegExpExecArray, pattern: DatePattern) {
+  const order = DATE_PATTERNS.find((p) => p.pattern === pattern)!.order
+  const parts = { y: 0, m: 0, d: 0 }
+  order.forEach((key, i) => (parts[key] = Number(match[i + 1])))
+  return isValidDate(parts.y, parts.m, parts.d) ? Date.UTC(parts.y, parts.m - 1, parts.d) : null
+}
+
+function parseDate(value: string, pattern: DatePattern) {
+  const match = DATE_REGEXES.get(pattern)!.date.exec(value.trim())
+  return match ? parseDateParts(match, pattern) : null
+}
+
+function matchesDate(value: string, pattern: DatePattern) {
+  return parseDate(value, pattern) !== null
+}
+
+function parseDateTime(value: string, pattern: DatePattern) {
+  const match = DATE_REGEXES.get(pattern)!.dateTime.exec(value.trim())
+  const date = match && parseDateParts(match, pattern)
+  if (!match || date === null) return null
+  const [separator, hours, minutes, seconds, timeZone, sign, offsetHours, offsetMinutes] = match.slice(4)
+  if (Number(hours) > 23 || Number(minutes) > 59 || Number(seconds ?? 0) > 60) return null
+  const offset = sign ? (sign === "-" ? -1 : 1) * (Number(offsetHours) * 60 + Number(offsetMinutes)) : 0
+  return {
+    separator: separator as "T" | " ",
+    seconds: seconds !== undefined,
+    timeZone: timeZone !== undefined,
+    timestamp: date + ((Number(hours) * 60 + Number(minutes) - offset) * 60 + Number(seconds ?? 0)) * 1000,
+  }
+}
+
+// Digits only, with the decimal separator as "."; the value has already been validated by parseNumber
+function toNumber(text: string, decimalSeparator: DecimalSeparator) {
+  const digits = decimalSeparator === "." ? text.replace(/[, ]/g, "") : text.replace(/[. ]/g, "").replace(",", ".")
+  return Number(digits.trim())
+}
+
+function inferBoolean(values: string[]): ColumnType | null {
+  const distinct = new Set(values.map((v) => v.trim().toLowerCase()))
+  for (const [trueValue, falseValue] of BOOLEAN_PAIRS) {
+    if (![...distinct].every((v) => v === trueValue || v === falseValue)) continue
+    if (trueValue!.length === 1 && distinct.size < 2) return null
+    // Keep the casing used in the file for display
+    const seen = (lower: string) => values.find((v) => v.trim().toLowerCase() === lower)?.trim() ?? lower
+    return { kind: "boolean", trueValue: seen(trueValue!), falseValue: seen(falseValue!) }
+  }
+  return null
+}
+
+function inferCategorical(values: string[]): ColumnType | null {
+  if (values.length < CATEGORICAL_MIN_VALUES) return null
+  const counts = new Map<string, number>()
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1)
+  if (counts.size > CATEGORICAL_MAX_CATEGORIES || counts.size > values.length / 2) return null
+  const categories = [...counts].sort((a, b) => b[1] - a[1]).map(([value]) => value)
+  return { kind: "categorical", categories }
+}
+
+// The candidate most values fit; the first one wins ties, so defaults stay the common formats
+function bestFit<T>(candidates: readonly T[], fits: (candidate: T) => number): T {
+  let best = candidates[0] as T
+  let bestCount = -1
+  for (const candidate of candidates) {
+    const count = fits(candidate)
+    if (count > bestCount) {
+      best = candidate
+      bestCount = count
+    }
+  }
+  return best
+}
+
+// Like inferNumberFormat, but settles for the decimal separator most values parse under
+function fitNumberFormat(values: string[], parse: (value: string, d: DecimalSeparator) => ParsedNumber | null) {
+  const decimalSeparator = bestFit(DECIMAL_SEPARATORS, (d) => values.filter((v) => parse(v, d)).length)
+  const parsed = values.map((v) => parse(v, decimalSeparator)).filter((p): p is ParsedNumber => p !== null)
+  const thousandsSeparator = parsed.find((p) => p.thousandsSeparator)?.thousandsSeparator
+  const format: NumberFormat = thousandsSeparator ? { decimalSeparator, thousandsSeparator } : { decimalSeparator }
+  return { format, parsed }
+}
+
+/**
+ * Infers a column type from a sample of non-empty values. Every value must fit the type;
+ * candidates are tried from the most specific (boolean, numbers, dates) to free text.
+ */
+export function inferColumnType(sample: string[]): ColumnType {
+  if (sample.length === 0) return { kind: "unknown" }
+
+  const boolean = inferBoolean(sample)
+  if (boolean) return boolean
+
+  const numbers = inferNumberFormat(sample, parseNumber)
+  if (numbers) {
+    if (numbers.parsed.every((p) => p.integer)) return { kind: "integer", format: numbers.format }
+    return { kind: "decimal", format: numbers.format, scientific: numbers.parsed.some((p) => p.scientific) }
+  }
+
+  const percentages = inferNumberFormat(sample, parsePercentage)
+  if (percentages) return { kind: "percentage", format: percentages.format }
+
+  const currencies = sample.map(splitCurrency)
+  const symbol = currencies[0]?.symbol
+  if (symbol && currencies.every((c) => c?.symbol === symbol)) {
+    const amounts = inferNumberFormat(currencies.map((c) => c!.amount), parseNumber)
+    if (amounts) return { kind: "currency", symbol, format: amounts.format }
+  }
+
+  for (const { pattern } of DATE_PATTERNS) {
+    if (sample.every((v) => matchesDate(v, pattern))) return { kind: "date", pattern }
+  }
+
+  for (const { pattern } of DATE_PATTERNS) {
+    const parsed = sample.map((v) => parseDateTime(v, pattern))
+    if (parsed.some((p) => !p)) continue
+    return {
+      kind: "datetime",
+      pattern,
+      separator: parsed[0]!.separator,
+      seconds: parsed.some((p) => p!.seconds),
+      timeZone: parsed.some((p) => p!.timeZone),
+    }
+  }
+
+  if (sample.every((v) => EMAIL_PATTERN.test(v.trim()))) return { kind: "email" }
+  if (sample.every((v) => URL_PATTERN.test(v.trim()))) return { kind: "url" }
+
+  return inferCategorical(sample) ?? { kind: "string" }
+}
+
+/**
+ * Type of a given kind for a column the user retyped, with the format most of the sample values are written in.
+ * Values need not all fit (they are then reported as mismatches); without any fitting value, formats are the common ones.
+ */
+export function columnTypeOfKind(kind: ColumnTypeKind, sample: string[]): ColumnType {
+  const values = sample.map((v) => v.trim()).filter((v) => v !== "")
+  switch (kind) {
+    case "integer":
+      return { kind, format: fitNumberFormat(values, parseNumber).format }
+    case "decimal": {
+      const { format, parsed } = fitNumberFormat(values, parseNumber)
+      return { kind, format, scientific: parsed.some((p) => p.scientific) }
+    }
+    case "percentage":
+      return { kind, format: fitNumberFormat(values, parsePercentage).format }
+    case "currency": {
+      const currencies = values.map(splitCurrency).filter((c) => c !== null)
+      const symbol = bestFit(CURRENCY_SYMBOLS, (s) => currencies.filter((c) => c.symbol === s).length)
+      const amounts = currencies.filter((c) => c.symbol === symbol).map((c) => c.amount)
+      return { kind, symbol, format: fitNumberFormat(amounts, parseNumber).format }
+    }
+    case "boolean": {
+      const inferred = inferBoolean(values)
+      if (inferred) return inferred
+      const [trueValue, falseValue] = bestFit(BOOLEAN_PAIRS, (pair) => values.filter((v) => pair.includes(v.toLowerCase())).length)
+      return { kind, trueValue: trueValue!, falseValue: falseValue! }
+    }
+    case "date": {
+      const pattern = bestFit(DATE_PATTERNS, (p) => values.filter((v) => matchesDate(v, p.pattern)).length).pattern
+      return { kind, pattern }
+    }
+    case "datetime": {
+      const { pattern } = bestFit(DATE_PATTERNS, (p) => values.filter((v) => parseDateTime(v, p.pattern)).length)
+      const parsed = values.map((v) => parseDateTime(v, pattern)).filter((p) => p !== null)
+      return {
+        kind,
+        pattern,
+        separator: parsed[0]?.separator ?? "T",
+        seconds: parsed.some((p) => p.seconds),
+        timeZone: parsed.some((p) => p.timeZone),
+      }
+    }
+    case "categorical": {
+      const counts = new Map<string, number>()
+      for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1)
+      return { kind, categories: [...counts].sort((a, b) => b[1] - a[1]).map(([value]) => value) }
+    }
+    default:
+      return { kind }
+  }
+}
+
+function isNumberFormat(value: unknown): value is NumberFormat {
+  if (typeof value !== "object" || value === null) return false
+  const { decimalSeparator, thousandsSeparator } = value as Partial<NumberFormat>
+  if (!DECIMAL_SEPARATORS.includes(decimalSeparator!)) return false
+  return thousandsSeparator === undefined || ([",", ".", " "].includes(thousandsSeparator) && thousandsSeparator !== decimalSeparator)
+}
+
+/**
+ * Checks a column type received from a client: a known kind with the format fields it needs.
+ */
+export function isValidColumnType(value: unknown): value is ColumnType {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false
+  const type = value as Record<string, unknown>
+  const isText = (v: unknown) => typeof v === "string" && v.trim() !== "" && v.length <= 20
+  switch (type.kind) {
+    case "integer":
+    case "percentage":
+      return isNumberFormat(type.format)
+    case "decimal":
+      return isNumberFormat(type.format) && typeof type.scientific === "boolean"
+    case "currency":
+      return isNumberFormat(type.format) && isText(type.symbol)
+    case "boolean":
+      return isText(type.trueValue) && isText(type.falseValue)
+        && (type.trueValue as string).toLowerCase() !== (type.falseValue as string).toLowerCase()
+    case "date":
+      return DATE_REGEXES.has(type.pattern as DatePattern)
+    case "datetime":
+      return DATE_REGEXES.has(type.pattern as DatePattern)
+        && (type.separator === "T" || type.separator === " ")
+        && typeof type.seconds === "boolean"
+        && typeof type.timeZone === "boolean"
+    case "categorical":
+      return Array.isArray(type.categories)
+        && type.categories.length <= MAX_CATEGORIES
+        && type.categories.every((c) => typeof c === "string")
+    case "email":
+    case "url":
+    case "string":
+    case "unknown":
+      return true
+    default:
+      return false
+  }
+}
+
+/**
+ * Whether two column types are the same kind with the same format.
+ */
+export function sameColumnType(a: ColumnType, b: ColumnType) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Checks one non-empty value against a column type, format included (a `DD/MM/YYYY` column rejects `2024-01-31`).
+ * Free text, categorical and unknown columns accept anything.
+ */
+export function matchesColumnType(value: string, type: ColumnType) {
+  switch (type.kind) {
+    case "integer": {
+      const parsed = parseNumber(value, type.format.decimalSeparator)
+      return matchesNumberFormat(parsed, type.format) && parsed!.integer
+    }
+    case "decimal":
+      return matchesNumberFormat(parseNumber(value, type.format.decimalSeparator), type.format)
+    case "boolean": {
+      const v = value.trim().toLowerCase()
+      return v === type.trueValue.toLowerCase() || v === type.falseValue.toLowerCase()
+    }
+    case "date":
+      return matchesDate(value, type.pattern)
+    case "datetime":
+      return parseDateTime(value, type.pattern)?.separator === type.separator
+    case "email":
+      return EMAIL_PATTERN.test(value.trim())
+    case "url":
+      return URL_PATTERN.test(value.trim())
+    case "currency": {
+      const currency = splitCurrency(value)
+      return currency?.symbol === type.symbol
+        && matchesNumberFormat(parseNumber(currency.amount, type.format.decimalSeparator), type.format)
+    }
+    case "percentage":
+      return matchesNumberFormat(parsePercentage(value, type.format.decimalSeparator), type.format)
+    case "categorical":
+    case "string":
+    case "unknown":
+      return true
+  }
+}
+
+/**
+ * Numeric value of a cell, for statistics: the number for numeric kinds (`1.234,5` is 1234.5, `$5` is 5,
+ * `50%` is 50) and a UTC timestamp for dates. Null for other kinds, or when the value does not match the type.
+ */
+export function columnValueToNumber(value: string, type: ColumnType): number | null {
+  if (type.kind === "date") return parseDate(value, type.pattern)
+  if (type.kind === "datetime") {
+    const parsed = parseDateTime(value, type.pattern)
+    return parsed?.separator === type.separator ? parsed.timestamp : null
+  }
+  if (type.kind !== "integer" && type.kind !== "decimal" && type.kind !== "currency" && type.kind !== "percentage") {
+    return null
+  }
+  if (!matchesColumnType(value, type)) return null
+
+  const text = value.trim()
+  const { decimalSeparator } = type.format
+  if (type.kind === "currency") return toNumber(splitCurrency(text)!.amount, decimalSeparator)
+  if (type.kind === "percentage") return toNumber(text.slice(0, -1), decimalSeparator)
+  return toNumber(text, decimalSeparator)
+}
+
+/**
+ * Bound of a range filter on a column, comparable with `columnValueToNumber`: any plain number for numeric kinds,
+ * `YYYY-MM-DD` for dates, and `YYYY-MM-DD` or `YYYY-MM-DDTHH:mm[:ss]` for datetimes (in the column's time, UTC
+ * when it has a zone). Null when the bound cannot be read, or the column has no order.
+ */
+export function parseFilterBound(value: string, type: ColumnType): number | null {
+  switch (type.kind) {
+    case "integer":
+    case "decimal":
+    case "currency":
+    case "percentage":
+      return parseAnyNumber(value)
+    case "date":
+      return parseDate(value, "YYYY-MM-DD")
+    case "datetime":
+      return parseDateTime(value, "YYYY-MM-DD")?.timestamp ?? parseDate(value, "YYYY-MM-DD")
+    default:
+      return null
+  }
+}
+
+/**
+ * Number written in any format type inference recognizes (`1,234.5`, `1.234,5`, `1e5`), "." tried first as the
+ * decimal separator; null when the value is not a plain number. Used for contract ranges, where no column format is known.
+ */
+export function parseAnyNumber(value: string): number | null {
+  for (const decimalSeparator of DECIMAL_SEPARATORS) {
+    if (parseNumber(value, decimalSeparator)) return toNumber(value, decimalSeparator)
+  }
+  return null
+}
+
+/**
+ * Checks one non-empty value against a type required by a schema contract. Unlike `matchesColumnType`,
+ * no format is fixed: any number, boolean or date format type inference recognizes is accepted.
+ */
+export function matchesContractType(value: string, type: ContractValueType) {
+  switch (type) {
+    case "string":
+      return true
+    case "integer":
+      return DECIMAL_SEPARATORS.some((d) => parseNumber(value, d)?.integer)
+    case "number":
+      return parseAnyNumber(value) !== null
+    case "boolean": {
+      const v = value.trim().toLowerCase()
+      return BOOLEAN_PAIRS.some((pair) => pair.includes(v))
+    }
+    case "date":
+      return DATE_PATTERNS.some((p) => matchesDate(value, p.pattern))
+    case "datetime":
+      return DATE_PATTERNS.some((p) => parseDateTime(value, p.pattern) !== null)
+    case "email":
+      return EMAIL_PATTERN.test(value.trim())
+    case "url":
+      return URL_PATTERN.test(value.trim())
+  }
+}
+
+/**
+ * Value of a cell for typed exports: a number for numeric kinds (as `columnValueToNumber`), true or false for booleans,
+ * an ISO 8601 string for dates and datetimes (UTC when the column has a time zone, local time without one),
+ * and null for an empty cell. Values that do not match the type are kept as written, so nothing is lost.
+ */
+export function toTypedValue(value: string, type: ColumnType): string | number | boolean | null {
+  const text = value.trim()
+  if (text === "") return null
+  switch (type.kind) {
+    case "integer":
+    case "decimal":
+    case "currency":
+    case "percentage":
+      return columnValueToNumber(text, type) ?? value
+    case "boolean":
+      if (text.toLowerCase() === type.trueValue.toLowerCase()) return true
+      if (text.toLowerCase() === type.falseValue.toLowerCase()) return false
+      return value
+    case "date": {
+      const timestamp = parseDate(text, type.pattern)
+      return timestamp === null ? value : new Date(timestamp).toISOString().slice(0, 10)
+    }
+    case "datetime": {
+      const timestamp = columnValueToNumber(text, type)
+      if (timestamp === null) return value
+      const iso = new Date(timestamp).toISOString()
+      return type.timeZone ? iso : iso.slice(0, -1)
+    }
+    default:
+      return value
+  }
+}
+
+/**
+ * Short label for type badges, with the format when it is not the obvious one: `decimal (1.234,5)`, `date (DD/MM/YYYY)`.
+ */
+export function describeColumnType(type: ColumnType) {
+  switch (type.kind) {
+    case "integer":
+      return type.format.thousandsSeparator ? `integer (1${type.format.thousandsSeparator}000)` : "integer"
+    case "decimal":
+      if (type.scientific) return "decimal (1e5)"
+      return type.format.decimalSeparator === "," ? "decimal (1,5)" : "decimal"
+    case "boolean":
+      return `boolean (${type.trueValue}/${type.falseValue})`
+    case "date":
+      return `date (${type.pattern})`
+    case "datetime":
+      return `datetime (${type.pattern}${type.separator}HH:mm${type.seconds ? ":ss" : ""}${type.timeZone ? "Z" : ""})`
+    case "currency":
+      return `currency (${type.symbol})`
+    case "categorical":
+      return `categorical (${type.categories.length})`
+    default:
+      return type.kind
+  }
+}
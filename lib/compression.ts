@@ -0,0 +1,208 @@
+// Compressed uploads (.csv.gz and single-file .zip), shared by browser validation and finalize.
+// Only the container is read here; inflating is left to DecompressionStream in the browser and zlib on the server.
+
+import type { CompressionFormat } from "@/lib/types"
+
+/** Reads bytes [start, end) of the compressed file */
+export type ReadRange = (start: number, end: number) => Promise<Uint8Array>
+
+export type ZipEntry = {
+  name: string
+  method: "stored" | "deflate"
+  /** Where the entry's compressed bytes start in the zip file */
+  dataOffset: number
+  compressedSize: number
+  uncompressedSize: number
+}
+
+const GZIP_MAGIC = [0x1f, 0x8b]
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04]
+
+const EOCD_SIGNATURE = 0x06054b50
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const EOCD_SIZE = 22
+const MAX_ZIP_COMMENT = 0xffff
+const LOCAL_HEADER_SIZE = 30
+const CENTRAL_ENTRY_SIZE = 46
+const ZIP64_EXTRA_ID = 0x0001
+const ZIP32_MAX = 0xffffffff
+// More entries than this cannot be "one CSV plus metadata"; the central directory is not read
+const MAX_ZIP_ENTRIES = 16
+
+function startsWith(bytes: Uint8Array, magic: number[]) {
+  return magic.every((b, i) => bytes[i] === b)
+}
+
+/**
+ * Recognizes a gzip or zip file from its first 4 bytes; null for anything else (plain text).
+ */
+export function detectCompression(head: Uint8Array): CompressionFormat | null {
+  if (startsWith(head, GZIP_MAGIC)) return "gzip"
+  if (startsWith(head, ZIP_MAGIC)) return "zip"
+  return null
+}
+
+// macOS archives carry a __MACOSX/ copy of resource forks; directories have no data
+function isMetadataEntry(name: string) {
+  return name.endsWith("/") || name.startsWith("__MACOSX/")
+}
+
+// Sizes and offset that overflow 32 bits are in the zip64 extra field, in this order, only when overflowed
+function readZip64Extra(view: DataView, start: number, end: number, fields: { value: number }[]) {
+  for (let at = start; at + 4 <= end; ) {
+    const id = view.getUint16(at, true)
+    const size = view.getUint16(at + 2, true)
+    if (id === ZIP64_EXTRA_ID) {
+      let p = at + 4
+      for (const field of fields) {
+        if (field.value !== ZIP32_MAX) continue
+        if (p + 8 > at + 4 + size) throw new Error("The zip file is damaged (bad zip64 field)")
+        field.value = Number(view.getBigUint64(p, true))
+        p += 8
+      }
+      return
+    }
+    at += 4 + size
+  }
+}
+
+/**
+ * Finds the one file in a zip archive from its central directory, ignoring directories and `__MACOSX/` entries.
+ * Throws a message fit for users when the archive holds no file or several, is encrypted,
+ * or uses a compression method other than stored or deflate.
+ */
+export async function locateZipEntry(readRange: ReadRange, size: number): Promise<ZipEntry> {
+  const tailStart = Math.max(0, size - EOCD_SIZE - MAX_ZIP_COMMENT)
+  const tail = await readRange(tailStart, size)
+  const tailView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength)
+  let eocd = -1
+  for (let i = tail.length - EOCD_SIZE; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) throw new Error("The zip file is damaged (no central directory)")
+
+  const entryCount = tailView.getUint16(eocd + 10, true)
+  const directorySize = tailView.getUint32(eocd + 12, true)
+  const directoryOffset = tailView.getUint32(eocd + 16, true)
+  if (entryCount > MAX_ZIP_ENTRIES) throw new Error("The zip file must contain a single CSV file")
+  if (directoryOffset === ZIP32_MAX || directoryOffset + directorySize > size) {
+    throw new Error("The zip file is damaged or uses an unsupported zip64 layout")
+  }
+
+  const directory = await readRange(directoryOffset, directoryOffset + directorySize)
+  const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength)
+  const decoder = new TextDecoder()
+  const files: (ZipEntry & { flags: number; methodCode: number; localOffset: number })[] = []
+
+  for (let at = 0, n = 0; n < entryCount; n++) {
+    if (at + CENTRAL_ENTRY_SIZE > directory.length || view.getUint32(at, true) !== CENTRAL_ENTRY_SIGNATURE) {
+      throw new Error("The zip file is damaged (bad central directory)")
+    }
+    const flags = view.getUint16(at + 8, true)
+    const methodCode = view.getUint16(at + 10, true)
+    const compressed = { value: view.getUint32(at + 20, true) }
+    const uncompressed = { value: view.getUint32(at + 24, true) }
+    const nameLength = view.getUint16(at + 28, true)
+    const extraLength = view.getUint16(at + 30, true)
+    const commentLength = view.getUint16(at + 32, true)
+    const localOffset = { value: view.getUint32(at + 42, true) }
+    const nameStart = at + CENTRAL_ENTRY_SIZE
+    const name = decoder.decode(directory.subarray(nameStart, nameStart + nameLength))
+    readZip64Extra(view, nameStart + nameLength, nameStart + nameLength + extraLength, [uncompressed, compressed, localOffset])
+    at = nameStart + nameLength + extraLength + commentLength
+
+    if (isMetadataEntry(name)) continue
+    files.push({
+      name,
+      method: methodCode === 0 ? "stored" : "deflate",
+      dataOffset: 0,
+      compressedSize: compressed.value,
+      uncompressedSize: uncompressed.value,
+      flags,
+      methodCode,
+      localOffset: localOffset.value,
+    })
+  }
+
+  if (files.length !== 1) {
+    throw new Error(files.length === 0 ? "The zip file contains no file" : "The zip file must contain a single CSV file")
+  }
+  const { flags, methodCode, localOffset, ...entry } = files[0]!
+  if (flags & 1) throw new Error("The zip file is encrypted")
+  if (methodCode !== 0 && methodCode !== 8) throw new Error("The zip file uses an unsupported compression method")
+
+  // The local header repeats the name with its own extra field, so the data offset is only known from it
+  const local = await readRange(localOffset, localOffset + LOCAL_HEADER_SIZE)
+  const localView = new DataView(local.buffer, local.byteOffset, local.byteLength)
+  if (local.length < LOCAL_HEADER_SIZE || localView.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error("The zip file is damaged (bad local header)")
+  }
+  const dataOffset = localOffset + LOCAL_HEADER_SIZE + localView.getUint16(26, true) + localView.getUint16(28, true)
+  if (dataOffset + entry.compressedSize > size) throw new Error("The zip file is truncated")
+
+  return { ...entry, dataOffset }
+}
+
+export type CsvFileSource = {
+  compression: CompressionFormat | null
+  entryName?: string
+  /** Bytes read to decompress the whole file: the file size, or the size of the zip entry's data */
+  compressedBytes: number
+  /** A fresh stream of the decompressed bytes; `onRead` gets the number of compressed bytes read so far */
+  open(onRead?: (bytesRead: number) => void): ReadableStream<Uint8Array>
+}
+
+function countReads(stream: ReadableStream<Uint8Array>, onRead?: (bytesRead: number) => void) {
+  if (!onRead) return stream
+  let bytesRead = 0
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytesRead += chunk.length
+      onRead(bytesRead)
+      controller.enqueue(chunk)
+    },
+  }))
+}
+
+// DecompressionStream is typed to accept any BufferSource, which TypeScript will not narrow to Uint8Array on its own
+function decompress(stream: ReadableStream<Uint8Array>, format: "gzip" | "deflate-raw") {
+  return stream.pipeThrough(new DecompressionStream(format) as ReadableWritablePair<Uint8Array, Uint8Array>)
+}
+
+/**
+ * Opens a file picked in the browser as a stream of CSV bytes, decompressing gzip and single-file zip
+ * archives with DecompressionStream. Throws a message fit for users when the archive cannot be read.
+ */
+export async function openCsvFile(file: Blob): Promise<CsvFileSource> {
+  const compression = detectCompression(new Uint8Array(await file.slice(0, 4).arrayBuffer()))
+  if (!compression) {
+    return { compression, compressedBytes: file.size, open: (onRead) => countReads(file.stream(), onRead) }
+  }
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("This browser cannot read compressed files; please upload the CSV file uncompressed")
+  }
+
+  if (compression === "gzip") {
+    return {
+      compression,
+      compressedBytes: file.size,
+      open: (onRead) => decompress(countReads(file.stream(), onRead), "gzip"),
+    }
+  }
+
+  const entry = await locateZipEntry(async (start, end) => new Uint8Array(await file.slice(start, end).arrayBuffer()), file.size)
+  const data = file.slice(entry.dataOffset, entry.dataOffset + entry.compressedSize)
+  return {
+    compression,
+    entryName: entry.name,
+    compressedBytes: entry.compressedSize,
+    open: (onRead) => {
+      const stream = countReads(data.stream(), onRead)
+      return entry.method === "deflate" ? decompress(stream, "deflate-raw") : stream
+    },
+  }
+}
@@ -0,0 +1,178 @@
+import { createCsvParser, readCsvSample, type CsvRecord, type CsvSource } from "@/lib/csv-parser"
+import { MAX_HEADER_ROW } from "@/lib/headers"
+import type { CsvDialect, TextEncodingName } from "@/lib/types"
+
+export const DELIMITER_OPTIONS = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+  { value: "|", label: "Pipe (|)" },
+]
+
+export const QUOTE_OPTIONS = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+]
+
+export const DEFAULT_DIALECT: CsvDialect = {
+  delimiter: ",",
+  quote: '"',
+  escape: "double",
+  hasHeader: true,
+  lineEnding: "\n",
+}
+
+// Enough for a few hundred rows of a typical file; sniffing never reads further
+export const DIALECT_SAMPLE_BYTES = 64 * 1024
+const SAMPLE_RECORDS = 100
+
+const NUMBER_PATTERN = /^[-+]?(\d+([.,]\d+)?|[.,]\d+)([eE][-+]?\d+)?$/
+
+function parseSample(sample: string, dialect: Pick<CsvDialect, "delimiter" | "quote" | "escape">) {
+  const parser = createCsvParser(dialect)
+  return parser.push(sample).slice(0, SAMPLE_RECORDS)
+}
+
+// Drops the trailing line, which a byte-limited sample may have cut mid-record
+function trimToLastLine(sample: string) {
+  const lastBreak = Math.max(sample.lastIndexOf("\n"), sample.lastIndexOf("\r"))
+  return lastBreak > 0 ? sample.slice(0, lastBreak + 1) : sample + "\n"
+}
+
+function detectQuote(sample: string) {
+  // Count quotes opening a field: at the start of a line or right after a candidate delimiter
+  const opening = (q: string) => sample.match(new RegExp(`(^|[\\r\\n,;\\t|])${q}`, "g"))?.length ?? 0
+  return opening("'") > opening('"') ? "'" : '"'
+}
+
+function detectEscape(sample: string, quote: string): CsvDialect["escape"] {
+  const backslashed = sample.split(`\\${quote}`).length - 1
+  const doubled = sample.split(quote + quote).length - 1
+  return backslashed > doubled ? "backslash" : "double"
+}
+
+function detectLineEnding(sample: string): CsvDialect["lineEnding"] {
+  const i = sample.search(/[\r\n]/)
+  if (i === -1 || sample[i] === "\n") return "\n"
+  return sample[i + 1] === "\n" ? "\r\n" : "\r"
+}
+
+/**
+ * Scores a delimiter by how consistently it splits the sample: the share of records having the
+ * most common field count. A delimiter that never splits anything scores 0.
+ */
+function scoreDelimiter(records: CsvRecord[]) {
+  const counts = new Map<number, number>()
+  for (const r of records) counts.set(r.length, (counts.get(r.length) ?? 0) + 1)
+  let fields = 1
+  let frequency = 0
+  for (const [count, n] of counts) {
+    if (n > frequency || (n === frequency && count > fields)) {
+      fields = count
+      frequency = n
+    }
+  }
+  return { consistency: fields > 1 ? frequency / records.length : 0, fields }
+}
+
+function isNumber(value: string) {
+  return NUMBER_PATTERN.test(value.trim())
+}
+
+/**
+ * Guesses whether the first record is a header by comparing it with the rows below, column by column
+ * (in the spirit of Python's csv.Sniffer): a text cell above a numeric column, or a cell whose length
+ * differs from a fixed-length column, votes for a header; a numeric cell above a numeric column votes against.
+ * Empty or duplicated names also vote against. Undecided samples are assumed to have a header.
+ */
+function detectHeader(records: CsvRecord[]) {
+  const [header, ...rows] = records
+  if (!header || rows.length === 0) return true
+
+  let votes = 0
+  const names = header.map((h) => h.trim())
+  if (names.some((n) => n === "") || new Set(names).size < names.length) votes--
+
+  for (let c = 0; c < header.length; c++) {
+    const values = rows.map((r) => r[c] ?? "").filter((v) => v !== "")
+    if (values.length === 0) continue
+    const cell = header[c]!
+
+    if (values.every(isNumber)) {
+      votes += isNumber(cell) ? -1 : 1
+      continue
+    }
+    const length = values[0]!.length
+    if (values.every((v) => v.length === length)) votes += cell.length === length ? -1 : 1
+  }
+
+  return votes >= 0
+}
+
+/**
+ * Index of the first record with the dominant field count: title or note lines above a table
+ * (`Report for March`) have fewer fields and are skipped. Only the rows offered in the wizard are considered.
+ */
+function detectHeaderRow(records: CsvRecord[], fields: number) {
+  const first = records.findIndex((r) => r.length === fields)
+  return first > 0 && first < MAX_HEADER_ROW ? first : 0
+}
+
+/**
+ * Detects the dialect of a delimited text sample: delimiter (comma, semicolon, tab or pipe), quote
+ * character, escape style, header presence and row, and line ending.
+ * Falls back to RFC 4180 defaults when the sample gives no signal.
+ */
+export function sniffCsvDialect(sample: string): CsvDialect {
+  if (sample.trim() === "") return DEFAULT_DIALECT
+
+  const text = trimToLastLine(sample)
+  const quote = detectQuote(text)
+  const escape = detectEscape(text, quote)
+
+  let best = { delimiter: DEFAULT_DIALECT.delimiter, consistency: 0, fields: 1, records: [] as CsvRecord[] }
+  for (const { value: delimiter } of DELIMITER_OPTIONS) {
+    const records = parseSample(text, { delimiter, quote, escape })
+    const { consistency, fields } = scoreDelimiter(records)
+    if (consistency > best.consistency || (consistency === best.consistency && fields > best.fields)) {
+      best = { delimiter, consistency, fields, records }
+    }
+  }
+  const records = best.records.length > 0 ? best.records : parseSample(text, { delimiter: best.delimiter, quote, escape })
+  const headerRow = detectHeaderRow(records, best.fields)
+
+  return {
+    delimiter: best.delimiter,
+    quote,
+    escape,
+    hasHeader: detectHeader(records.slice(headerRow)),
+    headerRow,
+    lineEnding: detectLineEnding(text),
+  }
+}
+
+/**
+ * Reads the start of a byte stream and sniffs its dialect.
+ */
+export async function sniffCsvDialectFromStream(source: CsvSource, encoding?: TextEncodingName) {
+  return sniffCsvDialect(await readCsvSample(source, DIALECT_SAMPLE_BYTES, encoding))
+}
+
+/**
+ * Checks a dialect received from a client: known delimiter and quote, a valid escape and line ending,
+ * and a header row within the rows offered in the wizard.
+ */
+export function isValidDialect(value: unknown): value is CsvDialect {
+  const d = value as Partial<CsvDialect> | null
+  return typeof d === "object" && d !== null
+    && DELIMITER_OPTIONS.some((o) => o.value === d.delimiter)
+    && QUOTE_OPTIONS.some((o) => o.value === d.quote)
+    && (d.escape === "double" || d.escape === "backslash")
+    && typeof d.hasHeader === "boolean"
+    && (d.headerRow === undefined || (Number.isInteger(d.headerRow) && d.headerRow >= 0 && d.headerRow < MAX_HEADER_ROW))
+    && (d.lineEnding === "\r\n" || d.lineEnding === "\n" || d.lineEnding === "\r")
+}
+
+export function describeDelimiter(delimiter: string) {
+  return DELIMITER_OPTIONS.find((o) => o.value === delimiter)?.label ?? JSON.stringify(delimiter)
+}
@@ -0,0 +1,383 @@
+// RFC 4180 CSV parser shared by the browser (validation) and the server (finalize).
+// Records are split on unquoted line breaks only, so quoted fields may contain delimiters, CRLF/LF and "" escapes.
+
+import type { CsvDialect, TextEncodingName } from "@/lib/types"
+
+export type CsvRecord = string[]
+
+/** The dialect fields that change how text is split; defaults are RFC 4180 (`,`, `"`, `""`) */
+export type CsvParseDialect = Partial<Pick<CsvDialect, "delimiter" | "quote" | "escape">>
+
+export type CsvSource = AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>
+
+export type CsvStreamOptions = {
+  /**
+   * Stop after this many bytes. The record cut by the limit is dropped, so every yielded record is complete.
+   */
+  maxBytes?: number
+  dialect?: CsvParseDialect
+  /** Defaults to UTF-8; a BOM is skipped */
+  encoding?: TextEncodingName
+}
+
+export type CsvRecordPosition = {
+  /** 1-based physical line the record starts on; line feeds inside quoted fields are counted */
+  line: number
+  /** The record's text as written, without its line break, cut to RAW_TEXT_LIMIT characters */
+  raw: string
+}
+
+export type PositionedCsvRecord = CsvRecordPosition & { record: CsvRecord }
+
+/** A record with the byte offset it starts at in the source */
+export type OffsetCsvRecord = { record: CsvRecord; offset: number }
+
+export type LocatedCsvRecord = PositionedCsvRecord & OffsetCsvRecord
+
+export interface CsvParser {
+  /** Feeds decoded text and returns the records it completed */
+  push(text: string): CsvRecord[]
+  /** Flushes the last record, which may lack a trailing line break */
+  end(): CsvRecord[]
+  /** Positions of the records returned by the last `push` or `end`, in order; empty unless created with `positions: true` */
+  positions(): CsvRecordPosition[]
+  /** Offsets (as counted by `measure`) the records returned by the last `push` or `end` start at; empty without `measure` */
+  offsets(): number[]
+}
+
+export type CsvParserOptions = {
+  /** Track the line and raw text of every record, for error reports. Off by default, as it slices the text per record */
+  positions?: boolean
+  /** Track where every record starts, counting `text[from..to)` with this function (e.g. its encoded byte length) */
+  measure?: (text: string, from: number, to: number) => number
+}
+
+const BACKSLASH = "\\"
+
+// Raw text kept per record when positions are tracked; an unterminated quote would otherwise hold the rest of the file
+const RAW_TEXT_LIMIT = 1000
+
+function countLineFeeds(text: string, from: number, to: number) {
+  let count = 0
+  for (let nl = text.indexOf("\n", from); nl !== -1 && nl < to; nl = text.indexOf("\n", nl + 1)) count++
+  return count
+}
+
+/**
+ * Incremental parser: text can be pushed in arbitrary pieces, even splitting a CRLF or an escape.
+ * Blank lines are skipped. Malformed input is read leniently: text after a closing quote is kept
+ * in the field, a stray quote inside an unquoted field is literal, and an unterminated quote runs to the end.
+ * With `escape: "backslash"`, a backslash makes the next character literal, inside or outside quotes.
+ */
+export function createCsvParser(
+  { delimiter = ",", quote = '"', escape = "double" }: CsvParseDialect = {},
+  { positions: trackPositions = false, measure }: CsvParserOptions = {}
+): CsvParser {
+  const backslashEscapes = escape === "backslash"
+  let record: string[] = []
+  let field = ""
+  let fieldQuoted = false
+  let inQuotes = false
+  // A quote seen inside a quoted field: either the first half of "" or the closing quote
+  let quotePending = false
+  // A CR ended the last record; a following LF belongs to it
+  let afterCR = false
+  // A backslash was seen; the next character is taken as is
+  let escapePending = false
+  // Position tracking: current line, line the current record started on, and its text from earlier pushes
+  let line = 1
+  let recordLine = 1
+  let rawCarry = ""
+  // Index in the text being pushed where the current record starts (0 when it started in an earlier push)
+  let rawFrom = 0
+  let outPositions: CsvRecordPosition[] = []
+  // Offset tracking: text before `measuredTo` in the current push is counted in `measured`; the current record starts at `recordStart`
+  let measured = 0
+  let measuredTo = 0
+  let recordStart = 0
+  let outOffsets: number[] = []
+
+  // Next character that ends a run of quoted text
+  function nextQuoteSpecial(text: string, from: number) {
+    const q = text.indexOf(quote, from)
+    if (!backslashEscapes) return q
+    const b = text.indexOf(BACKSLASH, from)
+    return b !== -1 && (q === -1 || b < q) ? b : q
+  }
+
+  function endField() {
+    record.push(field)
+    field = ""
+    fieldQuoted = false
+  }
+
+  // `end` is the index in `text` where the record's text stops
+  function endRecord(out: CsvRecord[], text: string, end: number) {
+    const blank = record.length === 0 && field === "" && !fieldQuoted
+    endField()
+    if (!blank) {
+      out.push(record)
+      if (trackPositions) {
+        const raw = rawCarry.length >= RAW_TEXT_LIMIT
+          ? rawCarry
+          : rawCarry + text.slice(rawFrom, Math.min(end, rawFrom + RAW_TEXT_LIMIT - rawCarry.length))
+        outPositions.push({ line: recordLine, raw })
+      }
+      if (measure) outOffsets.push(recordStart)
+    }
+    record = []
+  }
+
+  // Counts the text of the current push up to `index`, and makes the next record start there
+  function startRecordAt(text: string, index: number) {
+    if (!measure) return
+    measured += measure(text, measuredTo, index)
+    measuredTo = index
+    recordStart = measured
+  }
+
+  // An unquoted line break at `at` ends the record; the next one starts after it
+  function lineBreak(out: CsvRecord[], text: string, at: number) {
+    endRecord(out, text, at)
+    line++
+    recordLine = line
+    rawCarry = ""
+    rawFrom = at + 1
+    startRecordAt(text, at + 1)
+  }
+
+  function push(text: string) {
+    const out: CsvRecord[] = []
+    let i = 0
+    outPositions = []
+    outOffsets = []
+    rawFrom = 0
+    measuredTo = 0
+
+    while (i < text.length) {
+      if (escapePending) {
+        escapePending = false
+        if (text[i] === "\n") line++
+        field += text[i]
+        i++
+        continue
+      }
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false
+          if (text[i] === quote) {
+            field += quote
+            i++
+            continue
+          }
+          inQuotes = false
+          continue
+        }
+        const special = nextQuoteSpecial(text, i)
+        if (special === -1) {
+          if (trackPositions) line += countLineFeeds(text, i, text.length)
+          field += text.slice(i)
+          break
+        }
+        if (trackPositions) line += countLineFeeds(text, i, special)
+        field += text.slice(i, special)
+        i = special + 1
+        if (text[special] === BACKSLASH) escapePending = true
+        else if (backslashEscapes) inQuotes = false
+        else quotePending = true
+        continue
+      }
+
+      const ch = text[i]!
+      i++
+      if (afterCR) {
+        afterCR = false
+        if (ch === "\n") {
+          rawFrom = i
+          startRecordAt(text, i)
+          continue
+        }
+      }
+
+      if (ch === delimiter) endField()
+      else if (backslashEscapes && ch === BACKSLASH) escapePending = true
+      else if (ch === "\n") lineBreak(out, text, i - 1)
+      else if (ch === "\r") {
+        lineBreak(out, text, i - 1)
+        afterCR = true
+      } else if (ch === quote && field === "" && !fieldQuoted) {
+        inQuotes = true
+        fieldQuoted = true
+      } else field += ch
+    }
+
+    if (trackPositions && rawCarry.length < RAW_TEXT_LIMIT) {
+      rawCarry += text.slice(rawFrom, rawFrom + RAW_TEXT_LIMIT - rawCarry.length)
+    }
+    if (measure) measured += measure(text, measuredTo, text.length)
+    return out
+  }
+
+  function end() {
+    const out: CsvRecord[] = []
+    outPositions = []
+    outOffsets = []
+    rawFrom = 0
+    inQuotes = false
+    quotePending = false
+    afterCR = false
+    escapePending = false
+    if (record.length > 0 || field !== "" || fieldQuoted) endRecord(out, "", 0)
+    return out
+  }
+
+  return { push, end, positions: () => outPositions, offsets: () => outOffsets }
+}
+
+async function* readStream(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader()
+  let done = false
+  try {
+    while (!done) {
+      const result = await reader.read()
+      done = result.done
+      if (result.value) yield result.value
+    }
+  } finally {
+    if (!done) await reader.cancel().catch(() => undefined)
+    reader.releaseLock()
+  }
+}
+
+function toAsyncIterable(source: CsvSource) {
+  return source instanceof ReadableStream ? readStream(source) : source
+}
+
+/**
+ * Decodes up to `maxBytes` from the start of a byte stream, for sniffing. A character cut by the limit is dropped.
+ */
+export async function readCsvSample(source: CsvSource, maxBytes: number, encoding: TextEncodingName = "utf-8") {
+  const decoder = new TextDecoder(encoding)
+  let text = ""
+  let bytesRead = 0
+  for await (const chunk of toAsyncIterable(source)) {
+    const bytes = chunk.subarray(0, maxBytes - bytesRead)
+    bytesRead += bytes.length
+    text += decoder.decode(bytes, { stream: true })
+    if (bytesRead >= maxBytes) break
+  }
+  return text
+}
+
+// Decodes the source and yields the records completed by each piece of text, as batches
+async function* parseBatches(parser: CsvParser, source: CsvSource, { maxBytes = Infinity, encoding = "utf-8" }: CsvStreamOptions) {
+  const decoder = new TextDecoder(encoding)
+  const chunks = toAsyncIterable(source)
+  let bytesRead = 0
+
+  for await (const chunk of chunks) {
+    const bytes = chunk.length > maxBytes - bytesRead ? chunk.subarray(0, maxBytes - bytesRead) : chunk
+    bytesRead += bytes.length
+    yield parser.push(decoder.decode(bytes, { stream: true }))
+    if (bytes.length < chunk.length) return
+  }
+
+  yield parser.push(decoder.decode())
+  yield parser.end()
+}
+
+/**
+ * Parses CSV bytes into records as they arrive, keeping only the current record in memory.
+ * Breaking out of the loop early releases (cancels) the underlying stream.
+ */
+export async function* parseCsvStream(source: CsvSource, options: CsvStreamOptions = {}) {
+  for await (const records of parseBatches(createCsvParser(options.dialect), source, options)) yield* records
+}
+
+/**
+ * Like `parseCsvStream`, with the line and raw text of every record.
+ */
+export async function* parseCsvStreamWithPositions(source: CsvSource, options: CsvStreamOptions = {}): AsyncGenerator<PositionedCsvRecord> {
+  const parser = createCsvParser(options.dialect, { positions: true })
+  for await (const records of parseBatches(parser, source, options)) {
+    const positions = parser.positions()
+    for (let i = 0; i < records.length; i++) yield { record: records[i]!, ...positions[i]! }
+  }
+}
+
+// Byte order marks the decoder drops from the start of the text, by encoding
+const BYTE_ORDER_MARKS: Partial<Record<TextEncodingName, number[]>> = {
+  "utf-8": [0xef, 0xbb, 0xbf],
+  "utf-16le": [0xff, 0xfe],
+  "utf-16be": [0xfe, 0xff],
+}
+
+function utf8Length(text: string, from: number, to: number) {
+  let bytes = 0
+  for (let i = from; i < to; i++) {
+    const code = text.charCodeAt(i)
+    // A surrogate pair is 4 bytes, counted on its first half
+    if (code < 0x80) bytes += 1
+    else if (code < 0x800) bytes += 2
+    else if (code >= 0xd800 && code <= 0xdbff) bytes += 4
+    else if (code < 0xdc00 || code > 0xdfff) bytes += 3
+  }
+  return bytes
+}
+
+function encodedLength(encoding: TextEncodingName) {
+  if (encoding === "utf-8") return utf8Length
+  if (encoding === "windows-1252") return (_text: string, from: number, to: number) => to - from
+  return (_text: string, from: number, to: number) => (to - from) * 2
+}
+
+/**
+ * Like `parseCsvStream`, with the byte offset every record starts at in the source (a BOM included), so a later read
+ * can start at that record. Offsets are exact when the bytes decode without replacement characters: re-encoding the
+ * text gives back the bytes it came from.
+ */
+export async function* parseCsvStreamWithOffsets(source: CsvSource, options: CsvStreamOptions = {}): AsyncGenerator<OffsetCsvRecord> {
+  for await (const { records, offsets } of parseOffsetBatches(source, options, false)) {
+    for (let i = 0; i < records.length; i++) yield { record: records[i]!, offset: offsets[i]! }
+  }
+}
+
+/**
+ * Like `parseCsvStreamWithOffsets`, with the line and raw text of every record too, for a pass that both reports
+ * and indexes records.
+ */
+export async function* parseCsvStreamWithLocations(source: CsvSource, options: CsvStreamOptions = {}): AsyncGenerator<LocatedCsvRecord> {
+  for await (const { records, offsets, positions } of parseOffsetBatches(source, options, true)) {
+    for (let i = 0; i < records.length; i++) yield { record: records[i]!, offset: offsets[i]!, ...positions[i]! }
+  }
+}
+
+// Batches of records with the byte offsets they start at (a BOM included), and their positions when tracked
+async function* parseOffsetBatches(source: CsvSource, options: CsvStreamOptions, positions: boolean) {
+  const encoding = options.encoding ?? "utf-8"
+  const parser = createCsvParser(options.dialect, { positions, measure: encodedLength(encoding) })
+  // The first bytes of the source, as many as the BOM has; complete by the time the first record is decoded
+  const bom = BYTE_ORDER_MARKS[encoding] ?? []
+  const head: number[] = []
+
+  const bytes = async function* () {
+    for await (const chunk of toAsyncIterable(source)) {
+      for (let i = 0; i < chunk.length && head.length < bom.length; i++) head.push(chunk[i]!)
+      yield chunk
+    }
+  }
+
+  for await (const records of parseBatches(parser, bytes(), options)) {
+    const bomBytes = head.length === bom.length && bom.every((b, i) => head[i] === b) ? bom.length : 0
+    yield { records, offsets: parser.offsets().map((offset) => offset + bomBytes), positions: parser.positions() }
+  }
+}
+
+/**
+ * Writes one field of RFC 4180 CSV (`,` delimiter): quoted, with `""` escapes, when it contains a quote, comma or line break.
+ */
+export function formatCsvField(value: string | number) {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,62 @@
+// Browser side of background validation: runs validateCsvFile in a Web Worker so a 2GB file does not freeze the tab.
+// The worker also hashes the file, so the upload does not hash it on the main thread.
+
+import { validateCsvFile, type ValidationOptions, type ValidationResult } from "@/lib/csv"
+import type { ColumnRenames, CsvDialect, SchemaContract } from "@/lib/types"
+
+export type CsvValidationRequest = {
+  file: File
+  dialect?: CsvDialect
+  contract?: SchemaContract
+  columnRenames?: ColumnRenames
+}
+
+export type CsvValidationMessage =
+  | { type: "progress"; bytesRead: number; totalBytes: number }
+  | { type: "result"; result: ValidationResult }
+  | { type: "error"; error: string }
+
+/**
+ * Validates a CSV file in a Web Worker, with the same result as `validateCsvFile` plus the `sha256` of a valid file.
+ * Aborting `signal` terminates the worker and rejects with an AbortError.
+ * Where workers are unavailable, validation runs on the calling thread, without `sha256`.
+ */
+export function validateCsvFileInWorker(
+  file: File,
+  dialect?: CsvDialect,
+  { onProgress, signal, contract, columnRenames }: ValidationOptions = {}
+): Promise<ValidationResult> {
+  if (typeof Worker === "undefined") return validateCsvFile(file, dialect, { onProgress, signal, contract, columnRenames })
+  if (signal?.aborted) return Promise.reject(signal.reason)
+
+  const worker = new Worker(new URL("./csv-validation.worker.ts", import.meta.url))
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener("abort", onAbort)
+    }
+    const onAbort = () => {
+      finish()
+      reject(signal!.reason)
+    }
+    signal?.addEventListener("abort", onAbort)
+
+    worker.onmessage = (event: MessageEvent<CsvValidationMessage>) => {
+      const message = event.data
+      if (message.type === "progress") {
+        onProgress?.(message.bytesRead, message.totalBytes)
+        return
+      }
+      finish()
+      if (message.type === "result") resolve(message.result)
+      else reject(new Error(message.error))
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || "The validation worker failed to start"))
+    }
+
+    const request: CsvValidationRequest = { file, dialect, contract, columnRenames }
+    worker.postMessage(request)
+  })
+}
@@ -0,0 +1,45 @@
+// Runs `validateCsvFile` off the main thread; started by `validateCsvFileInWorker`.
+// The whole-file SHA-256 that finalize checks is computed in the same worker, while the file is validated.
+
+import { validateCsvFile } from "@/lib/csv"
+import type { CsvValidationMessage, CsvValidationRequest } from "@/lib/csv-validation"
+import { hashBlob } from "@/lib/sha256"
+
+// Progress is posted at most this often, not once per chunk read
+const PROGRESS_INTERVAL_MS = 100
+
+// The project compiles against the DOM lib; the worker scope has the same postMessage/onmessage surface as a Worker
+const scope = self as unknown as Worker
+
+function post(message: CsvValidationMessage) {
+  scope.postMessage(message)
+}
+
+scope.onmessage = async (event: MessageEvent<CsvValidationRequest>) => {
+  const { file, dialect, contract, columnRenames } = event.data
+  let lastProgressAt = 0
+  const hashAbort = new AbortController()
+  const hash = hashBlob(file, hashAbort.signal)
+  hash.catch(() => undefined)
+  try {
+    const result = await validateCsvFile(file, dialect, {
+      contract,
+      columnRenames,
+      onProgress: (bytesRead, totalBytes) => {
+        const now = Date.now()
+        if (now - lastProgressAt < PROGRESS_INTERVAL_MS && bytesRead < totalBytes) return
+        lastProgressAt = now
+        post({ type: "progress", bytesRead, totalBytes })
+      },
+    })
+    if (!result.valid) {
+      hashAbort.abort()
+      post({ type: "result", result })
+      return
+    }
+    post({ type: "result", result: { ...result, sha256: await hash } })
+  } catch (error: unknown) {
+    hashAbort.abort()
+    post({ type: "error", error: error instanceof Error ? error.message : "Validation failed" })
+  }
+}
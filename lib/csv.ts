@@ -1,67 +1,155 @@
-export function parseCsvPreview(csvText: string, maxRows: number) {
-  const lines = csvText.split(/\r?\n/).filter((l) => l.length > 0)
-  const headerLine = lines[0] ?? ""
-  const columns = splitCsvLine(headerLine)
+import { openCsvFile, type CsvFileSource } from "@/lib/compression"
+import { parseCsvStream, parseCsvStreamWithPositions, type CsvSource } from "@/lib/csv-parser"
+import { DEFAULT_DIALECT, DIALECT_SAMPLE_BYTES, sniffCsvDialectFromStream } from "@/lib/csv-dialect"
+import { inferColumnType } from "@/lib/column-types"
+import { ENCODING_SAMPLE_BYTES, detectEncoding } from "@/lib/encoding"
+import { MAX_HEADER_ROW, createRecordClassifier, normalizeHeaders } from "@/lib/headers"
+import { createContractChecker } from "@/lib/schema-contract"
+import type {
+  ColumnHeader,
+  ColumnRenames,
+  ColumnType,
+  CompressionReport,
+  ContractCheckResult,
+  CsvDialect,
+  DetectedEncoding,
+  MalformedRow,
+  SchemaContract,
+  TextEncodingName,
+} from "@/lib/types"
 
+export type CsvPreviewOptions = {
+  /** Never decode more than this many bytes */
+  maxBytes?: number
+  dialect?: CsvDialect
+  encoding?: TextEncodingName
+  columnRenames?: ColumnRenames
+}
+
+/**
+ * Reads the header and the first `maxRows` records from a CSV byte stream.
+ * Rows and types are keyed by column id. Without a header row, columns are named `column_1`, `column_2`, ...
+ * and the first record is data. Malformed rows (a different field count from the header's) are left out.
+ */
+export async function parseCsvPreview(
+  source: CsvSource,
+  maxRows: number,
+  { maxBytes, dialect = DEFAULT_DIALECT, encoding, columnRenames }: CsvPreviewOptions = {}
+) {
+  const classify = createRecordClassifier(dialect)
+  let columns: ColumnHeader[] | null = null
   const rows: Record<string, string>[] = []
-  for (let i = 1; i < Math.min(lines.length, maxRows + 1); i++) {
-    const vals = splitCsvLine(lines[i]!)
+
+  for await (const record of parseCsvStream(source, { maxBytes, dialect, encoding })) {
+    const kind = classify()
+    if (kind === "skipped") continue
+    if (kind === "header") {
+      columns = normalizeHeaders(record, record.length, columnRenames)
+      continue
+    }
+    columns ??= normalizeHeaders(null, record.length, columnRenames)
+    if (record.length !== columns.length) continue
+    if (rows.length >= maxRows) break
     const row: Record<string, string> = {}
-    for (let c = 0; c < columns.length; c++) row[columns[c]!] = vals[c] ?? ""
+    for (const col of columns) row[col.id] = record[col.index] ?? ""
     rows.push(row)
   }
+  columns ??= []
 
-  const types: Record<string, string> = {}
+  const types: Record<string, ColumnType> = {}
   for (const col of columns) {
-    const sample = rows.map((r) => r[col]).filter((x) => x !== "").slice(0, 50)
-    types[col] = inferType(sample)
+    const sample = rows.map((r) => r[col.id]!).filter((x) => x !== "").slice(0, 50)
+    types[col.id] = inferColumnType(sample)
   }
 
   return { columns, rows, types }
 }
 
-// Minimal CSV splitter (handles quotes). Good enough for take-home.
-function splitCsvLine(line: string): string[] {
-  const out: string[] = []
-  let cur = ""
-  let inQuotes = false
-  for (let i = 0; i < line.length; i++) {
-    const ch = line[i]!
-    if (ch === '"' && line[i + 1] === '"') { cur += '"'; i++; continue }
-    if (ch === '"') { inQuotes = !inQuotes; continue }
-    if (ch === "," && !inQuotes) { out.push(cur); cur = ""; continue }
-    cur += ch
-  }
-  out.push(cur)
-  return out
-}
-
-function inferType(sample: string[]) {
-  if (sample.length === 0) return "unknown"
-  const isNumber = sample.every((v) => /^-?\d+(\.\d+)?$/.test(v.trim()))
-  if (isNumber) return "number"
-  const isBool = sample.every((v) => /^(true|false)$/i.test(v.trim()))
-  if (isBool) return "boolean"
-  return "string"
-}
-
 export interface ValidationResult {
   valid: boolean
   error?: string
-  columns?: string[]
+  columns?: ColumnHeader[]
   rowCount?: number
+  /** First records of the file as parsed, for picking the header row */
+  sampleRecords?: string[][]
+  /** Sniffed from the start of the file, or the override passed in */
+  dialect?: CsvDialect
+  /** Detected from the start of the file; finalize makes the same guess on the server */
+  encoding?: DetectedEncoding
+  /** Data rows whose field count differs from the header's; finalize skips them or fails, as the user chooses */
+  mismatchedRowCount?: number
+  /** The first malformed rows, with their line and raw text */
+  malformedRows?: MalformedRow[]
+  /** Set for .gz and .zip files, which are validated as decompressed */
+  compression?: CompressionReport
+  /** Set when a contract was given; checked with `columnRenames` applied, as finalize checks it */
+  contract?: ContractCheckResult
+  /** SHA-256 of the file as picked, for finalize; set by `validateCsvFileInWorker` when the file is valid */
+  sha256?: string
+}
+
+export type ValidationOptions = {
+  /** Called as the file is read, with the bytes read so far (compressed bytes for .gz and .zip files) */
+  onProgress?: (bytesRead: number, totalBytes: number) => void
+  /** Stops reading the file; validation then rejects with an AbortError */
+  signal?: AbortSignal
+  /** Schema contract to check every well-formed data row against; violations do not make the file invalid */
+  contract?: SchemaContract
+  /** Names the contract check sees instead of the header's; `columns` stay as written */
+  columnRenames?: ColumnRenames
 }
 
 const MIN_FILE_SIZE_BYTES = 1
 const MAX_FILE_SIZE_BYTES = 2 * 1024 * 1024 * 1024 // 2GB
 const MIN_ROWS_REQUIRED = 1 // At least header + 1 row
+const LISTED_MALFORMED_ROWS = 5 // Malformed rows shown in the wizard; the server report lists more
+const ACCEPTED_EXTENSIONS = [".csv", ".tsv", ".txt", ".csv.gz", ".tsv.gz", ".txt.gz", ".zip"]
+const ACCEPTED_MIME_TYPES = [
+  "application/vnd.ms-excel",
+  "text/tab-separated-values",
+  "text/plain",
+  "application/gzip",
+  "application/x-gzip",
+  "application/zip",
+  "application/x-zip-compressed",
+]
+// Enough decompressed bytes for both the encoding and the dialect sample
+const HEAD_SAMPLE_BYTES = Math.max(ENCODING_SAMPLE_BYTES, DIALECT_SAMPLE_BYTES)
+
+// Checked as soon as the header record is parsed, before reading the rest of the file
+function checkHeader(columns: ColumnHeader[]): ValidationResult | null {
+  if (columns.length === 0) {
+    return {
+      valid: false,
+      error: "The file has no column headers. Please ensure your CSV file has a header row.",
+    }
+  }
+
+  if (columns.length > 100) {
+    return {
+      valid: false,
+      error: `The file has too many columns (${columns.length}). Maximum is 100 columns. Please reduce the number of columns.`,
+    }
+  }
+
+  return null
+}
 
 /**
  * Validates a CSV file before upload.
- * Checks file size, format, and basic structure.
+ * Checks file size, format, and basic structure. Gzip and single-file zip archives are decompressed
+ * as they are read. The whole file is streamed through the CSV parser,
+ * so row counts are exact with multi-line quoted fields, every row's field count is checked and memory stays bounded.
+ * Reading a 2GB file takes a while: the wizard runs this in a Web Worker (see `lib/csv-validation.ts`).
+ * The encoding and dialect (delimiter, quote, header...) are sniffed from the start of the file;
+ * a dialect passed in replaces the sniffed one.
  * Returns validation result with actionable error messages for non-technical users.
  */
-export async function validateCsvFile(file: File): Promise<ValidationResult> {
+export async function validateCsvFile(
+  file: File,
+  dialectOverride?: CsvDialect,
+  options: ValidationOptions = {}
+): Promise<ValidationResult> {
   // Check file size
   if (file.size < MIN_FILE_SIZE_BYTES) {
     return {
@@ -79,84 +167,175 @@ export async function validateCsvFile(file: File): Promise<ValidationResult> {
   }
 
   // Check file extension
-  if (!file.name.toLowerCase().endsWith(".csv")) {
+  if (!ACCEPTED_EXTENSIONS.some((ext) => file.name.toLowerCase().endsWith(ext))) {
     return {
       valid: false,
-      error: "The file must be a CSV file (.csv extension). Please select a CSV file.",
+      error: "The file must be a CSV file (.csv, .tsv or .txt extension), optionally compressed (.csv.gz or .zip). Please select a CSV file.",
     }
   }
 
   // Check file type
-  if (file.type && !file.type.includes("csv") && file.type !== "text/csv" && file.type !== "application/vnd.ms-excel") {
+  if (file.type && !file.type.includes("csv") && !ACCEPTED_MIME_TYPES.includes(file.type)) {
     return {
       valid: false,
       error: "The file type is not recognized as CSV. Please select a valid CSV file.",
     }
   }
 
+  let source: CsvFileSource
   try {
-    // Read and parse a sample of the file to validate structure
-    const text = await file.text()
-    const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0)
-
-    if (lines.length === 0) {
-      return {
-        valid: false,
-        error: "The file appears to be empty or contains no valid data. Please check your file.",
-      }
+    source = await openCsvFile(file)
+  } catch (error: unknown) {
+    return {
+      valid: false,
+      error: `${error instanceof Error ? error.message : "The compressed file cannot be read"}. Please select a CSV file, or a .csv.gz or a .zip containing only the CSV file.`,
     }
+  }
 
-    // Parse header
-    const headerLine = lines[0]!
-    const columns = splitCsvLine(headerLine)
+  try {
+    const head = await readHead(source.open(), HEAD_SAMPLE_BYTES)
+    const encoding = detectEncoding(head.subarray(0, ENCODING_SAMPLE_BYTES))
+    const dialect = dialectOverride
+      ?? await sniffCsvDialectFromStream(new Blob([head.subarray(0, DIALECT_SAMPLE_BYTES)]).stream(), encoding.encoding)
+    const read = { bytes: 0 }
+    const result = await validateRecords(source, dialect, encoding.encoding, options, read)
+    const compression: CompressionReport | undefined = source.compression
+      ? { format: source.compression, entryName: source.entryName, compressedBytes: file.size, uncompressedBytes: read.bytes }
+      : undefined
+    return { ...result, dialect, encoding, compression }
+  } catch (error: unknown) {
+    if (options.signal?.aborted) throw error
+    return {
+      valid: false,
+      error: error instanceof Error
+        ? `Unable to read the file: ${error.message}. Please check that the file is not corrupted.`
+        : "Unable to read the file. Please check that the file is not corrupted or in use by another program.",
+    }
+  }
+}
 
-    if (columns.length === 0) {
-      return {
-        valid: false,
-        error: "The file has no column headers. Please ensure your CSV file has a header row.",
-      }
+// First `maxBytes` of a stream (fewer when it is shorter); the rest is never read
+async function readHead(stream: ReadableStream<Uint8Array>, maxBytes: number) {
+  const reader = stream.getReader()
+  const head = new Uint8Array(maxBytes)
+  let length = 0
+  try {
+    while (length < maxBytes) {
+      const { done, value } = await reader.read()
+      if (done) break
+      const part = value.subarray(0, maxBytes - length)
+      head.set(part, length)
+      length += part.length
     }
+  } finally {
+    await reader.cancel().catch(() => undefined)
+  }
+  return head.subarray(0, length)
+}
 
-    if (columns.length > 100) {
-      return {
-        valid: false,
-        error: `The file has too many columns (${columns.length}). Maximum is 100 columns. Please reduce the number of columns.`,
-      }
+// Streams the (decompressed) file, counting its bytes and checking for cancellation between chunks
+async function* readSource(source: CsvFileSource, { onProgress, signal }: ValidationOptions, counter: { bytes: number }) {
+  const reader = source.open(onProgress && ((bytesRead) => onProgress(bytesRead, source.compressedBytes))).getReader()
+  try {
+    while (true) {
+      signal?.throwIfAborted()
+      const { done, value } = await reader.read()
+      if (done) return
+      counter.bytes += value.length
+      yield value
     }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Streams every record of the file with the given dialect and checks the structure.
+ * The decompressed bytes read are counted in `read`.
+ */
+async function validateRecords(
+  source: CsvFileSource,
+  dialect: CsvDialect,
+  encoding: TextEncodingName,
+  options: ValidationOptions,
+  read: { bytes: number }
+): Promise<ValidationResult> {
+  const classify = createRecordClassifier(dialect)
+  let columns: ColumnHeader[] | null = null
+  let contract: ReturnType<typeof createContractChecker> | null = null
+  let rowCount = 0
+  let mismatchedRowCount = 0
+  const malformedRows: MalformedRow[] = []
+  const sampleRecords: string[][] = []
+  const firstRowLabel = dialect.hasHeader ? "the header" : "the first row"
 
-    // Check for at least one data row
-    if (lines.length < MIN_ROWS_REQUIRED + 1) {
-      return {
-        valid: false,
-        error: "The file must contain at least one row of data in addition to the header. Please add data rows to your CSV file.",
+  const records = parseCsvStreamWithPositions(readSource(source, options, read), { dialect, encoding })
+  for await (const { record, line, raw } of records) {
+    if (sampleRecords.length < MAX_HEADER_ROW) sampleRecords.push(record)
+    const kind = classify()
+    if (kind === "skipped") continue
+    if (!columns) {
+      const header = kind === "header" ? record : null
+      columns = normalizeHeaders(header, record.length)
+      const headerError = checkHeader(columns)
+      if (headerError) return { ...headerError, sampleRecords }
+      if (options.contract) {
+        const renamed = options.columnRenames ? normalizeHeaders(header, record.length, options.columnRenames) : columns
+        contract = createContractChecker(options.contract, renamed)
       }
+      if (kind === "header") continue
     }
+    rowCount++
 
-    // Validate that rows have consistent column count (sample first 10 rows)
-    const sampleRows = lines.slice(1, Math.min(11, lines.length))
-    for (let i = 0; i < sampleRows.length; i++) {
-      const row = sampleRows[i]!
-      const values = splitCsvLine(row)
-      if (values.length !== columns.length) {
-        return {
-          valid: false,
-          error: `Row ${i + 2} has ${values.length} columns but the header has ${columns.length} columns. All rows must have the same number of columns.`,
-        }
+    // Rows with a different field count from the header's are malformed; they do not block the upload
+    if (record.length !== columns.length) {
+      mismatchedRowCount++
+      if (malformedRows.length < LISTED_MALFORMED_ROWS) {
+        malformedRows.push({ line, expectedFields: columns.length, actualFields: record.length, raw })
       }
+    } else {
+      contract?.add(record, line)
     }
+  }
 
+  // No row matches the header: the format is most likely wrong rather than the rows
+  if (columns && malformedRows.length > 0 && mismatchedRowCount === rowCount) {
+    const first = malformedRows[0]!
     return {
-      valid: true,
-      columns,
-      rowCount: lines.length - 1, // Exclude header
+      valid: false,
+      error: `No row has as many columns as ${firstRowLabel} (${columns.length}); line ${first.line} has ${first.actualFields}. If the whole file shows as one column, check the delimiter.`,
+      rowCount,
+      mismatchedRowCount,
+      malformedRows,
+      sampleRecords,
     }
-  } catch (error: unknown) {
+  }
+
+  if (!columns) {
     return {
       valid: false,
-      error: error instanceof Error
-        ? `Unable to read the file: ${error.message}. Please check that the file is not corrupted.`
-        : "Unable to read the file. Please check that the file is not corrupted or in use by another program.",
+      error: "The file appears to be empty or contains no valid data. Please check your file.",
+      sampleRecords,
+    }
+  }
+
+  // Check for at least one data row
+  if (rowCount < MIN_ROWS_REQUIRED) {
+    return {
+      valid: false,
+      error: "The file must contain at least one row of data in addition to the header. Please add data rows to your CSV file.",
+      sampleRecords,
     }
   }
+
+  return {
+    valid: true,
+    columns,
+    rowCount,
+    mismatchedRowCount,
+    malformedRows,
+    sampleRecords,
+    contract: contract?.result(),
+  }
 }
 
@@ -0,0 +1,166 @@
+// Character encoding detection and decoding, shared by browser validation and finalize.
+
+import type { DetectedEncoding, EncodingReport, TextEncodingName } from "@/lib/types"
+
+// Enough to see past a long ASCII header into the first accented values
+export const ENCODING_SAMPLE_BYTES = 256 * 1024
+
+const REPLACEMENT_CHAR = "\uFFFD"
+
+// Without a BOM, text is taken as UTF-16 when this share of the bytes on one side is zero
+const UTF16_ZERO_RATIO = 0.3
+
+// UTF-8 with a few corrupt bytes stays UTF-8 as long as valid multi-byte sequences clearly dominate
+const UTF8_VALID_PER_INVALID = 4
+
+function detectBom(bytes: Uint8Array): TextEncodingName | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8"
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le"
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be"
+  return null
+}
+
+// BOM-less UTF-16 of mostly Latin text has a zero in every other byte
+function detectUtf16(bytes: Uint8Array): TextEncodingName | null {
+  const pairs = Math.floor(bytes.length / 2)
+  if (pairs === 0) return null
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    if (bytes[i] === 0) evenZeros++
+    if (bytes[i + 1] === 0) oddZeros++
+  }
+  if (oddZeros / pairs > UTF16_ZERO_RATIO && evenZeros / pairs < UTF16_ZERO_RATIO / 10) return "utf-16le"
+  if (evenZeros / pairs > UTF16_ZERO_RATIO && oddZeros / pairs < UTF16_ZERO_RATIO / 10) return "utf-16be"
+  return null
+}
+
+/**
+ * Counts well-formed multi-byte UTF-8 sequences and invalid bytes.
+ * A sequence cut by the end of the sample is not counted as invalid.
+ */
+function countUtf8Sequences(bytes: Uint8Array) {
+  let valid = 0
+  let invalid = 0
+  let i = 0
+  while (i < bytes.length) {
+    const b = bytes[i]!
+    if (b < 0x80) {
+      i++
+      continue
+    }
+    const length = b >= 0xc2 && b <= 0xdf ? 2 : b >= 0xe0 && b <= 0xef ? 3 : b >= 0xf0 && b <= 0xf4 ? 4 : 0
+    if (length === 0) {
+      invalid++
+      i++
+      continue
+    }
+    if (i + length > bytes.length) break
+    let ok = true
+    for (let k = 1; k < length; k++) {
+      if ((bytes[i + k]! & 0xc0) !== 0x80) ok = false
+    }
+    if (ok) {
+      valid++
+      i += length
+    } else {
+      invalid++
+      i++
+    }
+  }
+  return { valid, invalid }
+}
+
+/**
+ * Detects the encoding of a sample from the start of a file:
+ * 1. a BOM (UTF-8, UTF-16LE, UTF-16BE)
+ * 2. BOM-less UTF-16, from the pattern of zero bytes
+ * 3. UTF-8, when the sample is valid UTF-8 (or overwhelmingly so)
+ * 4. otherwise Windows-1252, the single-byte encoding Excel uses for "CSV" on Western systems
+ *    (it also decodes ISO-8859-1 text correctly)
+ */
+export function detectEncoding(sample: Uint8Array): DetectedEncoding {
+  const bomEncoding = detectBom(sample)
+  if (bomEncoding) return { encoding: bomEncoding, bom: true }
+
+  const utf16 = detectUtf16(sample)
+  if (utf16) return { encoding: utf16, bom: false }
+
+  const { valid, invalid } = countUtf8Sequences(sample)
+  if (invalid === 0 || valid >= invalid * UTF8_VALID_PER_INVALID) return { encoding: "utf-8", bom: false }
+  return { encoding: "windows-1252", bom: false }
+}
+
+/**
+ * The encoding `assembled.csv` is stored in after finalize: UTF-8 once transcoded, the original one otherwise.
+ */
+export function storedEncoding(report: EncodingReport | undefined): TextEncodingName {
+  if (!report || report.transcoded) return "utf-8"
+  return report.encoding
+}
+
+/**
+ * Tracks which lines of decoded text contain replacement characters, i.e. bytes the encoding could not decode.
+ * Line numbers are 1-based physical lines; only the first `maxLines` are kept, the rest are only counted.
+ */
+export function createUndecodableLineTracker(maxLines = 100) {
+  const lines: number[] = []
+  let count = 0
+  let line = 1
+  let currentBad = false
+
+  function markBad() {
+    if (currentBad) return
+    currentBad = true
+    count++
+    if (lines.length < maxLines) lines.push(line)
+  }
+
+  function push(text: string) {
+    let start = 0
+    for (let nl = text.indexOf("\n"); nl !== -1; nl = text.indexOf("\n", start)) {
+      if (text.slice(start, nl).includes(REPLACEMENT_CHAR)) markBad()
+      line++
+      currentBad = false
+      start = nl + 1
+    }
+    if (text.slice(start).includes(REPLACEMENT_CHAR)) markBad()
+  }
+
+  return {
+    push,
+    result: () => ({ undecodableLineCount: count, undecodableLines: lines }),
+  }
+}
+
+/**
+ * Reads a byte stream through once and reports the lines that do not decode cleanly.
+ */
+export async function findUndecodableLines(source: AsyncIterable<Uint8Array>, encoding: TextEncodingName) {
+  const tracker = createUndecodableLineTracker()
+  const decoder = new TextDecoder(encoding)
+  for await (const chunk of source) tracker.push(decoder.decode(chunk, { stream: true }))
+  tracker.push(decoder.decode())
+  return tracker.result()
+}
+
+/**
+ * Decodes a byte stream with the given encoding (dropping any BOM) and re-encodes it as UTF-8,
+ * reporting undecodable lines to `tracker` on the way.
+ */
+export async function* transcodeToUtf8(
+  source: AsyncIterable<Uint8Array>,
+  encoding: TextEncodingName,
+  tracker?: ReturnType<typeof createUndecodableLineTracker>
+) {
+  const decoder = new TextDecoder(encoding)
+  const encoder = new TextEncoder()
+  for await (const chunk of source) {
+    const text = decoder.decode(chunk, { stream: true })
+    tracker?.push(text)
+    if (text) yield encoder.encode(text)
+  }
+  const rest = decoder.decode()
+  tracker?.push(rest)
+  if (rest) yield encoder.encode(rest)
+}
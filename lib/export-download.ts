@@ -0,0 +1,132 @@
+// Browser side of dataset exports. The server signs a download link for a few minutes, so the upload token never
+// appears in a URL. Where the browser can write to a file the user picks (File System Access API), the export is
+// fetched here and, when the connection drops, resumed from the bytes already written with a newly signed link, so a
+// long download never depends on one link staying valid. Elsewhere the browser downloads the signed link itself.
+
+import type { ExportLinkRequest, ExportLinkResponse } from "@/lib/types"
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
+
+// Attempts in a row that receive nothing before the download gives up
+const MAX_RESUME_ATTEMPTS = 5
+const RESUME_DELAY_MS = 1000
+
+// The parts of the File System Access API used here, which TypeScript's DOM types do not include yet
+type WritableFile = {
+  write(data: Uint8Array): Promise<void>
+  truncate(size: number): Promise<void>
+  close(): Promise<void>
+  abort(): Promise<void>
+}
+type SaveFilePicker = (options: { suggestedName: string }) => Promise<{ createWritable(): Promise<WritableFile> }>
+
+async function requestExportLink(request: ExportLinkRequest, uploadToken: string) {
+  const res = await fetch("/api/upload/export", {
+    method: "POST",
+    headers: { "content-type": "application/json", [UPLOAD_TOKEN_HEADER]: uploadToken },
+    body: JSON.stringify(request),
+  })
+  if (!res.ok) {
+    const body = await res.json().catch(() => null) as { error?: string } | null
+    throw new Error(body?.error ?? `Failed to prepare the download (${res.status})`)
+  }
+  return await res.json() as ExportLinkResponse
+}
+
+function clickLink(url: string) {
+  const link = document.createElement("a")
+  link.href = url
+  link.download = ""
+  link.click()
+}
+
+/**
+ * Fetches an export into `file`, resuming with `Range` and `If-Range` after a dropped connection or a server error.
+ * Every attempt after the first signs a new link. A 200 answer to a resume (the export changed) starts over.
+ */
+async function fetchExport(request: ExportLinkRequest, uploadToken: string, firstLink: ExportLinkResponse, file: WritableFile) {
+  let link: ExportLinkResponse | null = firstLink
+  let received = 0
+  let etag: string | null = null
+  let failures = 0
+  let lastError = "Download failed"
+
+  while (true) {
+    if (failures > 0) {
+      if (failures >= MAX_RESUME_ATTEMPTS) throw new Error(lastError)
+      await new Promise((resolve) => setTimeout(resolve, RESUME_DELAY_MS * failures))
+    }
+    link ??= await requestExportLink(request, uploadToken)
+    const headers: Record<string, string> = {}
+    if (received > 0 && etag) {
+      headers.range = `bytes=${received}-`
+      headers["if-range"] = etag
+    }
+
+    const res = await fetch(link.url, { headers }).catch(() => null)
+    link = null
+    if (!res) {
+      lastError = "Download failed: network error"
+      failures++
+      continue
+    }
+    if (res.status !== 200 && res.status !== 206) {
+      const body = await res.json().catch(() => null) as { error?: string } | null
+      lastError = body?.error ?? `Download failed (${res.status})`
+      // An expired link is signed again; other client errors do not go away by retrying
+      if (res.status < 500 && res.status !== 403) throw new Error(lastError)
+      failures++
+      continue
+    }
+
+    if (res.status === 200 && received > 0) {
+      await file.truncate(0)
+      received = 0
+    }
+    etag = res.headers.get("etag")
+    const reader = res.body!.getReader()
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) return
+        await file.write(value)
+        received += value.length
+        failures = 0
+      }
+    } catch {
+      lastError = "Download interrupted"
+      failures++
+    }
+  }
+}
+
+/**
+ * Asks the server for a signed link to an export, then downloads it: into a file the user picks, resumably, where the
+ * browser supports it, otherwise as a plain link, named by the server. Resolves once the download is written
+ * (or has been handed to the browser); a cancelled file picker resolves without downloading.
+ */
+export async function downloadExport(request: ExportLinkRequest, uploadToken: string) {
+  const link = await requestExportLink(request, uploadToken)
+  const picker = window as Window & { showSaveFilePicker?: SaveFilePicker }
+  if (!picker.showSaveFilePicker) {
+    clickLink(link.url)
+    return
+  }
+
+  let file: WritableFile
+  try {
+    file = await (await picker.showSaveFilePicker({ suggestedName: link.filename })).createWritable()
+  } catch (error: unknown) {
+    if (error instanceof DOMException && error.name === "AbortError") return
+    // E.g. the click no longer counts as a user gesture after signing the link
+    clickLink(link.url)
+    return
+  }
+
+  try {
+    await fetchExport(request, uploadToken, link, file)
+    await file.close()
+  } catch (error: unknown) {
+    await file.abort().catch(() => undefined)
+    throw error
+  }
+}
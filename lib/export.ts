@@ -0,0 +1,227 @@
+// Exports of a finalized dataset. Each export (format, columns and their types) is sent while it is produced the first
+// time and written next to the assembled file on the way, so later downloads have a size and a stable ETag and can be
+// served in byte ranges and resumed. Only the few most recent exports of a session are kept.
+
+import crypto from "crypto"
+import { toTypedValue } from "@/lib/column-types"
+import { formatCsvField, parseCsvStream, type CsvSource } from "@/lib/csv-parser"
+import { createRecordClassifier } from "@/lib/headers"
+import { readStoredExports, writeStoredExports } from "@/lib/storage"
+import type { AssembleResult, StorageAdapter } from "@/lib/storage/adapter"
+import type { ColumnHeader, ColumnType, CsvDialect, ExportFormat, TextEncodingName } from "@/lib/types"
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  csv: { extension: "csv", contentType: "text/csv; charset=utf-8" },
+  jsonl: { extension: "jsonl", contentType: "application/x-ndjson; charset=utf-8" },
+  json: { extension: "json", contentType: "application/json; charset=utf-8" },
+}
+
+// Bumped when the output of a format changes, so exports written before are not served again
+const EXPORT_VERSION = 1
+// Output is encoded in batches of about this many characters rather than per row
+const BATCH_CHARS = 64 * 1024
+
+export type ExportOptions = {
+  format: ExportFormat
+  /** Every column of the file, as in the preview; rows with a different field count are malformed and left out */
+  columns: ColumnHeader[]
+  /** The columns to write, in order */
+  selected: ColumnHeader[]
+  /** By column id */
+  types: Record<string, ColumnType>
+  dialect: CsvDialect
+  encoding?: TextEncodingName
+}
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && Object.hasOwn(EXPORT_FORMATS, value)
+}
+
+/**
+ * Name of the stored export: a digest of everything its content depends on,
+ * so a different column selection or a changed type never reuses it. Also used as the ETag.
+ */
+export function exportArtifactName({ format, selected, types }: Pick<ExportOptions, "format" | "selected" | "types">) {
+  const key = JSON.stringify([EXPORT_VERSION, format, selected.map((c) => [c.id, c.name, types[c.id] ?? null])])
+  const digest = crypto.createHash("sha256").update(key).digest("hex").slice(0, 32)
+  return `export-${digest}.${EXPORT_FORMATS[format].extension}`
+}
+
+/**
+ * Download name: the uploaded file's name without its extensions (`.csv.gz` included), with the export's.
+ */
+export function exportFilename(uploadFilename: string, format: ExportFormat) {
+  const basename = uploadFilename.replace(/(\.(gz|zip))?$/i, "").replace(/\.[^.]*$/, "").replace(/[^\w.-]+/g, "_") || "export"
+  return `${basename}.${EXPORT_FORMATS[format].extension}`
+}
+
+/**
+ * Streams the export of a CSV byte stream as UTF-8:
+ * - `csv`: comma-separated, `"` quoting, CRLF line endings and a header row of column names
+ * - `jsonl`: one object per row, keyed by column name, with the values as written
+ * - `json`: `{"columns": [...], "rows": [...]}`, with the name and type of every column and the values converted by `toTypedValue`
+ */
+export async function* exportCsv(source: CsvSource, options: ExportOptions): AsyncGenerator<Uint8Array> {
+  const { format, columns, selected, types, dialect, encoding } = options
+  const classify = createRecordClassifier(dialect)
+  const names = selected.map((c) => JSON.stringify(c.name))
+  const encoder = new TextEncoder()
+  let batch = ""
+
+  if (format === "csv") {
+    batch += `${selected.map((c) => formatCsvField(c.name)).join(",")}\r\n`
+  } else if (format === "json") {
+    const schema = selected.map((c) => ({ id: c.id, name: c.name, type: types[c.id] ?? { kind: "unknown" } }))
+    batch += `{"columns":${JSON.stringify(schema)},"rows":[`
+  }
+
+  let rowCount = 0
+  for await (const record of parseCsvStream(source, { dialect, encoding })) {
+    if (classify() !== "data" || record.length !== columns.length) continue
+    if (format === "csv") {
+      batch += `${selected.map((c) => formatCsvField(record[c.index] ?? "")).join(",")}\r\n`
+    } else {
+      const fields = selected.map((c, i) => {
+        const value = record[c.index] ?? ""
+        return `${names[i]}:${JSON.stringify(format === "json" ? toTypedValue(value, types[c.id] ?? { kind: "unknown" }) : value)}`
+      })
+      batch += format === "json" ? `${rowCount > 0 ? "," : ""}\n{${fields.join(",")}}` : `{${fields.join(",")}}\n`
+    }
+    rowCount++
+
+    if (batch.length >= BATCH_CHARS) {
+      yield encoder.encode(batch)
+      batch = ""
+    }
+  }
+
+  if (format === "json") batch += "\n]}\n"
+  if (batch) yield encoder.encode(batch)
+}
+
+// Exports being written in this process, so a request for one already being written does not start another
+const globalExports = globalThis as typeof globalThis & { __pendingExports?: Map<string, Promise<AssembleResult>> }
+
+// Stored exports kept per session, each a full copy of the dataset; the oldest are removed past this
+const MAX_STORED_EXPORTS = 3
+// Pieces produced ahead of the first download before producing waits for it
+const TEE_QUEUE_PIECES = 16
+
+export type OpenedExport =
+  /** Stored: it has a size and can be served whole or in byte ranges */
+  | { kind: "stored"; size: number }
+  /** Produced while it is sent, without a size */
+  | { kind: "live"; body: AsyncIterable<Uint8Array> }
+
+/**
+ * Splits one pass over `source` between a response (`live`) and the stored copy (`stored`, read by the storage write).
+ * Producing waits while the response is TEE_QUEUE_PIECES behind, so memory stays bounded; once the response is
+ * closed (the client went away) the stored copy is completed on its own. The response fails when the stored copy does,
+ * so a truncated export never looks complete.
+ */
+function teeExport(source: AsyncIterable<Uint8Array>) {
+  const queue: Uint8Array[] = []
+  let attached = true
+  let finished = false
+  let failed = false
+  // Only one side waits at a time: producing for a full queue, the response for an empty one
+  let wake: (() => void) | null = null
+  const notify = () => {
+    wake?.()
+    wake = null
+  }
+  const wait = () => new Promise<void>((resolve) => (wake = resolve))
+
+  const detach = () => {
+    attached = false
+    queue.length = 0
+    notify()
+  }
+
+  async function* stored() {
+    let completed = false
+    try {
+      for await (const piece of source) {
+        if (attached) {
+          queue.push(piece)
+          notify()
+          while (attached && queue.length >= TEE_QUEUE_PIECES) await wait()
+        }
+        yield piece
+      }
+      completed = true
+    } finally {
+      finished = true
+      failed = !completed
+      notify()
+    }
+  }
+
+  async function* live() {
+    try {
+      while (true) {
+        if (queue.length > 0) {
+          const piece = queue.shift()!
+          notify()
+          yield piece
+        } else if (failed) {
+          throw new Error("Export failed")
+        } else if (finished) {
+          return
+        } else {
+          await wait()
+        }
+      }
+    } finally {
+      detach()
+    }
+  }
+
+  return { stored: stored(), live: live(), detach }
+}
+
+/**
+ * Adds a newly stored export to the session's list and removes the oldest past MAX_STORED_EXPORTS.
+ */
+async function recordStoredExport(storage: StorageAdapter, sessionId: string, name: string) {
+  const names = (await readStoredExports(storage, sessionId)).filter((n) => n !== name)
+  names.push(name)
+  const removed = names.splice(0, Math.max(0, names.length - MAX_STORED_EXPORTS))
+  await writeStoredExports(storage, sessionId, names)
+  for (const old of removed) await storage.deleteArtifact(sessionId, old)
+}
+
+/**
+ * Opens an export for download. A stored export is served as is. Otherwise the first request gets the export while it
+ * is produced, and the same pass writes it to storage for later (and resumed) downloads. Meanwhile, a request that
+ * `needsSize` (a Range request) waits for the stored copy; any other gets a pass of its own that is not stored.
+ */
+export async function openExport(
+  storage: StorageAdapter,
+  sessionId: string,
+  name: string,
+  produce: () => AsyncIterable<Uint8Array>,
+  { needsSize = false }: { needsSize?: boolean } = {}
+): Promise<OpenedExport> {
+  const existing = await storage.artifactSize(sessionId, name)
+  if (existing !== null) return { kind: "stored", size: existing }
+
+  globalExports.__pendingExports ??= new Map()
+  const pending = globalExports.__pendingExports
+  const key = `${sessionId}/${name}`
+  let job = pending.get(key)
+  if (job && !needsSize) return { kind: "live", body: produce() }
+
+  if (!job) {
+    const tee = teeExport(produce())
+    job = storage.writeArtifactStream(sessionId, name, tee.stored).then(async (result) => {
+      await recordStoredExport(storage, sessionId, name)
+      return result
+    })
+    pending.set(key, job)
+    void job.catch(() => undefined).finally(() => pending.delete(key))
+    if (!needsSize) return { kind: "live", body: tee.live }
+    tee.detach()
+  }
+  return { kind: "stored", size: (await job).size }
+}
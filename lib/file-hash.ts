@@ -0,0 +1,41 @@
+// Browser side of the whole-file SHA-256 for uploads whose validation did not provide one: hashes in a Web Worker,
+// since the incremental hasher takes seconds per gigabyte and would freeze the tab on the main thread.
+
+import { hashBlob } from "@/lib/sha256"
+
+export type FileHashMessage = { type: "result"; sha256: string } | { type: "error"; error: string }
+
+/**
+ * Hashes a file in a Web Worker, with the same result as `hashBlob`.
+ * Aborting `signal` terminates the worker and rejects with its reason.
+ * Where workers are unavailable, the file is hashed on the calling thread.
+ */
+export function hashFileInWorker(file: Blob, signal?: AbortSignal): Promise<string> {
+  if (typeof Worker === "undefined") return hashBlob(file, signal)
+  if (signal?.aborted) return Promise.reject(signal.reason)
+
+  const worker = new Worker(new URL("./file-hash.worker.ts", import.meta.url))
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener("abort", onAbort)
+    }
+    const onAbort = () => {
+      finish()
+      reject(signal!.reason)
+    }
+    signal?.addEventListener("abort", onAbort)
+
+    worker.onmessage = (event: MessageEvent<FileHashMessage>) => {
+      finish()
+      if (event.data.type === "result") resolve(event.data.sha256)
+      else reject(new Error(event.data.error))
+    }
+    worker.onerror = (event) => {
+      finish()
+      reject(new Error(event.message || "The hashing worker failed to start"))
+    }
+
+    worker.postMessage(file)
+  })
+}
@@ -0,0 +1,19 @@
+// Runs `hashBlob` off the main thread; started by `hashFileInWorker`.
+
+import type { FileHashMessage } from "@/lib/file-hash"
+import { hashBlob } from "@/lib/sha256"
+
+// The project compiles against the DOM lib; the worker scope has the same postMessage/onmessage surface as a Worker
+const scope = self as unknown as Worker
+
+function post(message: FileHashMessage) {
+  scope.postMessage(message)
+}
+
+scope.onmessage = async (event: MessageEvent<Blob>) => {
+  try {
+    post({ type: "result", sha256: await hashBlob(event.data) })
+  } catch (error: unknown) {
+    post({ type: "error", error: error instanceof Error ? error.message : "Hashing failed" })
+  }
+}
@@ -0,0 +1,68 @@
+// Header handling shared by validation, the preview and profiling: which record is the header,
+// and how its cells become unique column names with stable ids.
+
+import type { CsvRecord } from "@/lib/csv-parser"
+import type { ColumnHeader, ColumnRenames, CsvDialect } from "@/lib/types"
+
+/** Candidate header rows offered in the wizard, and the furthest a header may be */
+export const MAX_HEADER_ROW = 10
+
+export const MAX_COLUMN_NAME_LENGTH = 200
+const COLUMN_ID_PATTERN = /^c[1-9]\d*$/
+
+export type RecordKind = "skipped" | "header" | "data"
+
+export function columnId(index: number) {
+  return `c${index + 1}`
+}
+
+/**
+ * Builds the columns of a file from its header record (or from the width of the first data record when
+ * there is no header). Names are trimmed, with inner whitespace collapsed; blank ones become `column_N`;
+ * renames chosen by the user replace the header text; duplicates (ignoring case) get `_2`, `_3`, ... suffixes.
+ */
+export function normalizeHeaders(headerRecord: CsvRecord | null, width: number, renames?: ColumnRenames): ColumnHeader[] {
+  const taken = new Set<string>()
+  const columns: ColumnHeader[] = []
+
+  for (let index = 0; index < width; index++) {
+    const id = columnId(index)
+    const original = headerRecord?.[index] ?? ""
+    const base = renames?.[id]?.trim() || original.trim().replace(/\s+/g, " ") || `column_${index + 1}`
+
+    let name = base
+    for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base}_${n}`
+    taken.add(name.toLowerCase())
+    columns.push({ id, index, name, original })
+  }
+
+  return columns
+}
+
+/**
+ * Returns a function telling, record by record, whether each one is skipped (above the header row),
+ * the header, or data.
+ */
+export function createRecordClassifier(dialect: Pick<CsvDialect, "hasHeader" | "headerRow">) {
+  const headerRow = dialect.headerRow ?? 0
+  let index = 0
+  return (): RecordKind => {
+    const i = index++
+    if (i < headerRow) return "skipped"
+    if (i === headerRow && dialect.hasHeader) return "header"
+    return "data"
+  }
+}
+
+/**
+ * Checks renames received from a client: column ids to non-empty names of reasonable length.
+ */
+export function isValidColumnRenames(value: unknown): value is ColumnRenames {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false
+  return Object.entries(value).every(([id, name]) =>
+    COLUMN_ID_PATTERN.test(id)
+    && typeof name === "string"
+    && name.trim() !== ""
+    && name.length <= MAX_COLUMN_NAME_LENGTH
+  )
+}
@@ -0,0 +1,43 @@
+// HTTP Range requests (RFC 9110) for downloads that can be resumed. Only single ranges are served.
+
+import type { ByteRange } from "@/lib/types"
+
+export type RangeRequest =
+  | { kind: "full" }
+  | { kind: "partial"; range: ByteRange }
+  | { kind: "unsatisfiable" }
+
+/**
+ * Reads a `Range` header against a resource of `size` bytes: `bytes=a-b`, `bytes=a-` and `bytes=-n`.
+ * Anything else, several ranges included, gets the full resource, which the spec allows. So does `bytes=b-a`
+ * with b > a, which is not a valid range (RFC 9110 §14.1.1) rather than an unsatisfiable one.
+ */
+export function parseRangeHeader(header: string | null, size: number): RangeRequest {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null
+  if (!match || (match[1] === "" && match[2] === "")) return { kind: "full" }
+
+  let start: number
+  let end: number
+  if (match[1] === "") {
+    // Suffix: the last n bytes
+    start = Math.max(0, size - Number(match[2]))
+    end = size
+  } else {
+    start = Number(match[1])
+    if (match[2] !== "" && Number(match[2]) < start) return { kind: "full" }
+    end = match[2] === "" ? size : Math.min(size, Number(match[2]) + 1)
+  }
+  if (start >= size || start >= end) return { kind: "unsatisfiable" }
+  return { kind: "partial", range: { start, end } }
+}
+
+/**
+ * Whether the validator in an `If-Range` header still matches; when it does not, the full resource is sent instead of the range.
+ */
+export function ifRangeMatches(header: string | null, etag: string) {
+  return header === null || header.trim() === etag
+}
+
+export function contentRange({ start, end }: ByteRange, size: number) {
+  return `bytes ${start}-${end - 1}/${size}`
+}
@@ -0,0 +1,18 @@
+// Streaming response bodies for routes that serve more than they should hold in memory.
+
+/**
+ * Hands a storage stream (or any async byte source) to a response, closing it when the client goes away.
+ */
+export function toResponseBody(body: AsyncIterable<Uint8Array>) {
+  const iterator = body[Symbol.asyncIterator]()
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next()
+      if (done) controller.close()
+      else controller.enqueue(value)
+    },
+    async cancel() {
+      await iterator.return?.()
+    },
+  })
+}
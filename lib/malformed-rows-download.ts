@@ -0,0 +1,22 @@
+// Browser side of the errors CSV. A plain link cannot send the upload token header, so the file is fetched and saved from a blob.
+
+import { UPLOAD_TOKEN_HEADER } from "@/lib/upload-headers"
+
+/**
+ * Downloads the errors CSV of a finalized (or policy-failed) session, named after the uploaded file.
+ */
+export async function downloadMalformedRowsCsv(sessionId: string, uploadToken: string) {
+  const res = await fetch(`/api/upload/errors?sessionId=${encodeURIComponent(sessionId)}&format=csv`, {
+    headers: { [UPLOAD_TOKEN_HEADER]: uploadToken },
+  })
+  if (!res.ok) throw new Error(`Failed to download the errors file (${res.status})`)
+  const filename = /filename="([^"]+)"/.exec(res.headers.get("content-disposition") ?? "")?.[1] ?? "errors.csv"
+
+  const url = URL.createObjectURL(await res.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoked once the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
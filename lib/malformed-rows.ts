@@ -0,0 +1,89 @@
+// Malformed rows: data rows whose field count differs from the header's. Finalize scans the whole file for them,
+// and every later read of the file leaves them out.
+
+import { formatCsvField, parseCsvStreamWithLocations, type CsvSource } from "@/lib/csv-parser"
+import { createRecordClassifier } from "@/lib/headers"
+import type { RowIndexBuilder } from "@/lib/row-index"
+import type {
+  CsvDialect,
+  MalformedRow,
+  MalformedRowPolicy,
+  MalformedRowReport,
+  MalformedRowSummary,
+  TextEncodingName,
+} from "@/lib/types"
+
+// Rows listed in the report; beyond this they are only counted
+export const MAX_REPORTED_ROWS = 1000
+
+export const DEFAULT_MALFORMED_ROW_POLICY: MalformedRowPolicy = "skip"
+
+export type MalformedRowScanOptions = {
+  dialect: CsvDialect
+  encoding?: TextEncodingName
+  policy: MalformedRowPolicy
+  /** Receives every well-formed data row's byte offset, so finalize indexes the file in the same pass */
+  rowIndex?: RowIndexBuilder
+}
+
+export function isMalformedRowPolicy(value: unknown): value is MalformedRowPolicy {
+  return value === "skip" || value === "fail"
+}
+
+/**
+ * Reads every record of a CSV byte stream and reports the data rows whose field count differs from
+ * the header's (or, without a header, from the first row's). The first `MAX_REPORTED_ROWS` are listed
+ * with their line and raw text; all of them are counted, by field count.
+ */
+export async function findMalformedRows(
+  source: CsvSource,
+  { dialect, encoding, policy, rowIndex }: MalformedRowScanOptions
+): Promise<MalformedRowReport> {
+  const classify = createRecordClassifier(dialect)
+  let expectedFields: number | null = null
+  let rowCount = 0
+  let malformedCount = 0
+  const byFieldCount: Record<string, number> = {}
+  const rows: MalformedRow[] = []
+
+  for await (const { record, line, raw, offset } of parseCsvStreamWithLocations(source, { dialect, encoding })) {
+    const kind = classify()
+    if (kind === "skipped") continue
+    expectedFields ??= record.length
+    if (kind === "header") continue
+    rowCount++
+    if (record.length === expectedFields) {
+      rowIndex?.add(offset)
+      continue
+    }
+
+    malformedCount++
+    byFieldCount[record.length] = (byFieldCount[record.length] ?? 0) + 1
+    if (rows.length < MAX_REPORTED_ROWS) rows.push({ line, expectedFields, actualFields: record.length, raw })
+  }
+
+  return { policy, rowCount, malformedCount, byFieldCount, rows, truncated: malformedCount > rows.length }
+}
+
+export function summarizeMalformedRows({ policy, rowCount, malformedCount, byFieldCount }: MalformedRowReport): MalformedRowSummary {
+  return { policy, rowCount, malformedCount, byFieldCount }
+}
+
+// Spreadsheets run a cell starting with one of these as a formula; a leading ' makes them show it as text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function neutralizeFormula(text: string) {
+  return FORMULA_PREFIX.test(text) ? `'${text}` : text
+}
+
+/**
+ * Formats the listed rows as an errors CSV: line, expected and actual field counts, and the raw text.
+ * The errors file is meant to be opened in a spreadsheet, so raw text that would run as a formula is prefixed with `'`.
+ */
+export function malformedRowsToCsv(report: MalformedRowReport) {
+  const lines = ["line,expected_fields,actual_fields,raw"]
+  for (const row of report.rows) {
+    lines.push([row.line, row.expectedFields, row.actualFields, neutralizeFormula(row.raw)].map(formatCsvField).join(","))
+  }
+  return `${lines.join("\r\n")}\r\n`
+}
@@ -0,0 +1,27 @@
+// Browser side of opening the preview: the wizard hands the session's upload token to the preview page through
+// sessionStorage, so it never appears in the URL (and so never in history, Referer headers or server logs).
+
+const STORAGE_KEY_PREFIX = "previewToken:"
+
+/**
+ * Keeps the upload token of a session for the preview page, in this tab only. Storage errors are ignored;
+ * the preview then asks to be opened from the upload page again.
+ */
+export function rememberPreviewToken(sessionId: string, uploadToken: string) {
+  try {
+    sessionStorage.setItem(`${STORAGE_KEY_PREFIX}${sessionId}`, uploadToken)
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+/**
+ * Reads back the upload token remembered for a session, or null.
+ */
+export function recallPreviewToken(sessionId: string) {
+  try {
+    return sessionStorage.getItem(`${STORAGE_KEY_PREFIX}${sessionId}`)
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,97 @@
+import { storedEncoding } from "@/lib/encoding"
+import { profileCsv } from "@/lib/profiling"
+import { applySessionSchema } from "@/lib/session-schema"
+import { readManifest, readPreview, readSessionSchema, writeProfile, type StorageAdapter } from "@/lib/storage"
+
+export type ProfilingJob = {
+  /** Version of the session schema the pass applies */
+  schemaVersion: number
+  bytesRead: number
+  totalBytes: number
+  /** Set when the run failed; the job is then kept for FAILED_JOB_TTL_MS so pollers see the error */
+  error?: string
+}
+
+type TrackedJob = ProfilingJob & { controller: AbortController }
+
+// A failed job is reported for this long, then dropped; the next request for the profile starts a new pass
+const FAILED_JOB_TTL_MS = 10 * 60 * 1000
+
+// Kept on globalThis so a job started by finalize is visible to the profile route across dev-mode module reloads
+const globalJobs = globalThis as typeof globalThis & { __profilingJobs?: Map<string, TrackedJob> }
+
+function jobs() {
+  globalJobs.__profilingJobs ??= new Map()
+  return globalJobs.__profilingJobs
+}
+
+export function getProfilingJob(sessionId: string): ProfilingJob | null {
+  return jobs().get(sessionId) ?? null
+}
+
+async function runProfiling(storage: StorageAdapter, sessionId: string, job: TrackedJob) {
+  const manifest = await readManifest(storage, sessionId)
+  const preview = await readPreview(storage, sessionId)
+  if (!manifest || !preview) throw new Error("Session is not finalized")
+
+  job.totalBytes = (await storage.assembledSize(sessionId)) ?? manifest.size
+  const schema = await readSessionSchema(storage, sessionId)
+  if ((schema?.version ?? 0) !== job.schemaVersion) return
+  const source = await storage.streamAssembled(sessionId)
+  if (!source) throw new Error("Assembled file not found")
+
+  const applied = applySessionSchema(preview.preview.columns, preview.preview.types, schema?.columns)
+  const { rowCount, columns } = await profileCsv(source, {
+    columns: preview.preview.columns,
+    selected: applied.columns,
+    types: applied.types,
+    dialect: preview.dialect,
+    encoding: storedEncoding(manifest.encoding),
+    onProgress: (bytesRead) => (job.bytesRead = bytesRead),
+    signal: job.controller.signal,
+  })
+
+  // The session may have been deleted, or its schema saved again, while the pass ran; a newer pass then writes the profile
+  if (!(await readManifest(storage, sessionId))) return
+  if (((await readSessionSchema(storage, sessionId))?.version ?? 0) !== job.schemaVersion) return
+  await writeProfile(storage, {
+    sessionId,
+    schemaVersion: job.schemaVersion,
+    rowCount,
+    completedAt: new Date().toISOString(),
+    columns,
+  })
+}
+
+/**
+ * Starts the background profiling pass for a finalized session with the given schema version, unless one is already
+ * running in this process. A pass for an older version is aborted. The job is dropped when the profile is written
+ * (from then on the stored profile is the source of truth), or FAILED_JOB_TTL_MS after it failed.
+ */
+export function startProfiling(storage: StorageAdapter, sessionId: string, schemaVersion = 0): ProfilingJob {
+  const existing = jobs().get(sessionId)
+  if (existing && !existing.error && existing.schemaVersion === schemaVersion) return existing
+  existing?.controller.abort()
+
+  const job: TrackedJob = { schemaVersion, bytesRead: 0, totalBytes: 0, controller: new AbortController() }
+  jobs().set(sessionId, job)
+  const drop = () => {
+    if (jobs().get(sessionId) === job) jobs().delete(sessionId)
+  }
+  runProfiling(storage, sessionId, job).then(drop, (error: unknown) => {
+    if (job.controller.signal.aborted) return drop()
+    job.error = error instanceof Error ? error.message : "Profiling failed"
+    setTimeout(drop, FAILED_JOB_TTL_MS).unref()
+  })
+  return job
+}
+
+/**
+ * Aborts the profiling pass of a session, if one runs in this process (e.g. the session is being deleted).
+ */
+export function stopProfiling(sessionId: string) {
+  const job = jobs().get(sessionId)
+  if (!job) return
+  jobs().delete(sessionId)
+  job.controller.abort()
+}
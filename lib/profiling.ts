@@ -0,0 +1,261 @@
+// Full-file column profiling: one streaming pass over the assembled file, with bounded memory per column.
+
+import { parseCsvStream } from "@/lib/csv-parser"
+import { columnValueToNumber, matchesColumnType } from "@/lib/column-types"
+import { createRecordClassifier } from "@/lib/headers"
+import type {
+  ColumnHeader,
+  ColumnProfile,
+  ColumnType,
+  CsvDialect,
+  HistogramBin,
+  TextEncodingName,
+  ValueCount,
+} from "@/lib/types"
+
+const TOP_VALUES = 10
+// Frequent-value counters per column; counts stay exact while a column has fewer distinct values than this
+const TOP_VALUE_COUNTERS = 256
+// Smallest hashes kept for the distinct estimate (KMV sketch); exact below this many distinct values
+const DISTINCT_SKETCH_SIZE = 1024
+const HISTOGRAM_BINS = 20
+// Values sampled (reservoir) to build the histogram of a numeric column
+const HISTOGRAM_SAMPLE_SIZE = 10_000
+
+const HASH_SPACE = 2 ** 32
+
+export type ProfileCsvOptions = {
+  /** Every column of the file; rows with a different field count are malformed and left out */
+  columns: ColumnHeader[]
+  /** The columns to profile, when not all of them (columns excluded by the session schema are not) */
+  selected?: ColumnHeader[]
+  /** By column id */
+  types: Record<string, ColumnType>
+  dialect: CsvDialect
+  encoding?: TextEncodingName
+  /** Called with the number of bytes read so far, once per chunk */
+  onProgress?: (bytesRead: number) => void
+  /** Stops the pass between chunks; it then rejects with the signal's reason */
+  signal?: AbortSignal
+}
+
+// FNV-1a, 32 bits
+function hashValue(value: string) {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Distinct-count estimate from the k smallest value hashes (KMV). With fewer than k distinct hashes the count is exact.
+ */
+function createDistinctSketch() {
+  const hashes: number[] = []
+  const seen = new Set<number>()
+
+  function add(value: string) {
+    const hash = hashValue(value)
+    if (seen.has(hash)) return
+    const full = hashes.length >= DISTINCT_SKETCH_SIZE
+    if (full && hash >= hashes[hashes.length - 1]!) return
+
+    let lo = 0
+    let hi = hashes.length
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1
+      if (hashes[mid]! < hash) lo = mid + 1
+      else hi = mid
+    }
+    hashes.splice(lo, 0, hash)
+    seen.add(hash)
+    if (full) seen.delete(hashes.pop()!)
+  }
+
+  function estimate() {
+    if (hashes.length < DISTINCT_SKETCH_SIZE) return { count: hashes.length, exact: true }
+    const kth = hashes[hashes.length - 1]! + 1
+    return { count: Math.round(((DISTINCT_SKETCH_SIZE - 1) * HASH_SPACE) / kth), exact: false }
+  }
+
+  return { add, estimate }
+}
+
+/**
+ * Frequent values (Misra-Gries): when the counters are full, every counter is decremented,
+ * so reported counts are lower bounds once that has happened.
+ */
+function createTopValues() {
+  const counts = new Map<string, number>()
+  let exact = true
+
+  function add(value: string) {
+    const count = counts.get(value)
+    if (count !== undefined) {
+      counts.set(value, count + 1)
+      return
+    }
+    if (counts.size < TOP_VALUE_COUNTERS) {
+      counts.set(value, 1)
+      return
+    }
+    exact = false
+    for (const [key, n] of counts) {
+      if (n <= 1) counts.delete(key)
+      else counts.set(key, n - 1)
+    }
+  }
+
+  function result(): { values: ValueCount[]; exact: boolean } {
+    const values = [...counts]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUES)
+      .map(([value, count]) => ({ value, count }))
+    return { values, exact }
+  }
+
+  return { add, result }
+}
+
+/**
+ * Uniform sample of the numeric values (reservoir sampling), turned into an equal-width histogram
+ * over the exact min and max. Bin counts are scaled up to the number of values seen.
+ */
+function createHistogram() {
+  const sample: number[] = []
+  let seen = 0
+
+  function add(value: number) {
+    seen++
+    if (sample.length < HISTOGRAM_SAMPLE_SIZE) sample.push(value)
+    else {
+      const j = Math.floor(Math.random() * seen)
+      if (j < HISTOGRAM_SAMPLE_SIZE) sample[j] = value
+    }
+  }
+
+  function result(min: number, max: number): HistogramBin[] | null {
+    if (seen === 0) return null
+    if (min === max) return [{ start: min, end: max, count: seen }]
+    const width = (max - min) / HISTOGRAM_BINS
+    const counts = new Array<number>(HISTOGRAM_BINS).fill(0)
+    for (const v of sample) counts[Math.min(HISTOGRAM_BINS - 1, Math.floor((v - min) / width))]!++
+    const scale = seen / sample.length
+    return counts.map((count, i) => ({
+      start: min + i * width,
+      end: i === HISTOGRAM_BINS - 1 ? max : min + (i + 1) * width,
+      count: Math.round(count * scale),
+    }))
+  }
+
+  return { add, result }
+}
+
+function isNumericKind(type: ColumnType) {
+  return type.kind === "integer" || type.kind === "decimal" || type.kind === "currency" || type.kind === "percentage"
+}
+
+/**
+ * Accumulates the statistics of one column, value by value.
+ */
+function createColumnProfiler({ id, name }: ColumnHeader, type: ColumnType) {
+  const distinct = createDistinctSketch()
+  const top = createTopValues()
+  const histogram = createHistogram()
+  // Numbers and dates are ordered by value, everything else as text
+  const ordered = isNumericKind(type) || type.kind === "date" || type.kind === "datetime"
+  let rowCount = 0
+  let nullCount = 0
+  let mismatchCount = 0
+  let sum = 0
+  let numericCount = 0
+  let min: { value: string; key: number | string } | null = null
+  let max: { value: string; key: number | string } | null = null
+
+  function add(raw: string | undefined) {
+    rowCount++
+    const value = raw?.trim() ?? ""
+    if (value === "") {
+      nullCount++
+      return
+    }
+    distinct.add(value)
+    top.add(value)
+
+    let key: number | string = value
+    if (ordered) {
+      const n = columnValueToNumber(value, type)
+      if (n === null) {
+        mismatchCount++
+        return
+      }
+      key = n
+      if (isNumericKind(type)) {
+        sum += n
+        numericCount++
+        histogram.add(n)
+      }
+    } else if (!matchesColumnType(value, type)) {
+      mismatchCount++
+    }
+
+    if (!min || key < min.key) min = { value, key }
+    if (!max || key > max.key) max = { value, key }
+  }
+
+  function result(): ColumnProfile {
+    const { count: distinctCount, exact: distinctExact } = distinct.estimate()
+    const topValues = top.result()
+    const numeric = numericCount > 0 && typeof min?.key === "number" && typeof max?.key === "number"
+    return {
+      id,
+      name,
+      type,
+      rowCount,
+      nullCount,
+      mismatchCount,
+      distinctCount,
+      distinctExact,
+      min: min?.value ?? null,
+      max: max?.value ?? null,
+      mean: numericCount > 0 ? sum / numericCount : null,
+      topValues: topValues.values,
+      topValuesExact: topValues.exact,
+      histogram: numeric ? histogram.result(min!.key as number, max!.key as number) : null,
+    }
+  }
+
+  return { add, result }
+}
+
+async function* countBytes(source: AsyncIterable<Uint8Array>, onProgress?: (bytesRead: number) => void, signal?: AbortSignal) {
+  let bytesRead = 0
+  for await (const chunk of source) {
+    signal?.throwIfAborted()
+    yield chunk
+    bytesRead += chunk.length
+    onProgress?.(bytesRead)
+  }
+}
+
+/**
+ * Profiles the columns of a CSV byte stream against their types (inferred for the preview, or set in the session schema).
+ * Only the current record and fixed-size summaries per column are held in memory.
+ */
+export async function profileCsv(source: AsyncIterable<Uint8Array>, options: ProfileCsvOptions) {
+  const { columns, selected = columns, types, dialect, encoding, onProgress, signal } = options
+  const profilers = selected.map((column) => createColumnProfiler(column, types[column.id] ?? { kind: "unknown" }))
+  const classify = createRecordClassifier(dialect)
+  let rowCount = 0
+
+  for await (const record of parseCsvStream(countBytes(source, onProgress, signal), { dialect, encoding })) {
+    // Malformed rows are reported at finalize and left out everywhere else
+    if (classify() !== "data" || record.length !== columns.length) continue
+    rowCount++
+    for (let c = 0; c < profilers.length; c++) profilers[c]!.add(record[selected[c]!.index])
+  }
+
+  return { rowCount, columns: profilers.map((p) => p.result()) }
+}
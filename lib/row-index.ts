@@ -0,0 +1,241 @@
+// Row access anywhere in a finalized dataset. Finalize records the byte offset of every ROW_INDEX_STRIDE-th data row
+// of the assembled file; a slice of rows is read by seeking to the checkpoint before it and parsing at most a stride on.
+// Sorted and filtered pages are lists of row numbers, found in one pass per query and read back the same way.
+
+import { parseCsvStream, parseCsvStreamWithOffsets, type CsvSource } from "@/lib/csv-parser"
+import { storedEncoding } from "@/lib/encoding"
+import { createRecordClassifier } from "@/lib/headers"
+import { findMatchingRows, type RowQueryOptions, type RowQueryResult } from "@/lib/row-query"
+import { readRowIndex, writeRowIndex, type StorageAdapter } from "@/lib/storage"
+import type { ColumnHeader, CsvDialect, EncodingReport, RowIndex, TextEncodingName } from "@/lib/types"
+
+export const ROW_INDEX_STRIDE = 1000
+/** Most rows one request may read */
+export const MAX_ROWS_LIMIT = 1000
+/** Query results kept in this process, so paging through one does not read the file again for every page */
+const MAX_CACHED_QUERIES = 8
+/** Query passes reading a file at once in this process; more wait for one to finish */
+const MAX_CONCURRENT_QUERY_SCANS = 2
+
+export type RowSliceOptions = {
+  /** Every column of the file; rows with a different field count are malformed and not counted */
+  columns: ColumnHeader[]
+  dialect: CsvDialect
+  encoding?: TextEncodingName
+  /** 0-based index of the first row, among well-formed data rows */
+  offset: number
+  limit: number
+}
+
+/**
+ * Offsets come from re-encoding decoded text, so they are only exact when nothing was replaced while decoding:
+ * a transcoded file (replacement characters were written out) or one without undecodable bytes.
+ */
+export function offsetsAreExact(report: EncodingReport | undefined) {
+  return report !== undefined && (report.transcoded || report.undecodableLineCount === 0)
+}
+
+export type RowIndexBuilder = ReturnType<typeof createRowIndexBuilder>
+
+/**
+ * Collects a row index from the well-formed data rows of a pass over the file, in order, so a pass reading
+ * the file for another reason (the malformed row scan) can index it too. Offsets are dropped unless `exact`.
+ */
+export function createRowIndexBuilder(exact: boolean) {
+  let rowCount = 0
+  const checkpoints: number[] = []
+
+  function add(offset: number) {
+    if (exact && rowCount % ROW_INDEX_STRIDE === 0) checkpoints.push(offset)
+    rowCount++
+  }
+
+  function result(): RowIndex {
+    return { rowCount, stride: ROW_INDEX_STRIDE, checkpoints }
+  }
+
+  return { add, result }
+}
+
+/**
+ * Counts the well-formed data rows of a CSV byte stream, recording where every `ROW_INDEX_STRIDE`-th one starts.
+ * The expected field count is that of the header (or first) record, as in the malformed row scan.
+ */
+export async function buildRowIndex(
+  source: CsvSource,
+  { dialect, encoding, exact }: { dialect: CsvDialect; encoding?: TextEncodingName; exact: boolean }
+): Promise<RowIndex> {
+  const classify = createRecordClassifier(dialect)
+  const builder = createRowIndexBuilder(exact)
+  let expectedFields: number | null = null
+
+  for await (const { record, offset } of parseCsvStreamWithOffsets(source, { dialect, encoding })) {
+    const kind = classify()
+    if (kind === "skipped") continue
+    expectedFields ??= record.length
+    if (kind === "header" || record.length !== expectedFields) continue
+    builder.add(offset)
+  }
+
+  return builder.result()
+}
+
+/**
+ * Builds and saves the row index of a session's assembled file, for sessions finalized before finalize indexed rows.
+ */
+export async function indexAssembledFile(
+  storage: StorageAdapter,
+  sessionId: string,
+  { dialect, encoding }: { dialect: CsvDialect; encoding?: EncodingReport }
+) {
+  const source = await storage.streamAssembled(sessionId)
+  if (!source) throw new Error("Assembled file not found")
+  const index = await buildRowIndex(source, { dialect, encoding: storedEncoding(encoding), exact: offsetsAreExact(encoding) })
+  await writeRowIndex(storage, sessionId, index)
+  return index
+}
+
+// Indexes being built in this process, so concurrent requests for a session finalized before row indexes share one pass
+const globalIndexes = globalThis as typeof globalThis & { __pendingRowIndexes?: Map<string, Promise<RowIndex>> }
+
+/**
+ * Returns the row index of a finalized session, building it first for sessions finalized without one.
+ */
+export async function ensureRowIndex(
+  storage: StorageAdapter,
+  sessionId: string,
+  options: { dialect: CsvDialect; encoding?: EncodingReport }
+) {
+  const existing = await readRowIndex(storage, sessionId)
+  if (existing) return existing
+
+  globalIndexes.__pendingRowIndexes ??= new Map()
+  const pending = globalIndexes.__pendingRowIndexes
+  let job = pending.get(sessionId)
+  if (!job) {
+    job = indexAssembledFile(storage, sessionId, options)
+    pending.set(sessionId, job)
+    void job.catch(() => undefined).finally(() => pending.delete(sessionId))
+  }
+  return await job
+}
+
+/**
+ * Reads `limit` well-formed data rows from `offset` on, keyed by column id. `open` returns the assembled file
+ * from a byte offset; reading starts at the checkpoint before `offset`, or at the start of the file without one.
+ */
+export async function* readRowSlice(
+  open: (start: number) => Promise<CsvSource>,
+  index: RowIndex,
+  { columns, dialect, encoding, offset, limit }: RowSliceOptions
+): AsyncGenerator<Record<string, string>> {
+  if (limit <= 0 || offset >= index.rowCount) return
+
+  const checkpoint = Math.min(Math.floor(offset / index.stride), index.checkpoints.length - 1)
+  // From a checkpoint, every record is data; from the start, the header and skipped rows come first
+  const classify = checkpoint >= 0 ? () => "data" : createRecordClassifier(dialect)
+  let skip = checkpoint >= 0 ? offset - checkpoint * index.stride : offset
+  const source = await open(checkpoint >= 0 ? index.checkpoints[checkpoint]! : 0)
+
+  let emitted = 0
+  for await (const record of parseCsvStream(source, { dialect, encoding })) {
+    if (classify() !== "data" || record.length !== columns.length) continue
+    if (skip > 0) {
+      skip--
+      continue
+    }
+    const row: Record<string, string> = {}
+    for (const column of columns) row[column.id] = record[column.index] ?? ""
+    yield row
+    if (++emitted >= limit) return
+  }
+}
+
+/**
+ * Reads the data rows with the given numbers, in the order given. Rows between two checkpoints are read
+ * in one pass from the first checkpoint; without checkpoints, all of them in one pass from the start of the file.
+ */
+export async function* readRowsByNumber(
+  open: (start: number) => Promise<CsvSource>,
+  index: RowIndex,
+  options: Omit<RowSliceOptions, "offset" | "limit">,
+  rowNumbers: ArrayLike<number>
+): AsyncGenerator<Record<string, string>> {
+  const wanted = [...new Set(Array.from(rowNumbers))].sort((a, b) => a - b)
+  const needed = new Set(wanted)
+  const rows = new Map<number, Record<string, string>>()
+
+  for (let i = 0; i < wanted.length;) {
+    const first = wanted[i]!
+    const block = Math.floor(first / index.stride)
+    let j = i
+    while (j + 1 < wanted.length && (index.checkpoints.length === 0 || Math.floor(wanted[j + 1]! / index.stride) === block)) j++
+    const last = wanted[j]!
+
+    let n = first
+    for await (const row of readRowSlice(open, index, { ...options, offset: first, limit: last - first + 1 })) {
+      if (needed.has(n)) rows.set(n, row)
+      n++
+    }
+    i = j + 1
+  }
+
+  for (const n of Array.from(rowNumbers)) {
+    const row = rows.get(n)
+    if (row) yield row
+  }
+}
+
+// Query results by session, schema version and query, most recently used last; a failed read is dropped
+const globalQueries = globalThis as typeof globalThis & {
+  __rowQueries?: Map<string, Promise<RowQueryResult>>
+  __rowQueryScans?: { running: number; waiting: (() => void)[] }
+}
+
+/**
+ * Runs a query pass once fewer than `MAX_CONCURRENT_QUERY_SCANS` are running, so a burst of different queries
+ * reads the file a couple of times at once rather than once per request. Waiting passes start in arrival order.
+ */
+async function withScanSlot<T>(scan: () => Promise<T>) {
+  const slots = (globalQueries.__rowQueryScans ??= { running: 0, waiting: [] })
+  if (slots.running < MAX_CONCURRENT_QUERY_SCANS) slots.running++
+  else await new Promise<void>((resolve) => slots.waiting.push(resolve))
+  try {
+    return await scan()
+  } finally {
+    // The slot goes to the next waiting pass, if any
+    const next = slots.waiting.shift()
+    if (next) next()
+    else slots.running--
+  }
+}
+
+/**
+ * Returns the rows of a session's assembled file matching a query, reading the file once per query
+ * and schema version while the result stays among the `MAX_CACHED_QUERIES` most recently used.
+ */
+export async function queryRowNumbers(
+  storage: StorageAdapter,
+  sessionId: string,
+  schemaVersion: number,
+  options: RowQueryOptions
+) {
+  globalQueries.__rowQueries ??= new Map()
+  const cache = globalQueries.__rowQueries
+  const key = JSON.stringify([sessionId, schemaVersion, options.query])
+
+  let job = cache.get(key)
+  if (job) {
+    cache.delete(key)
+  } else {
+    job = withScanSlot(async () => {
+      const source = await storage.streamAssembled(sessionId)
+      if (!source) throw new Error("Assembled file not found")
+      return await findMatchingRows(source, options)
+    })
+    void job.catch(() => cache.get(key) === job && cache.delete(key))
+  }
+  cache.set(key, job)
+  while (cache.size > MAX_CACHED_QUERIES) cache.delete(cache.keys().next().value!)
+  return await job
+}
@@ -0,0 +1,232 @@
+// Sorting and filtering of data rows for GET /rows, following the column types of the saved session schema.
+// In the URL, a query is `sort=<column id>:<asc|desc>` and any number of `filter=<column id>:<operator>:<value>`.
+
+import { columnValueToNumber, parseFilterBound } from "@/lib/column-types"
+import { parseCsvStream, type CsvRecord, type CsvSource } from "@/lib/csv-parser"
+import { createRecordClassifier } from "@/lib/headers"
+import type {
+  ColumnHeader,
+  ColumnType,
+  ColumnTypeKind,
+  CsvDialect,
+  RowFilter,
+  RowFilterOperator,
+  RowQuery,
+  RowSort,
+  TextEncodingName,
+} from "@/lib/types"
+
+export const MAX_ROW_FILTERS = 20
+/** Most matching rows a sorted query may order in memory; more need filters first */
+export const MAX_SORTED_ROWS = 2_000_000
+
+export const EMPTY_ROW_QUERY: RowQuery = { sort: null, filters: [] }
+
+const FILTER_OPERATORS: RowFilterOperator[] = ["gte", "lte", "is", "contains", "equals"]
+// Kinds with an order: filtered by range, sorted by value
+const RANGE_KINDS = new Set<ColumnTypeKind>(["integer", "decimal", "currency", "percentage", "date", "datetime"])
+const UNKNOWN_TYPE: ColumnType = { kind: "unknown" }
+// Text is sorted ignoring case, with digit runs compared as numbers (`item2` before `item10`)
+const collator = new Intl.Collator("en", { numeric: true, sensitivity: "base" })
+
+export type RowQueryOptions = {
+  /** Every column of the file; rows with a different field count are malformed and not counted */
+  columns: ColumnHeader[]
+  /** By column id, as in the saved session schema */
+  types: Record<string, ColumnType>
+  dialect: CsvDialect
+  encoding?: TextEncodingName
+  query: RowQuery
+}
+
+/** Row numbers (0-based among well-formed data rows) matching a query, in its order */
+export type RowQueryResult = { ok: true; rowNumbers: Uint32Array } | { ok: false; error: string }
+
+type SortKey = number | string | null
+
+/**
+ * Operators a filter on a column of this type may use: a range for numbers and dates, true or false for booleans,
+ * and text matching for everything else.
+ */
+export function filterOperatorsOf(type: ColumnType): RowFilterOperator[] {
+  if (RANGE_KINDS.has(type.kind)) return ["gte", "lte"]
+  if (type.kind === "boolean") return ["is"]
+  return ["contains", "equals"]
+}
+
+export function isEmptyRowQuery(query: RowQuery) {
+  return query.sort === null && query.filters.length === 0
+}
+
+/**
+ * URL parameters of a query, as read by `parseRowQuery`.
+ */
+export function rowQueryParams(query: RowQuery): Array<[string, string]> {
+  const params: Array<[string, string]> = []
+  if (query.sort) params.push(["sort", `${query.sort.columnId}:${query.sort.direction}`])
+  for (const filter of query.filters) params.push(["filter", `${filter.columnId}:${filter.operator}:${filter.value}`])
+  return params
+}
+
+/**
+ * Reads the `sort` and `filter` parameters of a URL. Only their form is checked here; `checkRowQuery` checks
+ * them against the columns.
+ */
+export function parseRowQuery(params: URLSearchParams): { ok: true; query: RowQuery } | { ok: false; error: string } {
+  let sort: RowSort | null = null
+  const rawSort = params.get("sort")
+  if (rawSort !== null) {
+    const [columnId, direction, ...rest] = rawSort.split(":")
+    if (!columnId || rest.length > 0 || (direction !== "asc" && direction !== "desc")) {
+      return { ok: false, error: "sort must be <column id>:asc or <column id>:desc" }
+    }
+    sort = { columnId, direction }
+  }
+
+  const filters: RowFilter[] = []
+  for (const raw of params.getAll("filter")) {
+    const match = /^([^:]+):([^:]+):([\s\S]*)$/.exec(raw)
+    const operator = match?.[2] as RowFilterOperator | undefined
+    if (!match || !operator || !FILTER_OPERATORS.includes(operator)) {
+      return { ok: false, error: `filter must be <column id>:<${FILTER_OPERATORS.join("|")}>:<value>` }
+    }
+    filters.push({ columnId: match[1]!, operator, value: match[3]! })
+  }
+  if (filters.length > MAX_ROW_FILTERS) return { ok: false, error: `At most ${MAX_ROW_FILTERS} filters are allowed` }
+
+  return { ok: true, query: { sort, filters } }
+}
+
+/**
+ * Checks a query against the columns of the file and their types: known columns, operators that fit the type,
+ * and bounds that can be read. Returns the first problem, or null.
+ */
+export function checkRowQuery(query: RowQuery, columns: ColumnHeader[], types: Record<string, ColumnType>): string | null {
+  const ids = new Set(columns.map((c) => c.id))
+  if (query.sort && !ids.has(query.sort.columnId)) return `Unknown sort column: ${query.sort.columnId}`
+
+  for (const { columnId, operator, value } of query.filters) {
+    if (!ids.has(columnId)) return `Unknown filter column: ${columnId}`
+    const type = types[columnId] ?? UNKNOWN_TYPE
+    if (!filterOperatorsOf(type).includes(operator)) return `${operator} does not apply to ${columnId}, a ${type.kind} column`
+    if ((operator === "gte" || operator === "lte") && parseFilterBound(value, type) === null) {
+      return `Invalid ${type.kind} bound for ${columnId}: ${value}`
+    }
+    if (operator === "is" && value !== "true" && value !== "false") return `${columnId} can only be filtered by true or false`
+    if ((operator === "contains" || operator === "equals") && value.trim() === "") return `Empty ${operator} filter on ${columnId}`
+  }
+  return null
+}
+
+// One filter as a test of a record; the query has been checked
+function compileFilter({ columnId, operator, value }: RowFilter, columns: ColumnHeader[], types: Record<string, ColumnType>) {
+  const index = columns.find((c) => c.id === columnId)!.index
+  const type = types[columnId] ?? UNKNOWN_TYPE
+  switch (operator) {
+    case "gte":
+    case "lte": {
+      const bound = parseFilterBound(value, type)!
+      return (record: CsvRecord) => {
+        const n = columnValueToNumber(record[index] ?? "", type)
+        return n !== null && (operator === "gte" ? n >= bound : n <= bound)
+      }
+    }
+    case "is": {
+      if (type.kind !== "boolean") return () => false
+      const expected = (value === "true" ? type.trueValue : type.falseValue).toLowerCase()
+      return (record: CsvRecord) => (record[index] ?? "").trim().toLowerCase() === expected
+    }
+    case "contains": {
+      const needle = value.toLowerCase()
+      return (record: CsvRecord) => (record[index] ?? "").toLowerCase().includes(needle)
+    }
+    case "equals": {
+      const expected = value.trim().toLowerCase()
+      return (record: CsvRecord) => (record[index] ?? "").trim().toLowerCase() === expected
+    }
+  }
+}
+
+// Value a record is sorted by: a number for ordered kinds (false before true for booleans), text otherwise;
+// null for empty cells and values that do not match the type
+function compileSortKey({ columnId }: RowSort, columns: ColumnHeader[], types: Record<string, ColumnType>) {
+  const index = columns.find((c) => c.id === columnId)!.index
+  const type = types[columnId] ?? UNKNOWN_TYPE
+  if (RANGE_KINDS.has(type.kind)) return (record: CsvRecord): SortKey => columnValueToNumber(record[index] ?? "", type)
+  if (type.kind === "boolean") {
+    const trueValue = type.trueValue.toLowerCase()
+    const falseValue = type.falseValue.toLowerCase()
+    return (record: CsvRecord): SortKey => {
+      const v = (record[index] ?? "").trim().toLowerCase()
+      return v === trueValue ? 1 : v === falseValue ? 0 : null
+    }
+  }
+  return (record: CsvRecord): SortKey => (record[index] ?? "").trim() || null
+}
+
+// Empty and unreadable values come last in either direction
+function compareSortKeys(a: SortKey, b: SortKey, direction: RowSort["direction"]) {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1
+  const order = typeof a === "number" && typeof b === "number" ? a - b : collator.compare(String(a), String(b))
+  return direction === "asc" ? order : -order
+}
+
+// Matching row numbers in a Uint32Array that doubles when full: 4 bytes per match rather than an array slot,
+// for a filter that keeps most rows of a large file
+function createRowNumberList() {
+  let rows = new Uint32Array(1024)
+  let length = 0
+  return {
+    get length() {
+      return length
+    },
+    push(n: number) {
+      if (length === rows.length) {
+        const grown = new Uint32Array(rows.length * 2)
+        grown.set(rows)
+        rows = grown
+      }
+      rows[length++] = n
+    },
+    /** The row numbers pushed so far, without the unused capacity */
+    result() {
+      return rows.slice(0, length)
+    },
+  }
+}
+
+/**
+ * Reads a CSV byte stream once and returns the numbers of the data rows matching a query, in its order
+ * (file order among equal values). Row numbers count well-formed data rows, as the row index does.
+ * A sort with more than `MAX_SORTED_ROWS` matches stops early with an error.
+ */
+export async function findMatchingRows(
+  source: CsvSource,
+  { columns, types, dialect, encoding, query }: RowQueryOptions
+): Promise<RowQueryResult> {
+  const classify = createRecordClassifier(dialect)
+  const filters = query.filters.map((f) => compileFilter(f, columns, types))
+  const sortKey = query.sort ? compileSortKey(query.sort, columns, types) : null
+  const matches = createRowNumberList()
+  const keys: SortKey[] = []
+  let rowNumber = 0
+
+  for await (const record of parseCsvStream(source, { dialect, encoding })) {
+    if (classify() !== "data" || record.length !== columns.length) continue
+    const n = rowNumber++
+    if (!filters.every((test) => test(record))) continue
+    matches.push(n)
+    if (!sortKey) continue
+    if (matches.length > MAX_SORTED_ROWS) {
+      return { ok: false, error: `More than ${MAX_SORTED_ROWS.toLocaleString("en")} rows to sort; filter them first` }
+    }
+    keys.push(sortKey(record))
+  }
+
+  const rowNumbers = matches.result()
+  if (!query.sort) return { ok: true, rowNumbers }
+  const { direction } = query.sort
+  const order = Uint32Array.from(keys.keys())
+  order.sort((a, b) => compareSortKeys(keys[a] ?? null, keys[b] ?? null, direction) || a - b)
+  return { ok: true, rowNumbers: order.map((i) => rowNumbers[i]!) }
+}
@@ -0,0 +1,364 @@
+// Schema contracts: the columns an upload must have, and rules for their values. The same checker runs in the
+// browser during validation (with the wizard's column renames) and over the whole file at finalize (after renames).
+
+import { matchesContractType, parseAnyNumber } from "@/lib/column-types"
+import { parseCsvStreamWithPositions, type CsvRecord, type CsvSource } from "@/lib/csv-parser"
+import { createRecordClassifier, normalizeHeaders } from "@/lib/headers"
+import type {
+  ColumnHeader,
+  ColumnRenames,
+  ContractCheckResult,
+  ContractColumn,
+  ContractValueType,
+  CsvDialect,
+  SchemaContract,
+  SchemaIssue,
+  SchemaIssueSeverity,
+  TextEncodingName,
+} from "@/lib/types"
+
+export const CONTRACT_VALUE_TYPES: ContractValueType[] = ["string", "integer", "number", "boolean", "date", "datetime", "email", "url"]
+
+// Lines and example values listed per violation; beyond these they are only counted
+const LISTED_LINES = 10
+const LISTED_EXAMPLES = 3
+// Distinct values remembered per unique column; past this, later duplicates of values not remembered are missed
+const UNIQUE_TRACKED_VALUES = 1_000_000
+const MAX_CONTRACT_COLUMNS = 500
+// Contracts are stored and shown as submitted, so their free text is bounded
+const MAX_NAME_LENGTH = 200
+const MAX_DESCRIPTION_LENGTH = 2000
+const MAX_PATTERN_LENGTH = 500
+const MAX_ENUM_VALUES = 1000
+const MAX_ENUM_VALUE_LENGTH = 200
+
+const CONTRACT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+export type ContractScanOptions = {
+  contract: SchemaContract
+  dialect: CsvDialect
+  encoding?: TextEncodingName
+  columnRenames?: ColumnRenames
+}
+
+export function isValidContractId(value: unknown): value is string {
+  return typeof value === "string" && CONTRACT_ID_PATTERN.test(value)
+}
+
+function contractKey(name: string) {
+  return name.trim().toLowerCase()
+}
+
+// Anchored so a pattern must match the whole value
+function compilePattern(pattern: string) {
+  return new RegExp(`^(?:${pattern})$`)
+}
+
+// A quantifier that may repeat its atom more than once: *, +, {n,} and {n,m} with m > 1
+function repeatsAt(pattern: string, i: number) {
+  const ch = pattern[i]
+  if (ch === "*" || ch === "+") return true
+  const bounds = ch === "{" ? /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i)) : null
+  if (!bounds) return false
+  return bounds[2] !== undefined && (bounds[3] === "" || Number(bounds[3]) > 1)
+}
+
+/**
+ * Looks for the constructs that make a regex backtrack exponentially on a value that almost matches: a repeated
+ * group that itself holds a quantifier or alternatives (`(a+)+`, `(a|aa)*`), and backreferences.
+ * Patterns run over every value of the file at finalize, so one of these could hold the server for minutes.
+ * Returns why the pattern is refused, or null.
+ */
+function findBacktrackingRisk(pattern: string): string | null {
+  // Per open group: whether it holds a quantifier or an alternation
+  const groups: boolean[] = [false]
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]
+    if (ch === "\\") {
+      if (/[1-9k]/.test(pattern[i + 1] ?? "")) return "pattern must not use backreferences"
+      i++
+    } else if (ch === "[") {
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) if (pattern[i] === "\\") i++
+    } else if (ch === "(") {
+      groups.push(false)
+    } else if (ch === ")") {
+      const risky = groups.pop() ?? false
+      if (risky && repeatsAt(pattern, i + 1)) {
+        return "pattern must not repeat a group that holds a quantifier or alternatives, e.g. (a+)+ or (a|b)*"
+      }
+      if (risky && groups.length > 0) groups[groups.length - 1] = true
+    } else if (ch === "|" || repeatsAt(pattern, i)) {
+      groups[groups.length - 1] = true
+    }
+  }
+  return null
+}
+
+/**
+ * Checks a contract submitted to the contracts route.
+ * Returns an error message, or null when the contract is acceptable.
+ */
+export function checkContractInput(value: unknown): string | null {
+  if (typeof value !== "object" || value === null) return "The contract must be an object"
+  const input = value as Record<string, unknown>
+  if (typeof input.name !== "string" || input.name.trim() === "") return "Missing name"
+  if (input.name.length > MAX_NAME_LENGTH) return `name must be at most ${MAX_NAME_LENGTH} characters`
+  if (input.description !== undefined && typeof input.description !== "string") return "description must be a string"
+  if (typeof input.description === "string" && input.description.length > MAX_DESCRIPTION_LENGTH) {
+    return `description must be at most ${MAX_DESCRIPTION_LENGTH} characters`
+  }
+  if (input.allowExtraColumns !== undefined && typeof input.allowExtraColumns !== "boolean") return "allowExtraColumns must be a boolean"
+  if (!Array.isArray(input.columns) || input.columns.length === 0) return "columns must list at least one column"
+  if (input.columns.length > MAX_CONTRACT_COLUMNS) return `A contract lists at most ${MAX_CONTRACT_COLUMNS} columns`
+
+  const names = new Set<string>()
+  for (const [i, item] of (input.columns as unknown[]).entries()) {
+    const error = checkContractColumn(item)
+    if (error) return `columns[${i}]: ${error}`
+    const key = contractKey((item as ContractColumn).name)
+    if (names.has(key)) return `columns[${i}]: duplicate column "${(item as ContractColumn).name}"`
+    names.add(key)
+  }
+  return null
+}
+
+function checkContractColumn(value: unknown): string | null {
+  if (typeof value !== "object" || value === null) return "must be an object"
+  const column = value as Record<string, unknown>
+  if (typeof column.name !== "string" || column.name.trim() === "") return "missing name"
+  if (column.name.length > MAX_NAME_LENGTH) return `name must be at most ${MAX_NAME_LENGTH} characters`
+  if (typeof column.required !== "boolean") return "required must be true or false"
+  if (column.type !== undefined && !CONTRACT_VALUE_TYPES.includes(column.type as ContractValueType)) {
+    return `type must be one of ${CONTRACT_VALUE_TYPES.join(", ")}`
+  }
+  if (column.pattern !== undefined) {
+    if (typeof column.pattern !== "string") return "pattern must be a string"
+    if (column.pattern.length > MAX_PATTERN_LENGTH) return `pattern must be at most ${MAX_PATTERN_LENGTH} characters`
+    try {
+      compilePattern(column.pattern)
+    } catch {
+      return "pattern is not a valid regular expression"
+    }
+    const risk = findBacktrackingRisk(column.pattern)
+    if (risk) return risk
+  }
+  if (column.enum !== undefined) {
+    if (!Array.isArray(column.enum) || column.enum.length === 0 || column.enum.some((v) => typeof v !== "string")) {
+      return "enum must list at least one string"
+    }
+    if (column.enum.length > MAX_ENUM_VALUES) return `enum lists at most ${MAX_ENUM_VALUES} values`
+    if (column.enum.some((v: string) => v.length > MAX_ENUM_VALUE_LENGTH)) {
+      return `enum values must be at most ${MAX_ENUM_VALUE_LENGTH} characters`
+    }
+  }
+  for (const bound of ["minimum", "maximum"] as const) {
+    if (column[bound] === undefined) continue
+    if (typeof column[bound] !== "number" || !Number.isFinite(column[bound])) return `${bound} must be a number`
+    if (column.type !== "integer" && column.type !== "number") return `${bound} needs type integer or number`
+  }
+  if (typeof column.minimum === "number" && typeof column.maximum === "number" && column.minimum > column.maximum) {
+    return "minimum is above maximum"
+  }
+  if (column.unique !== undefined && typeof column.unique !== "boolean") return "unique must be true or false"
+  if (column.severity !== undefined && column.severity !== "error" && column.severity !== "warning") {
+    return "severity must be error or warning"
+  }
+  return null
+}
+
+// 53-bit string hash (cyrb53): collisions are negligible at UNIQUE_TRACKED_VALUES, and a number is far smaller than the value
+function hashValue(value: string) {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0)
+}
+
+/**
+ * Rows breaking one rule of one column: all counted, the first lines and distinct values kept for the report.
+ */
+function createViolations(message: (count: number) => string) {
+  let count = 0
+  const lines: number[] = []
+  const examples: string[] = []
+
+  function add(line: number, value?: string) {
+    count++
+    if (lines.length < LISTED_LINES) lines.push(line)
+    if (value !== undefined && examples.length < LISTED_EXAMPLES && !examples.includes(value)) examples.push(value)
+  }
+
+  function issue(column: string, severity: SchemaIssueSeverity): SchemaIssue | null {
+    if (count === 0) return null
+    const more = count > lines.length ? ` and ${(count - lines.length).toLocaleString()} more` : ""
+    const shown = examples.length > 0 ? `, e.g. ${examples.map((v) => JSON.stringify(v)).join(", ")}` : ""
+    return { column, severity, message: message(count), details: `Line${count === 1 ? "" : "s"} ${lines.join(", ")}${more}${shown}` }
+  }
+
+  return { add, issue }
+}
+
+// What a value of each contract type is called in messages
+const TYPE_NOUNS: Record<ContractValueType, string> = {
+  string: "a string",
+  integer: "an integer",
+  number: "a number",
+  boolean: "a boolean",
+  date: "a date",
+  datetime: "a date and time",
+  email: "an email address",
+  url: "a URL",
+}
+
+function describeRange({ minimum, maximum }: ContractColumn) {
+  if (minimum !== undefined && maximum !== undefined) return `between ${minimum} and ${maximum}`
+  return minimum !== undefined ? `at least ${minimum}` : `at most ${maximum}`
+}
+
+/**
+ * Checks the values of one file column against one contract column, row by row.
+ */
+function createColumnCheck(rule: ContractColumn, column: ColumnHeader) {
+  // "1 value is" / "2 values are", with the verb agreeing with the count
+  const values = (count: number, one: string, many: string) =>
+    `${count.toLocaleString()} value${count === 1 ? ` ${one}` : `s ${many}`}`
+  const pattern = rule.pattern !== undefined ? compilePattern(rule.pattern) : null
+  const allowed = rule.enum ? new Set(rule.enum.map((v) => v.trim())) : null
+  const hasRange = rule.minimum !== undefined || rule.maximum !== undefined
+  const seen = rule.unique ? new Set<number>() : null
+  let uniqueTruncated = false
+
+  const empty = createViolations((n) => `${values(n, "is", "are")} missing, but the column is required`)
+  const wrongType = createViolations((n) => `${values(n, "is", "are")} not ${rule.type ? TYPE_NOUNS[rule.type] : "valid"}`)
+  const wrongPattern = createViolations((n) => `${values(n, "does", "do")} not match the pattern ${rule.pattern}`)
+  const notAllowed = createViolations((n) => `${values(n, "is", "are")} not one of ${rule.enum?.slice(0, 10).join(", ")}${(rule.enum?.length ?? 0) > 10 ? ", …" : ""}`)
+  const outOfRange = createViolations((n) => `${values(n, "is", "are")} not ${describeRange(rule)}`)
+  const duplicates = createViolations((n) => `${values(n, "repeats", "repeat")} an earlier value, but the column is unique`)
+
+  function add(raw: string | undefined, line: number) {
+    const value = raw?.trim() ?? ""
+    if (value === "") {
+      if (rule.required) empty.add(line)
+      return
+    }
+    if (rule.type && !matchesContractType(value, rule.type)) wrongType.add(line, value)
+    if (pattern && !pattern.test(value)) wrongPattern.add(line, value)
+    if (allowed && !allowed.has(value)) notAllowed.add(line, value)
+    if (hasRange) {
+      const n = parseAnyNumber(value)
+      if (n !== null && ((rule.minimum !== undefined && n < rule.minimum) || (rule.maximum !== undefined && n > rule.maximum))) {
+        outOfRange.add(line, value)
+      }
+    }
+    if (seen) {
+      const hash = hashValue(value)
+      if (seen.has(hash)) duplicates.add(line, value)
+      else if (seen.size < UNIQUE_TRACKED_VALUES) seen.add(hash)
+      else uniqueTruncated = true
+    }
+  }
+
+  function issues(): SchemaIssue[] {
+    const severity = rule.severity ?? "error"
+    const found = [empty, wrongType, wrongPattern, notAllowed, outOfRange, duplicates]
+      .map((v) => v.issue(column.name, severity))
+      .filter((issue): issue is SchemaIssue => issue !== null)
+    if (uniqueTruncated) {
+      found.push({
+        column: column.name,
+        severity: "warning",
+        message: "Uniqueness was only checked in part",
+        details: `The column has more than ${UNIQUE_TRACKED_VALUES.toLocaleString()} distinct values; later duplicates of the values past that may be missed`,
+      })
+    }
+    return found
+  }
+
+  return { index: column.index, add, issues }
+}
+
+/**
+ * Checks data rows against a contract, given the file's columns. Contract columns are matched to file columns
+ * by name; missing and (unless allowed) extra columns are reported once, value rules row by row.
+ * Only the data rows with as many fields as the header should be added.
+ */
+export function createContractChecker(contract: SchemaContract, columns: ColumnHeader[]) {
+  const byName = new Map<string, ColumnHeader>()
+  for (const column of columns) {
+    if (!byName.has(contractKey(column.name))) byName.set(contractKey(column.name), column)
+  }
+  const expected = new Set(contract.columns.map((c) => contractKey(c.name)))
+  const checks = contract.columns.flatMap((rule) => {
+    const column = byName.get(contractKey(rule.name))
+    return column ? [createColumnCheck(rule, column)] : []
+  })
+  let rowCount = 0
+
+  function add(record: CsvRecord, line: number) {
+    rowCount++
+    for (const check of checks) check.add(record[check.index], line)
+  }
+
+  function result(): ContractCheckResult {
+    const issues: SchemaIssue[] = []
+    for (const rule of contract.columns) {
+      if (!rule.required || byName.has(contractKey(rule.name))) continue
+      issues.push({
+        column: rule.name,
+        severity: rule.severity ?? "error",
+        message: "Required column is missing",
+        details: `The contract "${contract.name}" expects this column; the file has ${columns.map((c) => c.name).join(", ") || "no columns"}`,
+      })
+    }
+    if (contract.allowExtraColumns === false) {
+      for (const column of columns) {
+        if (expected.has(contractKey(column.name))) continue
+        issues.push({ column: column.name, severity: "warning", message: "Column is not in the contract" })
+      }
+    }
+    for (const check of checks) issues.push(...check.issues())
+
+    return {
+      contractId: contract.id,
+      contractName: contract.name,
+      rowCount,
+      issues,
+      blocked: issues.some((issue) => issue.severity === "error"),
+    }
+  }
+
+  return { add, result }
+}
+
+/**
+ * Checks every data row of a CSV byte stream against a contract, with the column names the preview uses
+ * (header renames applied). Malformed rows are left out, as everywhere after finalize.
+ */
+export async function checkSchemaContract(
+  source: CsvSource,
+  { contract, dialect, encoding, columnRenames }: ContractScanOptions
+): Promise<ContractCheckResult> {
+  const classify = createRecordClassifier(dialect)
+  let columns: ColumnHeader[] | null = null
+  let checker: ReturnType<typeof createContractChecker> | null = null
+
+  for await (const { record, line } of parseCsvStreamWithPositions(source, { dialect, encoding })) {
+    const kind = classify()
+    if (kind === "skipped") continue
+    if (kind === "header") {
+      columns = normalizeHeaders(record, record.length, columnRenames)
+      continue
+    }
+    columns ??= normalizeHeaders(null, record.length, columnRenames)
+    checker ??= createContractChecker(contract, columns)
+    if (record.length === columns.length) checker.add(record, line)
+  }
+
+  return (checker ?? createContractChecker(contract, columns ?? [])).result()
+}
@@ -1,36 +1,29 @@
-/**
- * Schema issue severity levels
- */
-export type SchemaIssueSeverity = "warning" | "error"
+import { describeColumnType, matchesColumnType, sameColumnType } from "@/lib/column-types"
+import type { ColumnHeader, ColumnProfile, ColumnType, DatasetProfile, EncodingReport, SchemaIssue } from "@/lib/types"
 
-/**
- * Represents a detected schema issue
- */
-export interface SchemaIssue {
-  column: string
-  severity: SchemaIssueSeverity
-  message: string
-  details?: string
-}
+export type { SchemaIssue, SchemaIssueSeverity } from "@/lib/types"
 
 /**
- * Detects schema issues in the preview data
+ * Detects schema issues in the preview data, or in the whole file once its profile is available
  * 
  * Checks for:
  * - Mixed types within columns
  * - High percentage of missing values
  * - Completely empty columns
- * - Duplicate column names
+ * - Duplicate and blank header names (the columns were renamed, so this is reported as a warning)
  * 
- * @param columns - Array of column names
- * @param types - Inferred types for each column
- * @param rows - Preview rows data
+ * @param columns - Columns of the preview, with the session schema applied
+ * @param types - Inferred or edited types, by column id
+ * @param rows - Preview rows data, by column id
+ * @param profile - Full-file profile; when given, counts come from it instead of the preview rows
+ *   (type mismatches only for columns it was computed with the same type for)
  * @returns Array of detected schema issues
  */
 export function detectSchemaIssues(
-  columns: string[],
-  types: Record<string, string>,
-  rows: Array<Record<string, string>>
+  columns: ColumnHeader[],
+  types: Record<string, ColumnType>,
+  rows: Array<Record<string, string>>,
+  profile?: DatasetProfile | null
 ): SchemaIssue[] {
   const issues: SchemaIssue[] = []
 
@@ -38,26 +31,43 @@ export function detectSchemaIssues(
     return issues
   }
 
-  // Check for duplicate column names
-  const columnCounts = new Map<string, number>()
+  // Check for duplicate header names (as written in the file, ignoring case); they were given unique names
+  const duplicates = new Map<string, ColumnHeader[]>()
   columns.forEach((col) => {
-    columnCounts.set(col, (columnCounts.get(col) ?? 0) + 1)
+    const key = col.original.trim().toLowerCase()
+    if (key !== "") duplicates.set(key, [...(duplicates.get(key) ?? []), col])
   })
-  columnCounts.forEach((count, col) => {
-    if (count > 1) {
+  duplicates.forEach((cols) => {
+    if (cols.length > 1) {
       issues.push({
-        column: col,
-        severity: "error",
-        message: `Duplicate column name (appears ${count} times)`,
+        column: cols[0]!.original.trim(),
+        severity: "warning",
+        message: `Duplicate column name (appears ${cols.length} times)`,
+        details: `Shown as ${cols.map((c) => c.name).join(", ")}`,
+      })
+    }
+  })
+
+  // Check for blank header names (only when the file has a header row)
+  const hasHeader = columns.some((col) => col.original.trim() !== "")
+  columns.forEach((col) => {
+    if (hasHeader && col.original.trim() === "") {
+      issues.push({
+        column: col.name,
+        severity: "warning",
+        message: `Blank column name in position ${col.index + 1}`,
+        details: `Shown as ${col.name}`,
       })
     }
   })
 
   // Analyze each column
-  columns.forEach((column) => {
-    const columnValues = rows.map((row) => row[column] ?? "").filter((val) => val !== "")
-    const nonEmptyCount = columnValues.length
-    const totalCount = rows.length
+  columns.forEach((col) => {
+    const column = col.name
+    const columnProfile = profile?.columns.find((p) => p.id === col.id)
+    const columnValues = rows.map((row) => row[col.id] ?? "").filter((val) => val !== "")
+    const nonEmptyCount = columnProfile ? columnProfile.rowCount - columnProfile.nullCount : columnValues.length
+    const totalCount = columnProfile?.rowCount ?? rows.length
     const emptyPercentage = ((totalCount - nonEmptyCount) / totalCount) * 100
 
     // Check for completely empty columns
@@ -83,14 +93,16 @@ export function detectSchemaIssues(
 
     // Check for mixed types (if we have enough data)
     if (nonEmptyCount >= 5) {
-      const inferredType = types[column] ?? "unknown"
-      const typeConsistency = checkTypeConsistency(columnValues, inferredType)
+      const inferredType = types[col.id] ?? { kind: "unknown" }
+      const typeConsistency = columnProfile && sameColumnType(columnProfile.type, inferredType)
+        ? consistencyOf(nonEmptyCount - columnProfile.mismatchCount, nonEmptyCount, inferredType)
+        : checkTypeConsistency(columnValues, inferredType)
 
       if (!typeConsistency.isConsistent) {
         issues.push({
           column,
           severity: "warning",
-          message: `Mixed types detected (inferred as ${inferredType})`,
+          message: `Mixed types detected (inferred as ${describeColumnType(inferredType)})`,
           details: typeConsistency.details,
         })
       }
@@ -107,60 +119,88 @@ export function detectSchemaIssues(
  * @param inferredType - The inferred type for this column
  * @returns Object indicating consistency and details
  */
-function checkTypeConsistency(values: string[], inferredType: string): { isConsistent: boolean; details?: string } {
-  if (inferredType === "unknown") {
+function checkTypeConsistency(values: string[], inferredType: ColumnType): { isConsistent: boolean; details?: string } {
+  // Free text accepts any value
+  if (inferredType.kind === "unknown" || inferredType.kind === "string" || inferredType.kind === "categorical") {
     return { isConsistent: true }
   }
 
   let consistentCount = 0
-  const typeChecks: Record<string, (v: string) => boolean> = {
-    number: (v) => /^-?\d+(\.\d+)?$/.test(v.trim()),
-    boolean: (v) => /^(true|false)$/i.test(v.trim()),
-    string: () => true, // Strings are always consistent
-  }
-
-  const checker = typeChecks[inferredType]
-  if (!checker) {
-    return { isConsistent: true }
-  }
-
   values.forEach((val) => {
-    if (checker(val)) {
+    if (matchesColumnType(val, inferredType)) {
       consistentCount++
     }
   })
 
-  const consistencyPercentage = (consistentCount / values.length) * 100
+  return consistencyOf(consistentCount, values.length, inferredType)
+}
+
+// Values matching the inferred type must reach 80% for the column to be consistent
+function consistencyOf(consistentCount: number, totalCount: number, inferredType: ColumnType): { isConsistent: boolean; details?: string } {
+  const consistencyPercentage = (consistentCount / totalCount) * 100
 
   // If less than 80% of values match the inferred type, consider it inconsistent
   if (consistencyPercentage < 80) {
     return {
       isConsistent: false,
-      details: `Only ${Math.round(consistencyPercentage)}% of values match ${inferredType} type`,
+      details: `Only ${Math.round(consistencyPercentage)}% of values match ${describeColumnType(inferredType)} type`,
     }
   }
 
   return { isConsistent: true }
 }
 
+/**
+ * Reports the lines of the uploaded file that contained bytes its detected encoding could not decode.
+ * Those characters were replaced with U+FFFD in the preview (and in the transcoded file).
+ *
+ * @param report - Encoding report written by finalize
+ * @returns A single issue listing the affected line numbers, or none
+ */
+export function detectEncodingIssues(report: EncodingReport | undefined): SchemaIssue[] {
+  if (!report || report.undecodableLineCount === 0) return []
+
+  const { undecodableLineCount: count, undecodableLines: lines } = report
+  const shown = lines.slice(0, 20).join(", ")
+  const more = count > 20 ? ` and ${count - 20} more` : ""
+  return [{
+    column: "File encoding",
+    severity: "warning",
+    message: `${count} line${count === 1 ? "" : "s"} contain bytes that are not valid ${report.encoding.toUpperCase()}`,
+    details: `Lines ${shown}${more}. These characters are shown as �; re-export the file as UTF-8 to keep them.`,
+  }]
+}
+
 /**
  * Calculates column statistics for summary view
  * 
- * @param column - Column name
- * @param rows - Preview rows data
+ * @param column - Column id
+ * @param rows - Preview rows data, by column id
  * @param type - Inferred type for the column
+ * @param columnProfile - Full-file profile of the column; when given, counts come from it
  * @returns Statistics object
  */
 export function getColumnStats(
   column: string,
   rows: Array<Record<string, string>>,
-  type: string
+  type: ColumnType,
+  columnProfile?: ColumnProfile
 ): {
   filledCount: number
   emptyCount: number
   fillPercentage: number
   sampleValues: string[]
 } {
+  if (columnProfile) {
+    const filledCount = columnProfile.rowCount - columnProfile.nullCount
+    return {
+      filledCount,
+      emptyCount: columnProfile.nullCount,
+      fillPercentage: columnProfile.rowCount > 0 ? Math.round((filledCount / columnProfile.rowCount) * 100) : 0,
+      sampleValues: columnProfile.topValues.slice(0, 3).map((v) => v.value),
+    }
+  }
+
   const values = rows.map((row) => row[column] ?? "")
   const nonEmptyValues = values.filter((v) => v !== "")
   const filledCount = nonEmptyValues.length
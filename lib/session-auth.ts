@@ -0,0 +1,145 @@
+import crypto from "crypto"
+import type { StorageAdapter } from "@/lib/storage/adapter"
+import { readManifest } from "@/lib/storage"
+import type { UploadManifest } from "@/lib/types"
+
+const TOKEN_VERSION = "v1"
+const EXPORT_LINK_VERSION = "export-v1"
+// Long enough to start the download (or resume it shortly after), short enough that a leaked link soon stops working
+export const EXPORT_LINK_TTL_MS = 15 * 60 * 1000
+// Session ids are always issued by init as random UUIDs; anything else is rejected before it reaches storage
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+const globalSecret = globalThis as typeof globalThis & { __uploadTokenSecret?: string }
+
+export function isValidSessionId(value: unknown): value is string {
+  return typeof value === "string" && SESSION_ID_PATTERN.test(value)
+}
+
+/**
+ * Reads `UPLOAD_TOKEN_SECRET`. Production refuses to start without it; in development a random
+ * per-process secret is used, so tokens (and resume) do not survive a server restart.
+ */
+function getTokenSecret() {
+  const secret = process.env.UPLOAD_TOKEN_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") throw new Error("UPLOAD_TOKEN_SECRET must be set in production")
+  if (!globalSecret.__uploadTokenSecret) {
+    console.warn("UPLOAD_TOKEN_SECRET is not set, using a random secret for this process")
+    globalSecret.__uploadTokenSecret = crypto.randomBytes(32).toString("hex")
+  }
+  return globalSecret.__uploadTokenSecret
+}
+
+// Binds the token to the manifest fields fixed at init, so it cannot be replayed against another session
+function tokenDigest(manifest: UploadManifest) {
+  const payload = [TOKEN_VERSION, manifest.sessionId, manifest.size, manifest.createdAt, manifest.filename].join("\n")
+  return crypto.createHmac("sha256", getTokenSecret()).update(payload).digest("base64url")
+}
+
+/**
+ * Issues the capability token returned by init. Whoever holds it may upload to, finalize and read the session.
+ */
+export function signUploadToken(manifest: UploadManifest) {
+  return `${TOKEN_VERSION}.${tokenDigest(manifest)}`
+}
+
+export function verifyUploadToken(manifest: UploadManifest, token: string) {
+  const expected = Buffer.from(signUploadToken(manifest))
+  const actual = Buffer.from(token)
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
+
+/** What a signed export link grants: one export of one session, until `expires` (ms since the epoch) */
+export type ExportLink = {
+  sessionId: string
+  format: string
+  columns: string | null
+  expires: number
+}
+
+// JSON keeps the fields apart whatever they contain, and the version keeps the payload distinct from upload tokens
+function exportLinkDigest(link: ExportLink) {
+  const payload = JSON.stringify([EXPORT_LINK_VERSION, link.sessionId, link.format, link.columns, link.expires])
+  return crypto.createHmac("sha256", getTokenSecret()).update(payload).digest("base64url")
+}
+
+/**
+ * Signs a download link for one export of a session, so a plain link can download it without the upload token.
+ */
+export function signExportLink(link: Omit<ExportLink, "expires">) {
+  const expires = Date.now() + EXPORT_LINK_TTL_MS
+  return { expires, signature: exportLinkDigest({ ...link, expires }) }
+}
+
+export function verifyExportLink(link: ExportLink, signature: string) {
+  if (!Number.isSafeInteger(link.expires) || link.expires < Date.now()) return false
+  const expected = Buffer.from(exportLinkDigest(link))
+  const actual = Buffer.from(signature)
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
+
+export type SessionAuthResult =
+  | { ok: true; manifest: UploadManifest }
+  | { ok: false; status: number; error: string }
+
+/**
+ * Checks the `Authorization: Bearer <token>` header of a request that publishes shared data (schema contracts)
+ * against `CONTRACTS_ADMIN_TOKEN`. Without that variable nothing can be published over HTTP.
+ */
+export function authorizeAdmin(authorization: string | null): { ok: true } | { ok: false; status: number; error: string } {
+  const secret = process.env.CONTRACTS_ADMIN_TOKEN
+  if (!secret) return { ok: false, status: 403, error: "Publishing contracts is disabled (CONTRACTS_ADMIN_TOKEN is not set)" }
+  const token = authorization?.match(/^Bearer (.+)$/)?.[1]
+  if (!token) return { ok: false, status: 401, error: "Missing admin token" }
+  // Compared as digests so the lengths match and the comparison takes the same time whatever the input
+  const digest = (value: string) => crypto.createHash("sha256").update(value).digest()
+  if (!crypto.timingSafeEqual(digest(token), digest(secret))) return { ok: false, status: 403, error: "Invalid admin token" }
+  return { ok: true }
+}
+
+// Malformed ids are rejected with 400 before touching storage
+async function loadSession(storage: StorageAdapter, sessionId: string | null | undefined): Promise<SessionAuthResult> {
+  if (!sessionId) return { ok: false, status: 400, error: "Missing sessionId" }
+  if (!isValidSessionId(sessionId)) return { ok: false, status: 400, error: "Invalid sessionId" }
+
+  const manifest = await readManifest(storage, sessionId)
+  if (!manifest) return { ok: false, status: 404, error: "Unknown session" }
+  return { ok: true, manifest }
+}
+
+/**
+ * Checks a request's session id and upload token, in that order, and loads the manifest.
+ * Malformed ids are rejected with 400 before touching storage; a missing token is 401, a wrong one 403.
+ */
+export async function authorizeSession(
+  storage: StorageAdapter,
+  sessionId: string | null | undefined,
+  token: string | null | undefined
+): Promise<SessionAuthResult> {
+  const session = await loadSession(storage, sessionId)
+  if (!session.ok) return session
+
+  if (!token) return { ok: false, status: 401, error: "Missing upload token" }
+  if (!verifyUploadToken(session.manifest, token)) return { ok: false, status: 403, error: "Invalid upload token" }
+
+  return session
+}
+
+/**
+ * Like `authorizeSession`, for a signed export link instead of the upload token: 403 when the signature does not
+ * match the link's parameters or the link has expired.
+ */
+export async function authorizeExportLink(
+  storage: StorageAdapter,
+  link: Omit<ExportLink, "sessionId"> & { sessionId: string | null },
+  signature: string
+): Promise<SessionAuthResult> {
+  const session = await loadSession(storage, link.sessionId)
+  if (!session.ok) return session
+
+  if (!verifyExportLink({ ...link, sessionId: session.manifest.sessionId }, signature)) {
+    return { ok: false, status: 403, error: "Invalid or expired download link" }
+  }
+  return session
+}
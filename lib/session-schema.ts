@@ -0,0 +1,100 @@
+// Schema edits of a finalized session: renamed, retyped and excluded columns, saved as a versioned document
+// next to the preview. Exports and profiling apply the saved version; the preview also applies unsaved edits, live.
+
+import { isValidColumnType, sameColumnType } from "@/lib/column-types"
+import { MAX_COLUMN_NAME_LENGTH } from "@/lib/headers"
+import type { ColumnHeader, ColumnSchemaEdit, ColumnType, SessionSchema } from "@/lib/types"
+
+const EDIT_FIELDS = new Set(["name", "type", "excluded"])
+
+/**
+ * Schema of a session nobody has edited: version 0, the columns as inferred at finalize.
+ */
+export function emptySessionSchema(sessionId: string): SessionSchema {
+  return { sessionId, version: 0, updatedAt: null, columns: {} }
+}
+
+/**
+ * Applies schema edits to the columns and types inferred at finalize. Excluded columns are left out;
+ * the others keep their id and position in the file, with the edited name and type.
+ */
+export function applySessionSchema(
+  columns: ColumnHeader[],
+  types: Record<string, ColumnType>,
+  edits: Record<string, ColumnSchemaEdit> | undefined
+) {
+  const applied: ColumnHeader[] = []
+  const appliedTypes: Record<string, ColumnType> = { ...types }
+  for (const column of columns) {
+    const edit = edits?.[column.id]
+    if (edit?.type) appliedTypes[column.id] = edit.type
+    if (edit?.excluded) continue
+    applied.push(edit?.name ? { ...column, name: edit.name } : column)
+  }
+  return { columns: applied, types: appliedTypes }
+}
+
+/**
+ * Drops edits that change nothing (the inferred name or type, `excluded: false`) and trims names,
+ * so equal schemas are stored the same way.
+ */
+export function normalizeSchemaEdits(
+  edits: Record<string, ColumnSchemaEdit>,
+  columns: ColumnHeader[],
+  types: Record<string, ColumnType>
+) {
+  const normalized: Record<string, ColumnSchemaEdit> = {}
+  for (const column of columns) {
+    const edit = edits[column.id]
+    if (!edit) continue
+    const name = edit.name?.trim()
+    const inferred = types[column.id] ?? { kind: "unknown" }
+    const kept: ColumnSchemaEdit = {
+      ...(name && name !== column.name ? { name } : {}),
+      ...(edit.type && !sameColumnType(edit.type, inferred) ? { type: edit.type } : {}),
+      ...(edit.excluded ? { excluded: true } : {}),
+    }
+    if (Object.keys(kept).length > 0) normalized[column.id] = kept
+  }
+  return normalized
+}
+
+/**
+ * Checks schema edits received from a client against the file's columns: known column ids, non-blank names,
+ * valid types, names unique among the included columns (ignoring case) and at least one included column.
+ * Returns an error message, or null when the edits can be saved.
+ */
+export function checkSchemaEdits(value: unknown, columns: ColumnHeader[]): string | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return "columns must be an object keyed by column id"
+  const ids = new Set(columns.map((c) => c.id))
+
+  for (const [id, edit] of Object.entries(value)) {
+    if (!ids.has(id)) return `Unknown column ${id}`
+    if (typeof edit !== "object" || edit === null || Array.isArray(edit)) return `${id}: must be an object`
+    const unknown = Object.keys(edit).find((key) => !EDIT_FIELDS.has(key))
+    if (unknown) return `${id}: unknown field ${unknown}`
+    const { name, type, excluded } = edit as Record<string, unknown>
+    if (name !== undefined && (typeof name !== "string" || name.trim() === "" || name.length > MAX_COLUMN_NAME_LENGTH)) {
+      return `${id}: name must be a non-blank string of at most ${MAX_COLUMN_NAME_LENGTH} characters`
+    }
+    if (type !== undefined && !isValidColumnType(type)) return `${id}: invalid type`
+    if (excluded !== undefined && typeof excluded !== "boolean") return `${id}: excluded must be true or false`
+  }
+
+  return checkAppliedColumns(applySessionSchema(columns, {}, value as Record<string, ColumnSchemaEdit>).columns)
+}
+
+/**
+ * Checks the columns a schema leaves: at least one, with names unique ignoring case (as header names are).
+ * Returns an error message, or null.
+ */
+export function checkAppliedColumns(columns: ColumnHeader[]): string | null {
+  if (columns.length === 0) return "At least one column must stay included"
+  const seen = new Set<string>()
+  for (const column of columns) {
+    const key = column.name.trim().toLowerCase()
+    if (seen.has(key)) return `More than one column is named "${column.name.trim()}"`
+    seen.add(key)
+  }
+  return null
+}
@@ -0,0 +1,82 @@
+import type { ByteRange, ReceivedChunk } from "@/lib/types"
+
+/**
+ * Space used by a session and the time of its most recent write, as reported by a backend.
+ */
+export type SessionUsage = {
+  sessionId: string
+  bytes: number
+  lastModifiedMs: number
+}
+
+export type AssembleResult = {
+  sha256: string
+  size: number
+}
+
+/** Directory (or key prefix) of the records that belong to no session; session ids are UUIDs, so it cannot clash */
+export const SHARED_RECORDS_PREFIX = "_shared"
+
+const RECORD_NAME_PATTERN = /^[\w.-]+$/
+
+/**
+ * Throws unless a record collection or id is a plain name, so it cannot reach outside the shared records.
+ */
+export function checkRecordName(name: string) {
+  if (!RECORD_NAME_PATTERN.test(name) || name === "." || name === "..") throw new Error(`Invalid record name: ${JSON.stringify(name)}`)
+}
+
+/**
+ * Everything the upload routes need from a storage backend.
+ *
+ * A session owns three kinds of data: chunks (keyed by byte offset), the assembled
+ * file, and named artifacts such as the manifest, the stored preview or an export.
+ * Routes only talk to this interface; `getStorage()` picks the implementation.
+ */
+export interface StorageAdapter {
+  readonly name: string
+
+  writeChunk(sessionId: string, offset: number, bytes: Uint8Array): Promise<void>
+  listChunks(sessionId: string): Promise<ReceivedChunk[]>
+  readChunk(sessionId: string, offset: number): Promise<Buffer>
+
+  /**
+   * Concatenates the given chunks, in order, into the assembled file and hashes it on the way.
+   * Must keep memory bounded and never expose a partially assembled file.
+   */
+  assemble(sessionId: string, chunks: ReceivedChunk[]): Promise<AssembleResult>
+  /**
+   * Replaces the assembled file with the given bytes (e.g. a transcoded copy of itself), with the same
+   * guarantees as `assemble`. `body` may be reading the current assembled file while it is written.
+   */
+  writeAssembled(sessionId: string, body: AsyncIterable<Uint8Array>): Promise<AssembleResult>
+  /** Streams the assembled file, or a byte range of it. Null when the session is not assembled. */
+  streamAssembled(sessionId: string, range?: ByteRange): Promise<AsyncIterable<Uint8Array> | null>
+  assembledSize(sessionId: string): Promise<number | null>
+  removeAssembled(sessionId: string): Promise<void>
+
+  readArtifact(sessionId: string, name: string): Promise<Buffer | null>
+  writeArtifact(sessionId: string, name: string, data: string | Uint8Array): Promise<void>
+  /**
+   * Writes a large artifact (e.g. an export) from a stream, with the same guarantees as `assemble`:
+   * bounded memory, and the artifact only appears once it is complete.
+   */
+  writeArtifactStream(sessionId: string, name: string, body: AsyncIterable<Uint8Array>): Promise<AssembleResult>
+  /** Streams an artifact, or a byte range of it. Null when it does not exist. */
+  streamArtifact(sessionId: string, name: string, range?: ByteRange): Promise<AsyncIterable<Uint8Array> | null>
+  artifactSize(sessionId: string, name: string): Promise<number | null>
+  /** Removes an artifact; does nothing when it does not exist. */
+  deleteArtifact(sessionId: string, name: string): Promise<void>
+
+  /**
+   * Small named records that belong to no session (e.g. schema contracts), grouped by collection.
+   * They are never listed as sessions, so they are never swept. Names are limited to letters, digits, `_`, `.` and `-`.
+   */
+  readRecord(collection: string, id: string): Promise<Buffer | null>
+  writeRecord(collection: string, id: string, data: string | Uint8Array): Promise<void>
+  listRecords(collection: string): Promise<string[]>
+
+  /** Removes everything stored for a session. Returns false when there was nothing to delete. */
+  deleteSession(sessionId: string): Promise<boolean>
+  listSessions(): Promise<SessionUsage[]>
+}
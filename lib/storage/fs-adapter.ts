@@ -0,0 +1,261 @@
+import fs from "fs/promises"
+import { createReadStream, createWriteStream } from "fs"
+import { pipeline } from "stream/promises"
+import crypto from "crypto"
+import path from "path"
+import {
+  SHARED_RECORDS_PREFIX,
+  checkRecordName,
+  type AssembleResult,
+  type SessionUsage,
+  type StorageAdapter,
+} from "@/lib/storage/adapter"
+import type { ByteRange, ReceivedChunk } from "@/lib/types"
+
+const ASSEMBLED_FILE = "assembled.csv"
+
+// Chunks are keyed by byte offset (zero-padded so a name sort is an offset sort)
+function chunkFilename(offset: number) {
+  return `chunk-${String(offset).padStart(15, "0")}.bin`
+}
+
+function chunkOffsetFromFilename(filename: string) {
+  return Number(filename.slice("chunk-".length, -".bin".length))
+}
+
+// Writes go to a uniquely named temporary file next to the target, then are renamed over it
+function tempFilename(file: string) {
+  return `${file}.${crypto.randomUUID()}.tmp`
+}
+
+// An entry removed between listing and reading it (a session swept, a temporary file renamed)
+function isMissing(error: unknown) {
+  return (error as NodeJS.ErrnoException | null)?.code === "ENOENT"
+}
+
+/**
+ * Local filesystem backend: one directory per session under `dataDir`.
+ */
+export function createFsStorage(dataDir: string): StorageAdapter {
+  const root = path.resolve(dataDir)
+
+  // Routes validate session ids, but never let one resolve outside the data directory regardless
+  const sessionDir = (sessionId: string) => {
+    const dir = path.resolve(root, sessionId)
+    if (path.dirname(dir) !== root) throw new Error(`Invalid session id: ${JSON.stringify(sessionId)}`)
+    return dir
+  }
+
+  async function ensureDir(p: string) {
+    await fs.mkdir(p, { recursive: true })
+  }
+
+  /**
+   * Writes `data` to a temporary file and renames it to `name`, so a reader (or a crash) never sees a partial file.
+   */
+  async function writeFileAtomic(dir: string, name: string, data: string | Uint8Array) {
+    await ensureDir(dir)
+    const out = path.join(dir, name)
+    const tmp = tempFilename(out)
+    try {
+      await fs.writeFile(tmp, data)
+    } catch (error: unknown) {
+      await fs.rm(tmp, { force: true })
+      throw error
+    }
+    await fs.rename(tmp, out)
+  }
+
+  async function writeChunk(sessionId: string, offset: number, bytes: Uint8Array) {
+    await writeFileAtomic(sessionDir(sessionId), chunkFilename(offset), bytes)
+  }
+
+  async function listChunks(sessionId: string): Promise<ReceivedChunk[]> {
+    const dir = sessionDir(sessionId)
+    const files = await fs.readdir(dir).catch(() => [] as string[])
+    const chunkFiles = files.filter((f) => f.startsWith("chunk-") && f.endsWith(".bin")).sort()
+    return await Promise.all(
+      chunkFiles.map(async (f) => {
+        const stat = await fs.stat(path.join(dir, f))
+        return { offset: chunkOffsetFromFilename(f), bytes: stat.size }
+      })
+    )
+  }
+
+  async function readChunk(sessionId: string, offset: number) {
+    return await fs.readFile(path.join(sessionDir(sessionId), chunkFilename(offset)))
+  }
+
+  /**
+   * Streams `body` into a temporary file, hashing on the way through, and renames it to `name`.
+   * Only one read buffer is held at a time.
+   */
+  async function writeFileStream(sessionId: string, name: string, body: AsyncIterable<Uint8Array>): Promise<AssembleResult> {
+    const dir = sessionDir(sessionId)
+    await ensureDir(dir)
+    const out = path.join(dir, name)
+    const tmp = tempFilename(out)
+    const hash = crypto.createHash("sha256")
+    let size = 0
+
+    try {
+      await pipeline(async function* () {
+        for await (const buf of body) {
+          hash.update(buf)
+          size += buf.length
+          yield buf
+        }
+      }, createWriteStream(tmp))
+    } catch (error: unknown) {
+      await fs.rm(tmp, { force: true })
+      throw error
+    }
+    await fs.rename(tmp, out)
+
+    return { sha256: hash.digest("hex"), size }
+  }
+
+  async function writeAssembled(sessionId: string, body: AsyncIterable<Uint8Array>) {
+    return await writeFileStream(sessionId, ASSEMBLED_FILE, body)
+  }
+
+  /**
+   * Streams the chunk files one after another into `assembled.csv`.
+   */
+  async function assemble(sessionId: string, chunks: ReceivedChunk[]) {
+    const dir = sessionDir(sessionId)
+    return await writeAssembled(sessionId, (async function* () {
+      for (const chunk of chunks) {
+        yield* createReadStream(path.join(dir, chunkFilename(chunk.offset))) as AsyncIterable<Buffer>
+      }
+    })())
+  }
+
+  async function streamFile(sessionId: string, name: string, range?: ByteRange) {
+    const file = path.join(sessionDir(sessionId), name)
+    const exists = await fs.stat(file).then(() => true, () => false)
+    if (!exists) return null
+    if (range && range.end <= range.start) return (async function* () {})()
+    // createReadStream's `end` is inclusive
+    return createReadStream(file, range ? { start: range.start, end: range.end - 1 } : undefined)
+  }
+
+  async function streamAssembled(sessionId: string, range?: ByteRange) {
+    return await streamFile(sessionId, ASSEMBLED_FILE, range)
+  }
+
+  async function fileSize(sessionId: string, name: string) {
+    const stat = await fs.stat(path.join(sessionDir(sessionId), name)).catch(() => null)
+    return stat ? stat.size : null
+  }
+
+  async function assembledSize(sessionId: string) {
+    return await fileSize(sessionId, ASSEMBLED_FILE)
+  }
+
+  async function removeAssembled(sessionId: string) {
+    await fs.rm(path.join(sessionDir(sessionId), ASSEMBLED_FILE), { force: true })
+  }
+
+  async function readArtifact(sessionId: string, name: string) {
+    return await fs.readFile(path.join(sessionDir(sessionId), name)).catch(() => null)
+  }
+
+  async function writeArtifact(sessionId: string, name: string, data: string | Uint8Array) {
+    await writeFileAtomic(sessionDir(sessionId), name, data)
+  }
+
+  async function writeArtifactStream(sessionId: string, name: string, body: AsyncIterable<Uint8Array>) {
+    return await writeFileStream(sessionId, name, body)
+  }
+
+  async function streamArtifact(sessionId: string, name: string, range?: ByteRange) {
+    return await streamFile(sessionId, name, range)
+  }
+
+  async function artifactSize(sessionId: string, name: string) {
+    return await fileSize(sessionId, name)
+  }
+
+  async function deleteArtifact(sessionId: string, name: string) {
+    await fs.rm(path.join(sessionDir(sessionId), name), { force: true })
+  }
+
+  const recordDir = (collection: string) => {
+    checkRecordName(collection)
+    return path.join(root, SHARED_RECORDS_PREFIX, collection)
+  }
+
+  async function readRecord(collection: string, id: string) {
+    checkRecordName(id)
+    return await fs.readFile(path.join(recordDir(collection), id)).catch(() => null)
+  }
+
+  async function writeRecord(collection: string, id: string, data: string | Uint8Array) {
+    checkRecordName(id)
+    await writeFileAtomic(recordDir(collection), id, data)
+  }
+
+  async function listRecords(collection: string) {
+    const files = await fs.readdir(recordDir(collection)).catch(() => [] as string[])
+    return files.filter((f) => !f.endsWith(".tmp")).sort()
+  }
+
+  async function deleteSession(sessionId: string) {
+    const dir = sessionDir(sessionId)
+    const exists = await fs.stat(dir).then(() => true, () => false)
+    await fs.rm(dir, { recursive: true, force: true })
+    return exists
+  }
+
+  async function listSessions(): Promise<SessionUsage[]> {
+    const entries = await fs.readdir(dataDir, { withFileTypes: true }).catch(() => [])
+    const sessions: SessionUsage[] = []
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name === SHARED_RECORDS_PREFIX) continue
+      const dir = path.join(dataDir, entry.name)
+      // A session removed while listing is skipped, and so is a file renamed or removed under it
+      const names = await fs.readdir(dir).catch((error: unknown) => {
+        if (isMissing(error)) return null
+        throw error
+      })
+      if (!names) continue
+      let bytes = 0
+      let lastModifiedMs = 0
+      for (const name of names) {
+        const stat = await fs.stat(path.join(dir, name)).catch((error: unknown) => {
+          if (isMissing(error)) return null
+          throw error
+        })
+        if (!stat) continue
+        bytes += stat.size
+        lastModifiedMs = Math.max(lastModifiedMs, stat.mtimeMs)
+      }
+      sessions.push({ sessionId: entry.name, bytes, lastModifiedMs })
+    }
+    return sessions
+  }
+
+  return {
+    name: "fs",
+    writeChunk,
+    listChunks,
+    readChunk,
+    assemble,
+    writeAssembled,
+    streamAssembled,
+    assembledSize,
+    removeAssembled,
+    readArtifact,
+    writeArtifact,
+    writeArtifactStream,
+    streamArtifact,
+    artifactSize,
+    deleteArtifact,
+    readRecord,
+    writeRecord,
+    listRecords,
+    deleteSession,
+    listSessions,
+  }
+}
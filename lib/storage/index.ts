@@ -0,0 +1,320 @@
+import path from "path"
+import { coverChunks } from "@/lib/chunk-ranges"
+import type { StorageAdapter } from "@/lib/storage/adapter"
+import { createFsStorage } from "@/lib/storage/fs-adapter"
+import { createMemoryObjectStore } from "@/lib/storage/object-store"
+import { createS3Storage } from "@/lib/storage/s3-adapter"
+import { createS3ObjectStore } from "@/lib/storage/s3-object-store"
+import type {
+  ByteRange,
+  DatasetProfile,
+  MalformedRowReport,
+  PreviewResponse,
+  RowIndex,
+  SchemaContract,
+  SessionSchema,
+  UploadManifest,
+  UploadSessionState,
+} from "@/lib/types"
+
+export type { StorageAdapter } from "@/lib/storage/adapter"
+
+export const DATA_DIR = path.join(process.cwd(), ".data")
+
+export const DEFAULT_CHUNK_BYTES = 1024 * 1024 // 1MB
+export const MIN_CHUNK_BYTES = 256 * 1024 // 256KB
+export const MAX_CHUNK_BYTES = 4 * 1024 * 1024 // 4MB, below typical serverless body limits
+const DEFAULT_MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024 // 2GB, as checked by the wizard
+
+const HOUR_MS = 60 * 60 * 1000
+const DEFAULT_INCOMPLETE_TTL_HOURS = 24
+const DEFAULT_FINALIZED_TTL_HOURS = 7 * 24
+
+const MANIFEST_FILE = "manifest.json"
+const PREVIEW_FILE = "preview.json"
+const PROFILE_FILE = "profile.json"
+const MALFORMED_ROWS_FILE = "malformed-rows.json"
+const SCHEMA_FILE = "schema.json"
+const ROW_INDEX_FILE = "row-index.json"
+const STORED_EXPORTS_FILE = "exports.json"
+const CONTRACTS_COLLECTION = "contracts"
+
+// Kept on globalThis so dev-mode module reloads (and the in-memory backend's data) share one instance
+const globalStorage = globalThis as typeof globalThis & { __uploadStorage?: StorageAdapter }
+
+/**
+ * Builds the backend selected by `STORAGE_BACKEND`:
+ * - `fs` (default): local directory, `DATA_DIR`
+ * - `s3`: S3-compatible bucket (`S3_BUCKET`, `S3_REGION`, `S3_ENDPOINT`, `S3_ACCESS_KEY_ID`, `S3_SECRET_ACCESS_KEY`, `S3_PREFIX`)
+ * - `memory`: the S3 backend over an in-memory object store, for tests and demos (data is lost on restart)
+ */
+function createStorageFromEnv(): StorageAdapter {
+  const backend = process.env.STORAGE_BACKEND ?? "fs"
+  switch (backend) {
+    case "fs":
+      return createFsStorage(DATA_DIR)
+    case "s3": {
+      const bucket = process.env.S3_BUCKET
+      if (!bucket) throw new Error("STORAGE_BACKEND=s3 requires S3_BUCKET")
+      const store = createS3ObjectStore({
+        bucket,
+        region: process.env.S3_REGION,
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      })
+      return createS3Storage(store, process.env.S3_PREFIX ?? "")
+    }
+    case "memory":
+      return createS3Storage(createMemoryObjectStore())
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}"`)
+  }
+}
+
+/**
+ * Returns the storage backend configured for this process.
+ */
+export function getStorage(): StorageAdapter {
+  globalStorage.__uploadStorage ??= createStorageFromEnv()
+  return globalStorage.__uploadStorage
+}
+
+async function readJsonArtifact<T>(storage: StorageAdapter, sessionId: string, name: string): Promise<T | null> {
+  const raw = await storage.readArtifact(sessionId, name)
+  if (!raw) return null
+  try {
+    return JSON.parse(raw.toString("utf8")) as T
+  } catch {
+    return null
+  }
+}
+
+export async function writeManifest(storage: StorageAdapter, manifest: UploadManifest) {
+  await storage.writeArtifact(manifest.sessionId, MANIFEST_FILE, JSON.stringify(manifest, null, 2))
+}
+
+/**
+ * Reads the manifest saved by init. Returns null when the session is unknown.
+ */
+export async function readManifest(storage: StorageAdapter, sessionId: string) {
+  return await readJsonArtifact<UploadManifest>(storage, sessionId, MANIFEST_FILE)
+}
+
+/**
+ * Moves a session to a new lifecycle state and persists it.
+ */
+export async function updateSessionState(
+  storage: StorageAdapter,
+  manifest: UploadManifest,
+  state: UploadSessionState,
+  error?: string
+) {
+  manifest.state = state
+  manifest.stateUpdatedAt = new Date().toISOString()
+  manifest.error = error
+  await writeManifest(storage, manifest)
+}
+
+/**
+ * Checks a chunk against the manifest: it must lie inside the file and respect the chunk size bounds.
+ * A chunk may be shorter than the minimum when it is the final one, or when it ends where a stored chunk
+ * starts (`endsAtStoredChunk`), so a resume can fill a short gap between chunks.
+ * Returns an error message, or null when the chunk is acceptable.
+ */
+export function checkChunkRange(
+  manifest: Pick<UploadManifest, "size" | "minChunkSize" | "maxChunkSize">,
+  offset: number,
+  bytes: number,
+  endsAtStoredChunk = false
+) {
+  if (offset >= manifest.size) return `Offset ${offset} is beyond the file size (${manifest.size})`
+  if (offset + bytes > manifest.size) return `Chunk at offset ${offset} runs past the end of the file`
+  if (bytes > manifest.maxChunkSize) return `Chunk has ${bytes} bytes, maximum is ${manifest.maxChunkSize}`
+  const isLast = offset + bytes === manifest.size
+  if (!isLast && !endsAtStoredChunk && bytes < manifest.minChunkSize) {
+    return `Chunk has ${bytes} bytes, minimum is ${manifest.minChunkSize}`
+  }
+  return null
+}
+
+/**
+ * Works out which stored chunks assemble the file, and which byte ranges are still missing.
+ */
+export async function planAssembly(storage: StorageAdapter, manifest: UploadManifest) {
+  const chunks = await storage.listChunks(manifest.sessionId)
+  return coverChunks(chunks, manifest.size)
+}
+
+/**
+ * Reads a byte range of the assembled file into memory, for samples and container headers.
+ * Null when the session is not assembled.
+ */
+export async function readAssembledRange(storage: StorageAdapter, sessionId: string, range: ByteRange) {
+  const body = await storage.streamAssembled(sessionId, range)
+  if (!body) return null
+  const parts: Buffer[] = []
+  for await (const part of body) parts.push(Buffer.from(part))
+  return Buffer.concat(parts)
+}
+
+/**
+ * Saves the preview computed at finalize next to the assembled file, so it is never recomputed.
+ */
+export async function writePreview(storage: StorageAdapter, preview: PreviewResponse) {
+  await storage.writeArtifact(preview.sessionId, PREVIEW_FILE, JSON.stringify(preview))
+}
+
+export async function readPreview(storage: StorageAdapter, sessionId: string) {
+  return await readJsonArtifact<PreviewResponse>(storage, sessionId, PREVIEW_FILE)
+}
+
+/**
+ * Saves the full-file profile once the background pass finishes.
+ */
+export async function writeProfile(storage: StorageAdapter, profile: DatasetProfile) {
+  await storage.writeArtifact(profile.sessionId, PROFILE_FILE, JSON.stringify(profile))
+}
+
+export async function readProfile(storage: StorageAdapter, sessionId: string) {
+  return await readJsonArtifact<DatasetProfile>(storage, sessionId, PROFILE_FILE)
+}
+
+/**
+ * Saves the malformed row report of the finalize scan, also when the "fail" policy stopped finalize.
+ */
+export async function writeMalformedRowReport(storage: StorageAdapter, sessionId: string, report: MalformedRowReport) {
+  await storage.writeArtifact(sessionId, MALFORMED_ROWS_FILE, JSON.stringify(report))
+}
+
+export async function readMalformedRowReport(storage: StorageAdapter, sessionId: string) {
+  return await readJsonArtifact<MalformedRowReport>(storage, sessionId, MALFORMED_ROWS_FILE)
+}
+
+/**
+ * Saves the row index of the assembled file, built at finalize (or on first row access for older sessions).
+ */
+export async function writeRowIndex(storage: StorageAdapter, sessionId: string, index: RowIndex) {
+  await storage.writeArtifact(sessionId, ROW_INDEX_FILE, JSON.stringify(index))
+}
+
+export async function readRowIndex(storage: StorageAdapter, sessionId: string) {
+  return await readJsonArtifact<RowIndex>(storage, sessionId, ROW_INDEX_FILE)
+}
+
+/**
+ * Saves the names of the exports stored for a session, oldest first.
+ */
+export async function writeStoredExports(storage: StorageAdapter, sessionId: string, names: string[]) {
+  await storage.writeArtifact(sessionId, STORED_EXPORTS_FILE, JSON.stringify(names))
+}
+
+export async function readStoredExports(storage: StorageAdapter, sessionId: string) {
+  return (await readJsonArtifact<string[]>(storage, sessionId, STORED_EXPORTS_FILE)) ?? []
+}
+
+/**
+ * Saves the schema edited in the preview. The caller has checked that it replaces the version it was edited from.
+ */
+export async function writeSessionSchema(storage: StorageAdapter, schema: SessionSchema) {
+  await storage.writeArtifact(schema.sessionId, SCHEMA_FILE, JSON.stringify(schema))
+}
+
+/**
+ * Reads the schema edited in the preview. Null when it was never saved: the session uses the schema inferred at finalize.
+ */
+export async function readSessionSchema(storage: StorageAdapter, sessionId: string) {
+  return await readJsonArtifact<SessionSchema>(storage, sessionId, SCHEMA_FILE)
+}
+
+/**
+ * Saves a schema contract, outside any session. Contracts are written once, when created.
+ */
+export async function writeContract(storage: StorageAdapter, contract: SchemaContract) {
+  await storage.writeRecord(CONTRACTS_COLLECTION, `${contract.id}.json`, JSON.stringify(contract))
+}
+
+export async function readContract(storage: StorageAdapter, contractId: string) {
+  const raw = await storage.readRecord(CONTRACTS_COLLECTION, `${contractId}.json`)
+  if (!raw) return null
+  try {
+    return JSON.parse(raw.toString("utf8")) as SchemaContract
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Lists every stored contract, oldest first.
+ */
+export async function listContracts(storage: StorageAdapter) {
+  const contracts: SchemaContract[] = []
+  for (const name of await storage.listRecords(CONTRACTS_COLLECTION)) {
+    if (!name.endsWith(".json")) continue
+    const contract = await readContract(storage, name.slice(0, -".json".length))
+    if (contract) contracts.push(contract)
+  }
+  return contracts.sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+/**
+ * Largest upload accepted, from `UPLOAD_MAX_BYTES` (2GB by default). It bounds both the declared size of
+ * an upload and the CSV decompressed from a .gz or .zip one.
+ */
+export function getMaxUploadBytes(): number {
+  const parsed = Number(process.env.UPLOAD_MAX_BYTES)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_UPLOAD_BYTES
+}
+
+export type SessionTtls = {
+  incompleteMs: number
+  finalizedMs: number
+}
+
+/**
+ * Reads the session TTLs from `UPLOAD_INCOMPLETE_TTL_HOURS` and `UPLOAD_FINALIZED_TTL_HOURS`,
+ * falling back to 24 hours for incomplete uploads and 7 days for finalized ones.
+ */
+export function getSessionTtls(): SessionTtls {
+  const hours = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+  }
+  return {
+    incompleteMs: hours(process.env.UPLOAD_INCOMPLETE_TTL_HOURS, DEFAULT_INCOMPLETE_TTL_HOURS) * HOUR_MS,
+    finalizedMs: hours(process.env.UPLOAD_FINALIZED_TTL_HOURS, DEFAULT_FINALIZED_TTL_HOURS) * HOUR_MS,
+  }
+}
+
+/**
+ * Removes expired sessions and reports how much space was reclaimed.
+ *
+ * Finalized (`ready`) sessions expire `finalizedMs` after they became ready.
+ * Any other session expires `incompleteMs` after its last write, so an upload that is
+ * still receiving chunks is never swept. Sessions without a readable manifest are
+ * treated as incomplete. Sessions currently `assembling` are left alone.
+ */
+export async function sweepExpiredSessions(
+  storage: StorageAdapter,
+  ttls: SessionTtls = getSessionTtls(),
+  now = Date.now()
+) {
+  const removed: string[] = []
+  let reclaimedBytes = 0
+
+  for (const { sessionId, bytes, lastModifiedMs } of await storage.listSessions()) {
+    const manifest = await readManifest(storage, sessionId)
+    if (manifest?.state === "assembling") continue
+
+    const expiresAt = manifest?.state === "ready"
+      ? Date.parse(manifest.stateUpdatedAt) + ttls.finalizedMs
+      : lastModifiedMs + ttls.incompleteMs
+    if (expiresAt > now) continue
+
+    await storage.deleteSession(sessionId)
+    removed.push(sessionId)
+    reclaimedBytes += bytes
+  }
+
+  return { removed, reclaimedBytes }
+}
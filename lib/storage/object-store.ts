@@ -0,0 +1,117 @@
+import type { ByteRange } from "@/lib/types"
+
+export type ObjectInfo = {
+  key: string
+  size: number
+  lastModifiedMs: number
+}
+
+export type CompletedPart = {
+  partNumber: number
+  etag: string
+}
+
+/** S3 rejects multipart parts below 5MB, except the last one */
+export const MIN_MULTIPART_PART_BYTES = 5 * 1024 * 1024
+
+/**
+ * The subset of the S3 API the object storage backend relies on.
+ * `createS3ObjectStore` maps it onto a real (or MinIO) bucket; `createMemoryObjectStore` is an in-memory fake.
+ */
+export interface ObjectStore {
+  putObject(key: string, body: Uint8Array): Promise<void>
+  /** Null when the key does not exist. `range` is half-open, like everywhere else in the upload code. */
+  getObject(key: string, range?: ByteRange): Promise<AsyncIterable<Uint8Array> | null>
+  headObject(key: string): Promise<ObjectInfo | null>
+  listObjects(prefix: string): Promise<ObjectInfo[]>
+  deleteObjects(keys: string[]): Promise<void>
+
+  createMultipartUpload(key: string): Promise<string>
+  uploadPart(key: string, uploadId: string, partNumber: number, body: Uint8Array): Promise<string>
+  completeMultipartUpload(key: string, uploadId: string, parts: CompletedPart[]): Promise<void>
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>
+}
+
+type StoredObject = { body: Buffer; lastModifiedMs: number }
+
+/**
+ * In-memory ObjectStore for tests and local runs without a bucket.
+ * Mirrors the S3 behaviours the backend depends on: the object only appears once a
+ * multipart upload completes, and non-final parts must be at least 5MB.
+ */
+export function createMemoryObjectStore(): ObjectStore {
+  const objects = new Map<string, StoredObject>()
+  const uploads = new Map<string, { key: string; parts: Map<number, Buffer> }>()
+  let nextUploadId = 1
+
+  async function putObject(key: string, body: Uint8Array) {
+    objects.set(key, { body: Buffer.from(body), lastModifiedMs: Date.now() })
+  }
+
+  async function getObject(key: string, range?: ByteRange) {
+    const object = objects.get(key)
+    if (!object) return null
+    const body = range ? object.body.subarray(range.start, range.end) : object.body
+    return (async function* () {
+      yield body
+    })()
+  }
+
+  async function headObject(key: string) {
+    const object = objects.get(key)
+    return object ? { key, size: object.body.length, lastModifiedMs: object.lastModifiedMs } : null
+  }
+
+  async function listObjects(prefix: string) {
+    return [...objects.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, o]) => ({ key, size: o.body.length, lastModifiedMs: o.lastModifiedMs }))
+      .sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  async function deleteObjects(keys: string[]) {
+    for (const key of keys) objects.delete(key)
+  }
+
+  async function createMultipartUpload(key: string) {
+    const uploadId = String(nextUploadId++)
+    uploads.set(uploadId, { key, parts: new Map() })
+    return uploadId
+  }
+
+  async function uploadPart(key: string, uploadId: string, partNumber: number, body: Uint8Array) {
+    const upload = uploads.get(uploadId)
+    if (!upload || upload.key !== key) throw new Error(`NoSuchUpload: ${uploadId}`)
+    upload.parts.set(partNumber, Buffer.from(body))
+    return `"part-${partNumber}"`
+  }
+
+  async function completeMultipartUpload(key: string, uploadId: string, parts: CompletedPart[]) {
+    const upload = uploads.get(uploadId)
+    if (!upload || upload.key !== key) throw new Error(`NoSuchUpload: ${uploadId}`)
+    const buffers = parts.map((p, i) => {
+      const body = upload.parts.get(p.partNumber)
+      if (!body) throw new Error(`InvalidPart: ${p.partNumber}`)
+      if (i < parts.length - 1 && body.length < MIN_MULTIPART_PART_BYTES) throw new Error(`EntityTooSmall: part ${p.partNumber}`)
+      return body
+    })
+    uploads.delete(uploadId)
+    objects.set(key, { body: Buffer.concat(buffers), lastModifiedMs: Date.now() })
+  }
+
+  async function abortMultipartUpload(_key: string, uploadId: string) {
+    uploads.delete(uploadId)
+  }
+
+  return {
+    putObject,
+    getObject,
+    headObject,
+    listObjects,
+    deleteObjects,
+    createMultipartUpload,
+    uploadPart,
+    completeMultipartUpload,
+    abortMultipartUpload,
+  }
+}
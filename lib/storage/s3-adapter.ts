@@ -0,0 +1,209 @@
+import crypto from "crypto"
+import {
+  SHARED_RECORDS_PREFIX,
+  checkRecordName,
+  type AssembleResult,
+  type SessionUsage,
+  type StorageAdapter,
+} from "@/lib/storage/adapter"
+import { MIN_MULTIPART_PART_BYTES, type CompletedPart, type ObjectStore } from "@/lib/storage/object-store"
+import type { ByteRange, ReceivedChunk } from "@/lib/types"
+
+const ASSEMBLED_KEY = "assembled.csv"
+const CHUNK_KEY_PATTERN = /\/chunk-(\d+)\.bin$/
+
+async function readAll(body: AsyncIterable<Uint8Array>) {
+  const parts: Buffer[] = []
+  for await (const part of body) parts.push(Buffer.from(part))
+  return Buffer.concat(parts)
+}
+
+/**
+ * Object storage backend: every session is a key prefix, chunks are `chunk-<offset>.bin` objects,
+ * and the assembled file is built with a multipart upload.
+ */
+export function createS3Storage(store: ObjectStore, keyPrefix = ""): StorageAdapter {
+  const sessionPrefix = (sessionId: string) => `${keyPrefix}${sessionId}/`
+  const chunkKey = (sessionId: string, offset: number) =>
+    `${sessionPrefix(sessionId)}chunk-${String(offset).padStart(15, "0")}.bin`
+  const assembledKey = (sessionId: string) => `${sessionPrefix(sessionId)}${ASSEMBLED_KEY}`
+
+  async function writeChunk(sessionId: string, offset: number, bytes: Uint8Array) {
+    await store.putObject(chunkKey(sessionId, offset), bytes)
+  }
+
+  async function listChunks(sessionId: string): Promise<ReceivedChunk[]> {
+    const objects = await store.listObjects(sessionPrefix(sessionId))
+    return objects.flatMap((o) => {
+      const match = CHUNK_KEY_PATTERN.exec(o.key)
+      return match ? [{ offset: Number(match[1]), bytes: o.size }] : []
+    })
+  }
+
+  async function readChunk(sessionId: string, offset: number) {
+    const body = await store.getObject(chunkKey(sessionId, offset))
+    if (!body) throw new Error(`Chunk at offset ${offset} not found`)
+    return await readAll(body)
+  }
+
+  const artifactKey = (sessionId: string, name: string) => `${sessionPrefix(sessionId)}${name}`
+
+  /**
+   * Streams `body` into a multipart upload, hashing on the way.
+   * Pieces are buffered into parts of at least S3's 5MB minimum; memory stays around one part.
+   * The object only appears (or is replaced) once the upload completes.
+   */
+  async function writeObjectStream(key: string, body: AsyncIterable<Uint8Array>): Promise<AssembleResult> {
+    const hash = crypto.createHash("sha256")
+    const uploadId = await store.createMultipartUpload(key)
+    const parts: CompletedPart[] = []
+    let pending: Buffer[] = []
+    let pendingBytes = 0
+    let size = 0
+
+    const flush = async () => {
+      const partNumber = parts.length + 1
+      const etag = await store.uploadPart(key, uploadId, partNumber, Buffer.concat(pending))
+      parts.push({ partNumber, etag })
+      pending = []
+      pendingBytes = 0
+    }
+
+    try {
+      for await (const piece of body) {
+        hash.update(piece)
+        pending.push(Buffer.from(piece))
+        pendingBytes += piece.length
+        size += piece.length
+        if (pendingBytes >= MIN_MULTIPART_PART_BYTES) await flush()
+      }
+      if (pendingBytes > 0 || parts.length === 0) await flush()
+      await store.completeMultipartUpload(key, uploadId, parts)
+    } catch (error: unknown) {
+      await store.abortMultipartUpload(key, uploadId).catch(() => undefined)
+      throw error
+    }
+
+    return { sha256: hash.digest("hex"), size }
+  }
+
+  async function writeAssembled(sessionId: string, body: AsyncIterable<Uint8Array>) {
+    return await writeObjectStream(assembledKey(sessionId), body)
+  }
+
+  /**
+   * Streams the chunk objects one after another into the assembled object.
+   * Chunks are smaller than the part minimum, so several chunks make up one part.
+   */
+  async function assemble(sessionId: string, chunks: ReceivedChunk[]) {
+    return await writeAssembled(sessionId, (async function* () {
+      for (const chunk of chunks) {
+        const body = await store.getObject(chunkKey(sessionId, chunk.offset))
+        if (!body) throw new Error(`Chunk at offset ${chunk.offset} not found`)
+        yield* body
+      }
+    })())
+  }
+
+  async function streamAssembled(sessionId: string, range?: ByteRange) {
+    return await store.getObject(assembledKey(sessionId), range)
+  }
+
+  async function assembledSize(sessionId: string) {
+    const info = await store.headObject(assembledKey(sessionId))
+    return info ? info.size : null
+  }
+
+  async function removeAssembled(sessionId: string) {
+    await store.deleteObjects([assembledKey(sessionId)])
+  }
+
+  async function readArtifact(sessionId: string, name: string) {
+    const body = await store.getObject(artifactKey(sessionId, name))
+    return body ? await readAll(body) : null
+  }
+
+  async function writeArtifact(sessionId: string, name: string, data: string | Uint8Array) {
+    await store.putObject(artifactKey(sessionId, name), typeof data === "string" ? Buffer.from(data) : data)
+  }
+
+  async function writeArtifactStream(sessionId: string, name: string, body: AsyncIterable<Uint8Array>) {
+    return await writeObjectStream(artifactKey(sessionId, name), body)
+  }
+
+  async function streamArtifact(sessionId: string, name: string, range?: ByteRange) {
+    return await store.getObject(artifactKey(sessionId, name), range)
+  }
+
+  async function artifactSize(sessionId: string, name: string) {
+    const info = await store.headObject(artifactKey(sessionId, name))
+    return info ? info.size : null
+  }
+
+  async function deleteArtifact(sessionId: string, name: string) {
+    await store.deleteObjects([artifactKey(sessionId, name)])
+  }
+
+  const recordPrefix = (collection: string) => {
+    checkRecordName(collection)
+    return `${keyPrefix}${SHARED_RECORDS_PREFIX}/${collection}/`
+  }
+
+  async function readRecord(collection: string, id: string) {
+    checkRecordName(id)
+    const body = await store.getObject(`${recordPrefix(collection)}${id}`)
+    return body ? await readAll(body) : null
+  }
+
+  async function writeRecord(collection: string, id: string, data: string | Uint8Array) {
+    checkRecordName(id)
+    await store.putObject(`${recordPrefix(collection)}${id}`, typeof data === "string" ? Buffer.from(data) : data)
+  }
+
+  async function listRecords(collection: string) {
+    const prefix = recordPrefix(collection)
+    return (await store.listObjects(prefix)).map((o) => o.key.slice(prefix.length))
+  }
+
+  async function deleteSession(sessionId: string) {
+    const objects = await store.listObjects(sessionPrefix(sessionId))
+    await store.deleteObjects(objects.map((o) => o.key))
+    return objects.length > 0
+  }
+
+  async function listSessions(): Promise<SessionUsage[]> {
+    const bySession = new Map<string, SessionUsage>()
+    for (const o of await store.listObjects(keyPrefix)) {
+      const sessionId = o.key.slice(keyPrefix.length).split("/")[0]
+      if (!sessionId || sessionId === SHARED_RECORDS_PREFIX) continue
+      const usage = bySession.get(sessionId) ?? { sessionId, bytes: 0, lastModifiedMs: 0 }
+      usage.bytes += o.size
+      usage.lastModifiedMs = Math.max(usage.lastModifiedMs, o.lastModifiedMs)
+      bySession.set(sessionId, usage)
+    }
+    return [...bySession.values()]
+  }
+
+  return {
+    name: "s3",
+    writeChunk,
+    listChunks,
+    readChunk,
+    assemble,
+    writeAssembled,
+    streamAssembled,
+    assembledSize,
+    removeAssembled,
+    readArtifact,
+    writeArtifact,
+    writeArtifactStream,
+    streamArtifact,
+    artifactSize,
+    deleteArtifact,
+    readRecord,
+    writeRecord,
+    listRecords,
+    deleteSession,
+    listSessions,
+  }
+}
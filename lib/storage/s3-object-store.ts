@@ -0,0 +1,147 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3"
+import type { CompletedPart, ObjectInfo, ObjectStore } from "@/lib/storage/object-store"
+import type { ByteRange } from "@/lib/types"
+
+export type S3ObjectStoreConfig = {
+  bucket: string
+  region?: string
+  /** Custom endpoint for S3-compatible servers such as MinIO */
+  endpoint?: string
+  accessKeyId?: string
+  secretAccessKey?: string
+}
+
+// S3 caps DeleteObjects at 1000 keys per request
+const DELETE_BATCH_SIZE = 1000
+
+function isNotFound(error: unknown) {
+  const e = error as { name?: string; $metadata?: { httpStatusCode?: number } }
+  return e?.name === "NoSuchKey" || e?.name === "NotFound" || e?.$metadata?.httpStatusCode === 404
+}
+
+/**
+ * ObjectStore backed by an S3-compatible bucket through the AWS SDK.
+ * With an `endpoint`, path-style addressing is used so MinIO and similar servers work out of the box.
+ */
+export function createS3ObjectStore(config: S3ObjectStoreConfig): ObjectStore {
+  const { bucket } = config
+  const client = new S3Client({
+    region: config.region ?? "us-east-1",
+    endpoint: config.endpoint,
+    forcePathStyle: !!config.endpoint,
+    credentials: config.accessKeyId && config.secretAccessKey
+      ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+      : undefined,
+  })
+
+  async function putObject(key: string, body: Uint8Array) {
+    await client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body }))
+  }
+
+  async function getObject(key: string, range?: ByteRange) {
+    if (range && range.end <= range.start) return (async function* () {})()
+    try {
+      const res = await client.send(new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        // HTTP ranges are inclusive
+        Range: range ? `bytes=${range.start}-${range.end - 1}` : undefined,
+      }))
+      return (res.Body as AsyncIterable<Uint8Array> | undefined) ?? null
+    } catch (error: unknown) {
+      if (isNotFound(error)) return null
+      throw error
+    }
+  }
+
+  async function headObject(key: string): Promise<ObjectInfo | null> {
+    try {
+      const res = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }))
+      return { key, size: res.ContentLength ?? 0, lastModifiedMs: res.LastModified?.getTime() ?? 0 }
+    } catch (error: unknown) {
+      if (isNotFound(error)) return null
+      throw error
+    }
+  }
+
+  async function listObjects(prefix: string) {
+    const out: ObjectInfo[] = []
+    let continuationToken: string | undefined
+    do {
+      const res = await client.send(new ListObjectsV2Command({
+        Bucket: bucket,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }))
+      for (const o of res.Contents ?? []) {
+        if (o.Key) out.push({ key: o.Key, size: o.Size ?? 0, lastModifiedMs: o.LastModified?.getTime() ?? 0 })
+      }
+      continuationToken = res.IsTruncated ? res.NextContinuationToken : undefined
+    } while (continuationToken)
+    return out
+  }
+
+  async function deleteObjects(keys: string[]) {
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      const batch = keys.slice(i, i + DELETE_BATCH_SIZE)
+      await client.send(new DeleteObjectsCommand({
+        Bucket: bucket,
+        Delete: { Objects: batch.map((Key) => ({ Key })), Quiet: true },
+      }))
+    }
+  }
+
+  async function createMultipartUpload(key: string) {
+    const res = await client.send(new CreateMultipartUploadCommand({ Bucket: bucket, Key: key }))
+    if (!res.UploadId) throw new Error(`Could not start multipart upload for ${key}`)
+    return res.UploadId
+  }
+
+  async function uploadPart(key: string, uploadId: string, partNumber: number, body: Uint8Array) {
+    const res = await client.send(new UploadPartCommand({
+      Bucket: bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: body,
+    }))
+    if (!res.ETag) throw new Error(`Part ${partNumber} of ${key} returned no ETag`)
+    return res.ETag
+  }
+
+  async function completeMultipartUpload(key: string, uploadId: string, parts: CompletedPart[]) {
+    await client.send(new CompleteMultipartUploadCommand({
+      Bucket: bucket,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: { Parts: parts.map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })) },
+    }))
+  }
+
+  async function abortMultipartUpload(key: string, uploadId: string) {
+    await client.send(new AbortMultipartUploadCommand({ Bucket: bucket, Key: key, UploadId: uploadId }))
+  }
+
+  return {
+    putObject,
+    getObject,
+    headObject,
+    listObjects,
+    deleteObjects,
+    createMultipartUpload,
+    uploadPart,
+    completeMultipartUpload,
+    abortMultipartUpload,
+  }
+}
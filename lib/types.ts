@@ -1,11 +1,453 @@
-export type UploadInitResponse = { sessionId: string }
+/** How a delimited text file is written; sniffed from a sample, and overridable by the user */
+export type CsvDialect = {
+  delimiter: string
+  quote: string
+  /** How a quote is written inside a quoted field: doubled (`""`, RFC 4180) or backslash-escaped (`\"`) */
+  escape: "double" | "backslash"
+  hasHeader: boolean
+  /**
+   * 0-based index of the header record; records above it (titles, notes) are skipped.
+   * Without a header, data starts at this record. Defaults to 0.
+   */
+  headerRow?: number
+  lineEnding: "\r\n" | "\n" | "\r"
+}
+
+/** Names chosen in the wizard, by column id; they replace the header text */
+export type ColumnRenames = Record<string, string>
+
+/** Edit of one column in the preview; a field left out keeps what finalize inferred */
+export type ColumnSchemaEdit = {
+  name?: string
+  type?: ColumnType
+  /** Left out of exports and the profile */
+  excluded?: boolean
+}
+
+/**
+ * Schema edits of a finalized session, by column id. Each save increments `version`;
+ * version 0 (no `updatedAt`) is the schema inferred at finalize, without edits.
+ */
+export type SessionSchema = {
+  sessionId: string
+  version: number
+  updatedAt: string | null
+  columns: Record<string, ColumnSchemaEdit>
+}
+
+/** PUT /schema: replaces the edits, provided nobody saved another version since `baseVersion` */
+export type SchemaUpdateRequest = {
+  sessionId: string
+  baseVersion: number
+  columns: Record<string, ColumnSchemaEdit>
+}
+
+/** 409 from PUT /schema: the schema was saved from elsewhere; `schema` is the current version */
+export type SchemaConflictResponse = {
+  error: string
+  schema: SessionSchema
+}
+
+/** A column of the file: `id` is positional and stable, `name` is unique and ready for display */
+export type ColumnHeader = {
+  /** `c1`, `c2`, ... by position; preview rows, types and profiles are keyed by it */
+  id: string
+  index: number
+  /** Trimmed, renamed if the user asked, de-duplicated (`amount`, `amount_2`); `column_3` for a blank header */
+  name: string
+  /** Header cell as written in the file; empty when the file has no header row */
+  original: string
+}
+
+export type TextEncodingName = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252"
+
+export type DetectedEncoding = {
+  encoding: TextEncodingName
+  /** The file starts with a byte order mark */
+  bom: boolean
+}
+
+/** Encoding found at finalize, and what was done about it */
+export type EncodingReport = DetectedEncoding & {
+  /** The stored `assembled.csv` was rewritten as UTF-8 without BOM */
+  transcoded: boolean
+  undecodableLineCount: number
+  /** 1-based line numbers containing bytes that could not be decoded (first 100) */
+  undecodableLines: number[]
+}
+
+export type CompressionFormat = "gzip" | "zip"
+
+/** A compressed upload, decompressed at finalize into `assembled.csv` */
+export type CompressionReport = {
+  format: CompressionFormat
+  /** Name of the file inside a zip archive */
+  entryName?: string
+  /** As uploaded (the size declared at init) */
+  compressedBytes: number
+  /** As decompressed, before any transcoding to UTF-8 */
+  uncompressedBytes: number
+}
+
+export type UploadInitRequest = {
+  filename: string
+  size: number
+  /** Dialect confirmed in the wizard; when absent the server sniffs it at finalize */
+  dialect?: CsvDialect
+  columnRenames?: ColumnRenames
+  /** Schema contract the file is checked against at finalize (see `SchemaContract`) */
+  contractId?: string
+}
+
+/** Server-declared chunk sizing: the client starts at `chunkSize` and adapts within the bounds */
+export type ChunkSizeBounds = {
+  chunkSize: number
+  minChunkSize: number
+  maxChunkSize: number
+}
+
+export type UploadInitResponse = ChunkSizeBounds & {
+  sessionId: string
+  /** Sent back in the `x-upload-token` header on every later request for this session */
+  uploadToken: string
+}
+
+/** Lifecycle of an upload session, persisted in its manifest */
+export type UploadSessionState = "uploading" | "assembling" | "ready" | "failed"
+
+export type UploadManifest = ChunkSizeBounds & {
+  sessionId: string
+  filename: string
+  size: number
+  createdAt: string
+  state: UploadSessionState
+  stateUpdatedAt: string
+  /** Why the last finalize attempt failed, when state is "failed" */
+  error?: string
+  /** Whole-file SHA-256 declared by the client at finalize time */
+  sha256?: string
+  /** From init when the client sent one, otherwise sniffed at finalize */
+  dialect?: CsvDialect
+  /** From init; applied to the header when the preview is computed */
+  columnRenames?: ColumnRenames
+  /** From init; finalize checks the whole file against this contract */
+  contractId?: string
+  /** Set at finalize; later reads decode `assembled.csv` with `storedEncoding(encoding)` */
+  encoding?: EncodingReport
+  /** Set at finalize when the upload was gzip or zip; `assembled.csv` then holds the decompressed file */
+  compression?: CompressionReport
+}
+
+/** A stored chunk, identified by its byte offset in the file */
+export type ReceivedChunk = {
+  offset: number
+  bytes: number
+}
+
+/** Half-open byte range [start, end) */
+export type ByteRange = {
+  start: number
+  end: number
+}
+
+export type UploadStatusResponse = ChunkSizeBounds & {
+  sessionId: string
+  state: UploadSessionState
+  size: number
+  receivedChunks: ReceivedChunk[]
+}
+
+export type MissingChunksResponse = {
+  error: string
+  missingRanges: ByteRange[]
+}
+
+/** What finalize does with data rows whose field count differs from the header's: leave them out, or fail */
+export type MalformedRowPolicy = "skip" | "fail"
+
+export type FinalizeRequest = {
+  sessionId: string
+  sha256?: string
+  /** Defaults to "skip" */
+  malformedRowPolicy?: MalformedRowPolicy
+}
+
+export type IntegrityResult = {
+  algorithm: "sha256"
+  /** Hash of the assembled file as computed by the server */
+  sha256: string
+  /** Hash declared by the client, null when none was provided */
+  expectedSha256: string | null
+  verified: boolean
+}
+
+export type NumberFormat = {
+  decimalSeparator: "." | ","
+  /** Grouping character seen in the values, if any (`1,234.5`, `1.234,5`, `1 234`) */
+  thousandsSeparator?: "," | "." | " "
+}
+
+export type DatePattern = "YYYY-MM-DD" | "YYYY/MM/DD" | "MM/DD/YYYY" | "DD/MM/YYYY" | "DD.MM.YYYY" | "DD-MM-YYYY"
+
+/**
+ * Inferred type of a column, with the format the values were written in.
+ * Shared by preview inference, schema issue detection and the type badges.
+ */
+export type ColumnType =
+  | { kind: "integer"; format: NumberFormat }
+  | { kind: "decimal"; format: NumberFormat; scientific: boolean }
+  | { kind: "boolean"; trueValue: string; falseValue: string }
+  | { kind: "date"; pattern: DatePattern }
+  | { kind: "datetime"; pattern: DatePattern; separator: "T" | " "; seconds: boolean; timeZone: boolean }
+  | { kind: "email" }
+  | { kind: "url" }
+  | { kind: "currency"; symbol: string; format: NumberFormat }
+  | { kind: "percentage"; format: NumberFormat }
+  | { kind: "categorical"; categories: string[] }
+  | { kind: "string" }
+  | { kind: "unknown" }
+
+export type ColumnTypeKind = ColumnType["kind"]
+
+export type ValueCount = {
+  value: string
+  count: number
+}
+
+/** Bin of a numeric histogram, covering [start, end) (the last bin includes `end`) */
+export type HistogramBin = {
+  start: number
+  end: number
+  count: number
+}
+
+/** Statistics of one column over the whole file */
+export type ColumnProfile = {
+  id: string
+  name: string
+  /** Type inferred from the preview rows; values are checked against it */
+  type: ColumnType
+  rowCount: number
+  /** Empty (or whitespace-only) and missing cells */
+  nullCount: number
+  /** Non-empty values that do not match `type` */
+  mismatchCount: number
+  distinctCount: number
+  /** False once the column has too many distinct values to count exactly and `distinctCount` is an estimate */
+  distinctExact: boolean
+  /** Smallest and largest values as written: numeric or chronological order when the type allows, text order otherwise */
+  min: string | null
+  max: string | null
+  /** Numeric kinds only */
+  mean: number | null
+  /** Most frequent values, most frequent first */
+  topValues: ValueCount[]
+  /** False when the column had too many distinct values to track; counts are then lower bounds */
+  topValuesExact: boolean
+  /** Numeric kinds only; bin counts are scaled from a uniform sample on large files */
+  histogram: HistogramBin[] | null
+}
+
+export type DatasetProfile = {
+  sessionId: string
+  /** Version of the session schema the profile was computed with; a profile of an older version is recomputed */
+  schemaVersion?: number
+  rowCount: number
+  completedAt: string
+  /** Columns excluded by the session schema are left out */
+  columns: ColumnProfile[]
+}
+
+/** Sparse index of the data rows of the assembled file, written at finalize; malformed rows are not counted */
+export type RowIndex = {
+  /** Well-formed data rows */
+  rowCount: number
+  /** Row `k * stride` starts at byte `checkpoints[k]` */
+  stride: number
+  /** Empty when byte offsets could not be trusted (undecodable bytes left in the file); rows are then read from the start */
+  checkpoints: number[]
+}
+
+/**
+ * Condition on one column of GET /rows, checked against the column's type in the saved session schema:
+ * - `gte`, `lte`: bounds of a numeric, date or datetime column (dates as `YYYY-MM-DD`, datetimes as `YYYY-MM-DDTHH:mm`)
+ * - `is`: `true` or `false`, for a boolean column
+ * - `contains`, `equals`: text of any other column, ignoring case
+ */
+export type RowFilterOperator = "gte" | "lte" | "is" | "contains" | "equals"
+
+export type RowFilter = {
+  columnId: string
+  operator: RowFilterOperator
+  value: string
+}
+
+export type RowSort = {
+  columnId: string
+  direction: "asc" | "desc"
+}
+
+/** Order and conditions of GET /rows; every filter must hold. Without either, rows come in file order */
+export type RowQuery = {
+  sort: RowSort | null
+  filters: RowFilter[]
+}
+
+/** GET /rows: a slice of the data rows, keyed by column id like the preview rows */
+export type RowsResponse = {
+  sessionId: string
+  offset: number
+  /** Well-formed data rows in the whole file */
+  totalRows: number
+  /** Rows matching the filters; `offset` counts among them */
+  matchingRows: number
+  rows: Array<Record<string, string>>
+}
+
+/** GET /profile: profiling runs in the background after finalize and is polled */
+export type ProfileResponse =
+  | { sessionId: string; status: "running"; bytesRead: number; totalBytes: number }
+  | { sessionId: string; status: "ready"; profile: DatasetProfile }
+  | { sessionId: string; status: "failed"; error: string }
+
+export type MalformedRow = {
+  /** 1-based physical line the row starts on */
+  line: number
+  expectedFields: number
+  actualFields: number
+  /** The row as written, cut to 1000 characters */
+  raw: string
+}
+
+/** Counts from the whole-file scan for malformed rows done at finalize */
+export type MalformedRowSummary = {
+  policy: MalformedRowPolicy
+  /** Data rows read, malformed ones included */
+  rowCount: number
+  malformedCount: number
+  /** Malformed rows by their field count, e.g. { "2": 1200 } */
+  byFieldCount: Record<string, number>
+}
+
+/** GET /errors: the summary plus the malformed rows themselves, listed up to a cap */
+export type MalformedRowReport = MalformedRowSummary & {
+  rows: MalformedRow[]
+  /** More rows are malformed than `rows` lists */
+  truncated: boolean
+}
+
+/** 422 from finalize when the policy is "fail" and malformed rows were found */
+export type MalformedRowsResponse = {
+  error: string
+  malformedRows: MalformedRowSummary
+}
+
+export type SchemaIssueSeverity = "warning" | "error"
+
+/** A problem found in the data, by schema detection or a schema contract */
+export interface SchemaIssue {
+  column: string
+  severity: SchemaIssueSeverity
+  message: string
+  details?: string
+}
+
+/** Value types a contract can require; numbers, booleans and dates may be written in any format type inference recognizes */
+export type ContractValueType = "string" | "integer" | "number" | "boolean" | "date" | "datetime" | "email" | "url"
+
+/** What a schema contract expects of one column */
+export type ContractColumn = {
+  /** Matched against the column names (after renames), ignoring case and surrounding spaces */
+  name: string
+  /** A required column must be in the file and have a value in every row; an optional one may be missing or have empty cells */
+  required: boolean
+  type?: ContractValueType
+  /** Regular expression every non-empty value must match in full */
+  pattern?: string
+  /** Allowed values, compared as written (trimmed) */
+  enum?: string[]
+  /** Inclusive bounds; integer and number columns only */
+  minimum?: number
+  maximum?: number
+  /** No two non-empty values may be equal */
+  unique?: boolean
+  /** Severity of this column's violations; "error" (the default) blocks finalize */
+  severity?: SchemaIssueSeverity
+}
+
+export type SchemaContractInput = {
+  name: string
+  description?: string
+  columns: ContractColumn[]
+  /** When false, columns the contract does not list are reported as warnings. Defaults to true */
+  allowExtraColumns?: boolean
+}
+
+/** Expected columns of an upload, stored server-side and chosen in the wizard; contracts are never edited once created */
+export type SchemaContract = SchemaContractInput & {
+  id: string
+  createdAt: string
+}
+
+export type SchemaContractsResponse = {
+  contracts: SchemaContract[]
+}
+
+export type ContractCheckResult = {
+  contractId: string
+  contractName: string
+  /** Data rows checked; malformed rows are left out */
+  rowCount: number
+  issues: SchemaIssue[]
+  /** An issue has "error" severity, so finalize fails */
+  blocked: boolean
+}
+
+export type ContractViolationResponse = {
+  error: string
+  contract: ContractCheckResult
+}
+
+/**
+ * Download formats of a finalized dataset: UTF-8 comma-separated CSV, JSON Lines (one object of strings per row),
+ * or JSON with values converted to their column type
+ */
+export type ExportFormat = "csv" | "jsonl" | "json"
+
+/** Body of `POST /export`, which signs a download link for these export parameters */
+export type ExportLinkRequest = {
+  sessionId: string
+  format: ExportFormat
+  /** Column ids, comma-separated, as in the export's `columns=`; every column when absent */
+  columns?: string
+}
+
+export type ExportLinkResponse = {
+  /** Download URL carrying its expiry and signature instead of the upload token */
+  url: string
+  expiresAt: string
+  /** Download name of the export */
+  filename: string
+}
 
 export type PreviewResponse = {
   sessionId: string
+  integrity: IntegrityResult
+  dialect: CsvDialect
+  encoding: EncodingReport
+  /** Null for uncompressed uploads */
+  compression: CompressionReport | null
+  /** Malformed rows are left out of the preview rows, the profile and every later read */
+  malformedRows: MalformedRowSummary
+  /** Null when the upload has no schema contract */
+  contract: ContractCheckResult | null
+  /** Schema edits saved in the preview; added by the preview route, the stored preview stays as inferred at finalize */
+  schema?: SessionSchema
   preview: {
-    columns: string[]
-    types: Record<string, string>
+    columns: ColumnHeader[]
+    /** By column id */
+    types: Record<string, ColumnType>
+    /** By column id, so duplicate or blank header names cannot collide */
     rows: Array<Record<string, string>>
   }
 }
-
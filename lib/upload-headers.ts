@@ -0,0 +1,4 @@
+// Headers of the upload API shared by the routes and the browser. Kept apart from session-auth, which needs node's crypto.
+
+/** Carries the upload token issued by init to every request on the session */
+export const UPLOAD_TOKEN_HEADER = "x-upload-token"
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict"
+import { coverChunks, takeNextSlice } from "@/lib/chunk-ranges"
+import { checkChunkRange } from "@/lib/storage"
+import type { ByteRange, ReceivedChunk } from "@/lib/types"
+
+const KB = 1024
+const MB = 1024 * KB
+const manifest = { size: 3 * MB, minChunkSize: 256 * KB, maxChunkSize: 4 * MB }
+
+/**
+ * Uploads every pending range the way the hook does, checking each slice as the chunk route would.
+ */
+function resume(chunks: ReceivedChunk[], chunkSize: number) {
+  const pending: ByteRange[] = coverChunks(chunks, manifest.size).missingRanges
+  const stored = [...chunks]
+  for (let slice = takeNextSlice(pending, chunkSize, manifest); slice; slice = takeNextSlice(pending, chunkSize, manifest)) {
+    const bytes = slice.end - slice.start
+    const endsAtStoredChunk = stored.some((c) => c.offset === slice.end)
+    assert.equal(checkChunkRange(manifest, slice.start, bytes, endsAtStoredChunk), null, `slice ${slice.start}-${slice.end}`)
+    stored.push({ offset: slice.start, bytes })
+  }
+  return coverChunks(stored, manifest.size)
+}
+
+function check(name: string, run: () => void) {
+  run()
+  console.log("ok", name)
+}
+
+check("a gap shorter than the minimum chunk size is filled by one short chunk", () => {
+  const chunks = [
+    { offset: 0, bytes: MB },
+    { offset: MB + 100 * KB, bytes: 2 * MB - 100 * KB },
+  ]
+  assert.deepEqual(coverChunks(chunks, manifest.size).missingRanges, [{ start: MB, end: MB + 100 * KB }])
+  assert.match(checkChunkRange(manifest, MB, 100 * KB) ?? "", /minimum/)
+  assert.equal(checkChunkRange(manifest, MB, 100 * KB, true), null)
+
+  const { parts, missingRanges } = resume(chunks, MB)
+  assert.deepEqual(missingRanges, [])
+  assert.deepEqual(parts.map((p) => p.offset), [0, MB, MB + 100 * KB])
+})
+
+check("a short chunk that does not end at a stored chunk is still rejected", () => {
+  assert.match(checkChunkRange(manifest, MB, 100 * KB, false) ?? "", /minimum/)
+})
+
+check("slices never leave a remainder shorter than the minimum inside a gap", () => {
+  const chunks = [{ offset: MB + 100 * KB, bytes: 2 * MB - 100 * KB }]
+  const pending = coverChunks(chunks, manifest.size).missingRanges
+  assert.deepEqual(takeNextSlice(pending, MB, manifest), { start: 0, end: MB + 100 * KB })
+  assert.deepEqual(resume(chunks, MB).missingRanges, [])
+})
+
+check("gaps left by a resume with a different chunk size are filled", () => {
+  const chunks = [
+    { offset: 0, bytes: 512 * KB },
+    { offset: 700 * KB, bytes: 300 * KB },
+    { offset: 2 * MB + 10 * KB, bytes: MB - 10 * KB },
+  ]
+  assert.deepEqual(resume(chunks, 256 * KB).missingRanges, [])
+})
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict"
+import crypto from "crypto"
+import fs from "fs/promises"
+import os from "os"
+import path from "path"
+import type { StorageAdapter } from "@/lib/storage/adapter"
+import { createFsStorage } from "@/lib/storage/fs-adapter"
+import { MIN_MULTIPART_PART_BYTES, createMemoryObjectStore } from "@/lib/storage/object-store"
+import { createS3Storage } from "@/lib/storage/s3-adapter"
+
+const CHUNK_BYTES = 1024 * 1024
+
+async function readAll(body: AsyncIterable<Uint8Array> | null) {
+  assert.ok(body, "expected a stream")
+  const parts: Buffer[] = []
+  for await (const part of body) parts.push(Buffer.from(part))
+  return Buffer.concat(parts)
+}
+
+async function* pieces(data: Buffer, size = 64 * 1024) {
+  for (let i = 0; i < data.length; i += size) yield data.subarray(i, i + size)
+}
+
+async function* failAfter(data: Buffer) {
+  yield* pieces(data)
+  throw new Error("source failed")
+}
+
+function sha256(data: Buffer) {
+  return crypto.createHash("sha256").update(data).digest("hex")
+}
+
+/**
+ * Runs the same checks against a backend: what the routes rely on, including the parts a backend
+ * gets wrong quietly (chunk order, multipart part sizes, partial writes, ranges).
+ */
+async function checkAdapter(storage: StorageAdapter) {
+  const sessionId = crypto.randomUUID()
+  // Over two multipart parts, so the S3 backend has to buffer 1MB chunks into 5MB parts
+  const data = crypto.randomBytes(MIN_MULTIPART_PART_BYTES * 2 + 123_456)
+  const offsets: number[] = []
+  for (let offset = 0; offset < data.length; offset += CHUNK_BYTES) offsets.push(offset)
+
+  // Chunks arrive out of order, and a retried chunk replaces the first copy
+  for (const offset of [...offsets].reverse()) {
+    await storage.writeChunk(sessionId, offset, crypto.randomBytes(10))
+    await storage.writeChunk(sessionId, offset, data.subarray(offset, offset + CHUNK_BYTES))
+  }
+  const chunks = await storage.listChunks(sessionId)
+  assert.deepEqual(chunks.map((c) => c.offset), offsets)
+  assert.ok((await storage.readChunk(sessionId, CHUNK_BYTES)).equals(data.subarray(CHUNK_BYTES, 2 * CHUNK_BYTES)))
+
+  const assembled = await storage.assemble(sessionId, chunks)
+  assert.deepEqual(assembled, { sha256: sha256(data), size: data.length })
+  assert.equal(await storage.assembledSize(sessionId), data.length)
+  assert.ok((await readAll(await storage.streamAssembled(sessionId))).equals(data))
+  const range = { start: 5, end: MIN_MULTIPART_PART_BYTES + 7 }
+  assert.ok((await readAll(await storage.streamAssembled(sessionId, range))).equals(data.subarray(range.start, range.end)))
+  assert.equal((await readAll(await storage.streamAssembled(sessionId, { start: 10, end: 10 }))).length, 0)
+
+  // Rewriting the assembled file from itself, as transcoding does; a failed rewrite keeps the previous file
+  const inverted = Buffer.from(data.map((b) => b ^ 0xff))
+  const source = await storage.streamAssembled(sessionId)
+  assert.ok(source)
+  await storage.writeAssembled(sessionId, (async function* () {
+    for await (const piece of source) yield Buffer.from(piece).map((b) => b ^ 0xff)
+  })())
+  assert.ok((await readAll(await storage.streamAssembled(sessionId))).equals(inverted))
+  await assert.rejects(storage.writeAssembled(sessionId, failAfter(data)), /source failed/)
+  assert.ok((await readAll(await storage.streamAssembled(sessionId))).equals(inverted))
+
+  await storage.removeAssembled(sessionId)
+  assert.equal(await storage.assembledSize(sessionId), null)
+  assert.equal(await storage.streamAssembled(sessionId), null)
+
+  // Artifacts
+  assert.equal(await storage.readArtifact(sessionId, "check.json"), null)
+  await storage.writeArtifact(sessionId, "check.json", JSON.stringify({ version: 1 }))
+  await storage.writeArtifact(sessionId, "check.json", JSON.stringify({ version: 2 }))
+  assert.deepEqual(JSON.parse((await storage.readArtifact(sessionId, "check.json"))!.toString("utf8")), { version: 2 })
+
+  const written = await storage.writeArtifactStream(sessionId, "export.csv", pieces(data))
+  assert.deepEqual(written, { sha256: sha256(data), size: data.length })
+  assert.equal(await storage.artifactSize(sessionId, "export.csv"), data.length)
+  assert.ok((await readAll(await storage.streamArtifact(sessionId, "export.csv", range))).equals(data.subarray(range.start, range.end)))
+  await assert.rejects(storage.writeArtifactStream(sessionId, "failed.csv", failAfter(data)), /source failed/)
+  assert.equal(await storage.artifactSize(sessionId, "failed.csv"), null)
+  await storage.deleteArtifact(sessionId, "export.csv")
+  await storage.deleteArtifact(sessionId, "export.csv")
+  assert.equal(await storage.artifactSize(sessionId, "export.csv"), null)
+  assert.equal(await storage.streamArtifact(sessionId, "export.csv"), null)
+
+  // Records belong to no session
+  const collection = `check-${crypto.randomUUID()}`
+  await storage.writeRecord(collection, "b.json", "{}")
+  await storage.writeRecord(collection, "a.json", "[]")
+  assert.deepEqual(await storage.listRecords(collection), ["a.json", "b.json"])
+  assert.equal((await storage.readRecord(collection, "a.json"))!.toString("utf8"), "[]")
+  assert.equal(await storage.readRecord(collection, "c.json"), null)
+  await assert.rejects(storage.writeRecord(collection, "../escape.json", "{}"), /Invalid record name/)
+
+  // Sessions
+  const usage = (await storage.listSessions()).find((s) => s.sessionId === sessionId)
+  assert.ok(usage && usage.bytes > 0 && usage.lastModifiedMs > 0)
+  assert.ok((await storage.listSessions()).every((s) => s.sessionId !== "_shared"))
+  assert.equal(await storage.deleteSession(sessionId), true)
+  assert.equal(await storage.deleteSession(sessionId), false)
+  assert.deepEqual(await storage.listChunks(sessionId), [])
+  assert.ok((await storage.listSessions()).every((s) => s.sessionId !== sessionId))
+  assert.deepEqual(await storage.listRecords(collection), ["a.json", "b.json"])
+}
+
+async function main() {
+  await checkAdapter(createS3Storage(createMemoryObjectStore(), "prefix/"))
+  console.log("ok s3 backend over the in-memory object store")
+
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "check-storage-"))
+  try {
+    await checkAdapter(createFsStorage(dataDir))
+    const leftovers = (await fs.readdir(dataDir, { recursive: true })).filter((f) => f.endsWith(".tmp"))
+    assert.deepEqual(leftovers, [], "temporary files left behind")
+    console.log("ok fs backend")
+  } finally {
+    await fs.rm(dataDir, { recursive: true, force: true })
+  }
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})
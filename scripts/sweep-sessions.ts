@@ -0,0 +1,22 @@
+import { getSessionTtls, getStorage, sweepExpiredSessions } from "@/lib/storage"
+
+function formatMB(bytes: number) {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+async function main() {
+  const storage = getStorage()
+  const ttls = getSessionTtls()
+  console.log(
+    `Sweeping ${storage.name} sessions (incomplete TTL ${ttls.incompleteMs / 3_600_000}h, finalized TTL ${ttls.finalizedMs / 3_600_000}h)`
+  )
+
+  const { removed, reclaimedBytes } = await sweepExpiredSessions(storage, ttls)
+  for (const sessionId of removed) console.log("Removed", sessionId)
+  console.log(`Removed ${removed.length} session(s), reclaimed ${formatMB(reclaimedBytes)}`)
+}
+
+main().catch((e) => {
+  console.error(e)
+  process.exit(1)
+})